@@ -0,0 +1,65 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { COMMANDS } from "../src/cli/commands.js";
+import { CliOutput, EXIT_CODES, getExitCode } from "../src/cli/output.js";
+import UnityEditor from "../src/unityEditor.js";
+import { setCommandRunner } from "../src/utils/commandRunner.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("unity-cli commands", () => {
+  let projectPath: string;
+
+  const runCommand = (name: string, positionals: string[]): ReturnType<(typeof COMMANDS)[number]["run"]> => {
+    const command = COMMANDS.find((entry) => entry.name === name);
+    if (!command) throw new Error(`Unknown command: ${name}`);
+
+    return command.run({
+      positionals,
+      values: {},
+      output: new CliOutput(true),
+      signal: new AbortController().signal,
+    });
+  };
+
+  beforeAll(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-project-"));
+    await fs.outputFile(
+      path.join(projectPath, "ProjectSettings", "ProjectVersion.txt"),
+      "m_EditorVersion: 2022.3.60f1\n"
+    );
+  });
+
+  beforeEach(() => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+  });
+
+  afterAll(async () => {
+    setCommandRunner();
+    await fs.remove(projectPath);
+  });
+
+  describe("execute-method", () => {
+    it("fails with the command error exit code when Unity exits with an error and no stderr", async () => {
+      setCommandRunner(
+        new ScriptedCommandRunner([
+          { executable: /Unity(\.exe)?$/, stdout: "Aborting batchmode due to failure\n", exitCode: 1 },
+        ])
+      );
+
+      const result = await runCommand("execute-method", [projectPath, "Build.Perform"]);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && getExitCode(result.error)).toBe(EXIT_CODES.UNITY_COMMAND_ERROR);
+    });
+
+    it("succeeds when Unity exits with code 0", async () => {
+      setCommandRunner(new ScriptedCommandRunner([{ executable: /Unity(\.exe)?$/, stdout: "Done\n" }]));
+
+      const result = await runCommand("execute-method", [projectPath, "Build.Perform"]);
+
+      expect(result.success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { ExecaCommandRunner } from "../src/utils/commandRunner.js";
+import { tailFile } from "../src/utils/fileTail.js";
+
+// Writes "é" split between two writes, then a line break
+const SPLIT_CHARACTER_SCRIPT =
+  "process.stdout.write(Buffer.from([0xc3]));" +
+  "setTimeout(() => { process.stdout.write(Buffer.from([0xa9, 0x0a])); process.exitCode = Number(process.argv[1]); }, 50);";
+
+const wait = (delayMs: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, delayMs));
+
+describe("ExecaCommandRunner", () => {
+  const runner = new ExecaCommandRunner();
+
+  it("returns the streamed output, keeping characters split between chunks", async () => {
+    const chunks: string[] = [];
+
+    const output = await runner.run(process.execPath, ["-e", SPLIT_CHARACTER_SCRIPT, "0"], {
+      onStdout: (chunk) => chunks.push(chunk),
+    });
+
+    expect(output).toEqual({ stdout: "é\n", stderr: "", exitCode: 0 });
+    expect(chunks.join("")).toBe("é\n");
+  });
+
+  it("keeps the streamed output in the error of a rejected command", async () => {
+    await expect(
+      runner.run(process.execPath, ["-e", SPLIT_CHARACTER_SCRIPT, "3"], { reject: true, onStdout: () => undefined })
+    ).rejects.toMatchObject({ stdout: "é\n", stderr: "", exitCode: 3 });
+  });
+});
+
+describe("tailFile", () => {
+  it("keeps characters split between two reads", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-tail-"));
+    const filePath = path.join(directory, "Editor.log");
+    const lines: string[] = [];
+    const tail = tailFile(filePath, (line) => lines.push(line), 10);
+
+    await fs.writeFile(filePath, Buffer.from([0x63, 0x61, 0x66, 0xc3]));
+    await wait(50);
+    await fs.appendFile(filePath, Buffer.from([0xa9, 0x0a]));
+    await wait(50);
+    await tail.stop();
+
+    expect(lines).toEqual(["café"]);
+    await fs.remove(directory);
+  });
+
+  it("reads a truncated file again from the beginning", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-tail-"));
+    const filePath = path.join(directory, "Editor.log");
+    const lines: string[] = [];
+    const tail = tailFile(filePath, (line) => lines.push(line), 10);
+
+    await fs.writeFile(filePath, "Previous run\nExiting\n");
+    await wait(50);
+    await fs.writeFile(filePath, "New run\n");
+    await wait(50);
+    await tail.stop();
+
+    expect(lines).toEqual(["Previous run", "Exiting", "New run"]);
+    await fs.remove(directory);
+  });
+
+  it("reports the last line without a line break when stopped", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-tail-"));
+    const filePath = path.join(directory, "Editor.log");
+    const lines: string[] = [];
+    const tail = tailFile(filePath, (line) => lines.push(line), 10);
+
+    await fs.writeFile(filePath, "Batchmode quit successfully invoked\nApplication will terminate");
+    await wait(50);
+
+    expect(lines).toEqual(["Batchmode quit successfully invoked"]);
+
+    await tail.stop();
+
+    expect(lines).toEqual(["Batchmode quit successfully invoked", "Application will terminate"]);
+    await fs.remove(directory);
+  });
+});
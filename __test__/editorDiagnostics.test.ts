@@ -0,0 +1,59 @@
+import UnityEditor from "../src/unityEditor.js";
+import { UnityLicenseError, UnityPackageError, UnityTestError } from "../src/errors/index.js";
+import { UnityLogEntryType } from "../src/types/unity.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityEditor failure diagnostics", () => {
+  const projectInfo = { projectName: "Game", projectPath: "/projects/game", editorVersion: "2022.3.60f1" };
+  const compilerError =
+    "Assets/Scripts/Player.cs(12,5): error CS0103: The name 'speed' does not exist in the current context\n";
+
+  beforeEach(() => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+  });
+
+  const expectCompilerError = (error: { diagnostics: { type: UnityLogEntryType }[] }): void => {
+    expect(error.diagnostics.map((entry) => entry.type)).toContain(UnityLogEntryType.CompilerError);
+  };
+
+  it("attaches diagnostics to package errors", async () => {
+    const runner = new ScriptedCommandRunner([
+      { args: ["-exportPackage"], stdout: `${compilerError}Failed to export package\n`, exitCode: 1 },
+      { args: ["-importPackage"], stdout: `${compilerError}Failed to import package\n`, exitCode: 1 },
+    ]);
+
+    const exported = await UnityEditor.exportPackage(projectInfo, ["Assets/Scripts"], "/tmp/game.unitypackage", {
+      runner,
+    });
+    const imported = await UnityEditor.importPackage(projectInfo, "/tmp/game.unitypackage", { runner });
+
+    for (const result of [exported, imported]) {
+      expect(!result.success && result.error).toBeInstanceOf(UnityPackageError);
+      expectCompilerError(!result.success ? (result.error as UnityPackageError) : { diagnostics: [] });
+    }
+  });
+
+  it("attaches diagnostics to license errors", async () => {
+    const runner = new ScriptedCommandRunner([
+      { args: ["-serial"], stdout: `${compilerError}License activation failed\n`, exitCode: 1 },
+    ]);
+
+    const result = await UnityEditor.activateLicense(projectInfo, "E3-AAAA-BBBB-CCCC-DDDD-EEEE", "user", "password", {
+      runner,
+      force: true,
+    });
+
+    expect(!result.success && result.error).toBeInstanceOf(UnityLicenseError);
+    expectCompilerError(!result.success ? (result.error as UnityLicenseError) : { diagnostics: [] });
+  });
+
+  it("attaches diagnostics to test runs without results", async () => {
+    const runner = new ScriptedCommandRunner([{ args: ["-runTests"], stdout: compilerError, exitCode: 1 }]);
+
+    const result = await UnityEditor.runTests(projectInfo, undefined, undefined, { runner });
+
+    expect(!result.success && result.error).toBeInstanceOf(UnityTestError);
+    expectCompilerError(!result.success ? (result.error as UnityTestError) : { diagnostics: [] });
+  });
+});
@@ -0,0 +1,116 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { EditorArchitecture } from "../src/types/unity.js";
+import { readEditorChangeset, readEditorDetails, readEditorVersion } from "../src/utils/editorInstallation.js";
+
+describe("readEditorChangeset", () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "editor-installation-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(folder);
+  });
+
+  /**
+   * Writes a minimal PE executable with a resource section holding the given product version
+   */
+  const writeExecutable = async (productVersion: string): Promise<string> => {
+    const resources = Buffer.concat([
+      Buffer.from("\0\0ProductVersion\0\0", "utf16le"),
+      Buffer.from(`${productVersion}\0`, "utf16le"),
+    ]);
+    const header = Buffer.alloc(512);
+    header.write("MZ", 0, "latin1");
+    header.writeUInt32LE(64, 0x3c);
+    header.write("PE\0\0", 64, "latin1");
+    header.writeUInt16LE(0x8664, 68);
+    header.writeUInt16LE(1, 70);
+    header.write(".rsrc", 88, "latin1");
+    header.writeUInt32LE(resources.length, 88 + 16);
+    header.writeUInt32LE(header.length, 88 + 20);
+
+    const executablePath = path.join(folder, "Unity.exe");
+    await fs.writeFile(executablePath, Buffer.concat([header, resources]));
+    return executablePath;
+  };
+
+  it("reads the changeset from the version resource of a Windows editor", async () => {
+    expect(await readEditorChangeset(await writeExecutable("2022.3.60f1_8F0F1A8A0A4C"))).toBe("8f0f1a8a0a4c");
+  });
+
+  it("reads the version from the version resource of a Windows editor", async () => {
+    expect(await readEditorVersion(await writeExecutable("2022.3.60f1_8f0f1a8a0a4c"))).toBe("2022.3.60f1");
+  });
+
+  it("returns undefined when the product version has no changeset", async () => {
+    expect(await readEditorChangeset(await writeExecutable("2022.3.60f1"))).toBeUndefined();
+  });
+
+  it("reads the changeset from the Info.plist of a macOS editor", async () => {
+    const bundlePath = path.join(folder, "Unity.app");
+    await fs.outputFile(
+      path.join(bundlePath, "Contents", "Info.plist"),
+      "<plist><dict><key>UnityBuildNumber</key><string>8f0f1a8a0a4c</string></dict></plist>"
+    );
+
+    expect(await readEditorChangeset(bundlePath)).toBe("8f0f1a8a0a4c");
+  });
+
+  it("reads the version from the Info.plist of a macOS editor or the folder it is installed in", async () => {
+    const bundlePath = path.join(folder, "Unity.app");
+    await fs.outputFile(
+      path.join(bundlePath, "Contents", "Info.plist"),
+      "<plist><dict><key>CFBundleVersion</key><string>6000.0.40f1</string></dict></plist>"
+    );
+
+    expect(await readEditorVersion(path.join(bundlePath, "Contents", "MacOS", "Unity"))).toBe("6000.0.40f1");
+    expect(await readEditorVersion("/opt/Unity/Hub/Editor/2022.3.60f1-x86_64/Editor/Unity")).toBe("2022.3.60f1");
+    expect(await readEditorVersion("/opt/unity/Editor/Unity")).toBeUndefined();
+  });
+
+  it("returns undefined for Linux editors", async () => {
+    const executablePath = path.join(folder, "Unity");
+    await fs.writeFile(executablePath, "\x7fELF");
+
+    expect(await readEditorChangeset(executablePath)).toBeUndefined();
+  });
+});
+
+describe("readEditorDetails", () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "editor-installation-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(folder);
+  });
+
+  const writeElf = async (executablePath: string, machine: number, mtime: Date): Promise<void> => {
+    const header = Buffer.alloc(64);
+    header.write("\x7fELF", 0, "latin1");
+    header.writeUInt16LE(machine, 18);
+    await fs.writeFile(executablePath, header);
+    await fs.utimes(executablePath, mtime, mtime);
+  };
+
+  it("reads an executable again only once it is modified", async () => {
+    const executablePath = path.join(folder, "Unity");
+    const installedAt = new Date(2025, 0, 1);
+
+    await writeElf(executablePath, 62, installedAt);
+    expect(await readEditorDetails(executablePath)).toEqual({ architecture: EditorArchitecture.x86_64 });
+
+    // Same size and modification time: the cached details are returned without reading the executable
+    await writeElf(executablePath, 183, installedAt);
+    expect((await readEditorDetails(executablePath)).architecture).toBe(EditorArchitecture.x86_64);
+
+    await writeElf(executablePath, 183, new Date(2025, 0, 2));
+    expect((await readEditorDetails(executablePath)).architecture).toBe(EditorArchitecture.arm64);
+  });
+});
@@ -0,0 +1,94 @@
+import UnityEditor from "../src/unityEditor.js";
+import { UnityCommandError } from "../src/errors/index.js";
+import { EditorLogLine, EditorLogSource, ScriptedCommand } from "../src/types/unity.js";
+import { UnityEditorLogStream } from "../src/events/editorLogEmitter.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+const wait = (delayMs: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, delayMs));
+
+describe("UnityEditorLogStream", () => {
+  const stream = async (command: ScriptedCommand): Promise<UnityEditorLogStream> => {
+    const result = await UnityEditor.streamUnityEditorCommand(
+      { version: "2022.3.60f1", path: "/opt/unity/2022.3.60f1/Editor/Unity" },
+      ["-batchmode", "-quit"],
+      { runner: new ScriptedCommandRunner([command]) }
+    );
+
+    if (!result.success) {
+      throw result.error;
+    }
+
+    return result.value;
+  };
+
+  it("buffers the lines written while the consumer is busy, in order", async () => {
+    const logStream = await stream({
+      args: ["-logFile", "-"],
+      chunks: [
+        { stream: "stdout", data: "Initialize engine\nLoading project\n", delayMs: 20 },
+        { stream: "stderr", data: "Missing shader\n" },
+        { stream: "stdout", data: "Exiting batchmode successfully now!\n" },
+      ],
+    });
+    const lines: EditorLogLine[] = [];
+
+    for await (const line of logStream) {
+      lines.push(line);
+      await wait(20);
+    }
+
+    expect(lines.map(({ line, source }) => [line, source])).toEqual([
+      ["Initialize engine", EditorLogSource.Stdout],
+      ["Loading project", EditorLogSource.Stdout],
+      ["Missing shader", EditorLogSource.Stderr],
+      ["Exiting batchmode successfully now!", EditorLogSource.Stdout],
+    ]);
+  });
+
+  it("ends when the editor exits, whatever its exit code", async () => {
+    const logStream = await stream({
+      chunks: [{ stream: "stdout", data: "Aborting batchmode due to failure\n", delayMs: 20 }],
+      exitCode: 1,
+    });
+    const lines: string[] = [];
+
+    for await (const { line } of logStream) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual(["Aborting batchmode due to failure"]);
+    await expect(logStream.completed).resolves.toMatchObject({ exitCode: 1 });
+  });
+
+  it("throws when the editor cannot be run", async () => {
+    const logStream = await stream({ error: new Error("spawn EACCES") });
+    const lines: string[] = [];
+
+    const iterate = async (): Promise<void> => {
+      for await (const { line } of logStream) {
+        lines.push(line);
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(UnityCommandError);
+    expect(lines).toEqual([]);
+  });
+
+  it("ignores lines written after the editor exited", async () => {
+    const logStream = new UnityEditorLogStream();
+    const lines: string[] = [];
+    const iteration = (async (): Promise<void> => {
+      for await (const { line } of logStream) {
+        lines.push(line);
+      }
+    })();
+
+    await wait(0);
+    logStream.Line("Exiting", EditorLogSource.Stdout);
+    logStream.Exit({ stdout: "Exiting\n", stderr: "", exitCode: 0 });
+    logStream.Line("Late", EditorLogSource.Stdout);
+    await iteration;
+
+    expect(lines).toEqual(["Exiting"]);
+  });
+});
@@ -0,0 +1,65 @@
+import { UnityHubInstallerEvent } from "../src/events/hubEventEmitter.js";
+import { InstallJobOperation, ModuleId } from "../src/types/unity.js";
+import { InstallJobRequest, InstallQueue } from "../src/utils/installQueue.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("InstallQueue", () => {
+  const addModules = (modules: string[]): InstallJobRequest => ({
+    operation: InstallJobOperation.AddModules,
+    version: "2022.3.60f1",
+    modules: modules as ModuleId[],
+  });
+  const createEmitter = (): UnityHubInstallerEvent => new UnityHubInstallerEvent(new AbortController());
+
+  let queue: InstallQueue;
+  let running: UnityHubInstallerEvent;
+
+  beforeEach(() => {
+    queue = new InstallQueue();
+    // Keeps the queue busy, so the next requests wait and can be merged
+    running = queue.enqueue(addModules(["ios"]), {}, createEmitter, () => undefined);
+  });
+
+  afterEach(() => {
+    running.Exit(0);
+  });
+
+  const enqueue = (
+    modules: string[],
+    options: { signal?: AbortSignal; runner?: ScriptedCommandRunner } = {}
+  ): UnityHubInstallerEvent =>
+    queue.enqueue({ ...addModules(modules), version: "6000.0.40f1" }, options, createEmitter, () => undefined);
+
+  it("cancels a merged job only once every caller aborted", async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const emitter = enqueue(["android"], { signal: first.signal });
+    expect(enqueue(["webgl"], { signal: second.signal })).toBe(emitter);
+
+    first.abort();
+    expect(emitter.signal?.aborted).toBe(false);
+
+    second.abort();
+    expect(emitter.signal?.aborted).toBe(true);
+    await expect(emitter.completed).rejects.toThrow("cancelled");
+  });
+
+  it("keeps a merged job for callers without a signal", () => {
+    const controller = new AbortController();
+
+    const emitter = enqueue(["android"], { signal: controller.signal });
+    enqueue(["webgl"]);
+    controller.abort();
+
+    expect(emitter.signal?.aborted).toBe(false);
+    expect(queue.list().at(-1)?.modules).toEqual(["android", "webgl"]);
+  });
+
+  it("does not merge requests run with different runners", () => {
+    const emitter = enqueue(["android"], { runner: new ScriptedCommandRunner() });
+
+    expect(enqueue(["webgl"], { runner: new ScriptedCommandRunner() })).not.toBe(emitter);
+    expect(queue.list()).toHaveLength(3);
+  });
+});
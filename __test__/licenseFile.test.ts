@@ -0,0 +1,145 @@
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import fs from "fs-extra";
+import { LogFields, Logger, UnityLicenseType } from "../src/types/unity.js";
+import { UnityLicenseFile } from "../src/utils/licenseFile.js";
+
+const fixture = fileURLToPath(new URL("./fixtures/Unity_lic.ulf", import.meta.url));
+
+const license = (entitlements: string, dates = ""): string =>
+  `<root><License id="Terms">${dates}<Entitlements>${entitlements}</Entitlements></License></root>`;
+
+describe("UnityLicenseFile.parse", () => {
+  it("reads the fields of a license file", async () => {
+    const contents = UnityLicenseFile.parse(await fs.readFile(fixture, "utf8"));
+
+    expect(contents).toEqual({
+      type: UnityLicenseType.Pro,
+      serialMask: "F4-ABCD-EFGH-IJKL-MNOP-XXXX",
+      issuedAt: new Date("2024-01-15T00:00:00Z"),
+      activatedAt: new Date("2024-01-15T09:12:05Z"),
+      updatedAt: new Date("2025-03-02T10:21:43Z"),
+      expiresAt: undefined,
+      alwaysOnline: false,
+      clientVersion: "2022.3.60f1",
+      machineBinding: {
+        machineId: "D7nTUnjNAmtsUMcnoyrqkgIbYdM=",
+        bindings: { "1": "576562626572", "2": "C02ABCDEFGHIJ" },
+      },
+      entitlements: [
+        { namespace: "unity_editor", tag: "UnityPro", type: "EDITOR", validTo: new Date("9999-12-31T00:00:00Z") },
+        { namespace: "unity_editor", tag: "DarkSkin", type: "EDITOR_FEATURE", validTo: undefined },
+      ],
+    });
+  });
+
+  it("never reads the serial number", async () => {
+    const contents = UnityLicenseFile.parse(await fs.readFile(fixture, "utf8"));
+
+    expect(JSON.stringify(contents)).not.toMatch(/DeveloperData|SerialHash|AQAAAEY0/);
+  });
+
+  it("rejects a document that is not a license", () => {
+    expect(() => UnityLicenseFile.parse("<root><Other /></root>")).toThrow(/<License>/);
+  });
+
+  it.each([
+    ["UnityPersonal", UnityLicenseType.Personal],
+    ["UnityPlus", UnityLicenseType.Plus],
+    ["UnityPro", UnityLicenseType.Pro],
+    ["UnityEnterprise", UnityLicenseType.Enterprise],
+    ["UnityIndustry", UnityLicenseType.Enterprise],
+    ["UnityStudent", UnityLicenseType.Student],
+    ["UnityEducation", UnityLicenseType.Educational],
+    ["UnityNew", UnityLicenseType.Unknown],
+  ])("maps the editor entitlement %s to the license type %s", (tag, type) => {
+    const contents = UnityLicenseFile.parse(
+      license(`<Entitlement Ns="unity_editor" Tag="DarkSkin" Type="EDITOR_FEATURE" />
+        <Entitlement Ns="unity_editor" Tag="${tag}" Type="EDITOR" />`)
+    );
+
+    expect(contents.type).toBe(type);
+  });
+
+  it("ignores entitlements that are not editors when mapping the license type", () => {
+    const contents = UnityLicenseFile.parse(license('<Entitlement Tag="UnityPro" Type="EDITOR_FEATURE" />'));
+
+    expect(contents.type).toBe(UnityLicenseType.Unknown);
+  });
+});
+
+describe("UnityLicenseFile.isValid", () => {
+  const now = new Date("2025-06-01T00:00:00Z");
+
+  it.each([
+    ["a started license without an end date", "", '<Entitlement Tag="UnityPro" Type="EDITOR" />', true],
+    ["a license without editor entitlements", "", '<Entitlement Tag="DarkSkin" Type="EDITOR_FEATURE" />', true],
+    ["a license that has not started", '<StartDate Value="2025-07-01T00:00:00" />', "", false],
+    ["a stopped license", '<StopDate Value="2025-06-01T00:00:00" />', "", false],
+    [
+      "a license whose editor entitlements expired",
+      "",
+      '<Entitlement Tag="UnityPro" Type="EDITOR" ValidTo="2025-05-31T23:59:59" />',
+      false,
+    ],
+    [
+      "a license with one editor entitlement left",
+      "",
+      `<Entitlement Tag="UnityPro" Type="EDITOR" ValidTo="2025-05-31T23:59:59" />
+        <Entitlement Tag="UnityPersonal" Type="EDITOR" ValidTo="2026-01-01T00:00:00" />`,
+      true,
+    ],
+  ])("checks %s", (_, dates, entitlements, valid) => {
+    expect(UnityLicenseFile.isValid(UnityLicenseFile.parse(license(entitlements, dates)), now)).toBe(valid);
+  });
+});
+
+describe("UnityLicenseFile.readStatus", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-license-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("skips and logs an unreadable cache file and keeps the license file", async () => {
+    const entitlementsDir = path.join(dir, "licenses");
+    await fs.outputFile(path.join(entitlementsDir, "a.xml"), "<root><License><Entitl");
+    await fs.outputFile(
+      path.join(entitlementsDir, "b.xml"),
+      license('<Entitlement Ns="unity_editor" Tag="UnityPlus" Type="EDITOR" />')
+    );
+    const warnings: [string, LogFields | undefined][] = [];
+    const logger: Logger = {
+      debug: () => undefined,
+      info: () => undefined,
+      warn: (message, fields) => warnings.push([message, fields]),
+      error: () => undefined,
+    };
+
+    const status = await UnityLicenseFile.readStatus(fixture, entitlementsDir, logger);
+
+    expect(status.licensed).toBe(true);
+    expect(status.licenseFile).toBe(fixture);
+    expect(status.serialMask).toBe("F4-ABCD-EFGH-IJKL-MNOP-XXXX");
+    expect(status.entitlementFiles).toEqual([path.join(entitlementsDir, "b.xml")]);
+    expect(status.entitlements.map((entitlement) => entitlement.tag)).toEqual(["UnityPro", "DarkSkin", "UnityPlus"]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0][1]?.file).toBe(path.join(entitlementsDir, "a.xml"));
+  });
+
+  it("is unlicensed when there is no license file or cache", async () => {
+    const status = await UnityLicenseFile.readStatus(path.join(dir, "Unity_lic.ulf"), path.join(dir, "licenses"));
+
+    expect(status).toMatchObject({
+      licensed: false,
+      type: UnityLicenseType.Unknown,
+      licenseFile: undefined,
+      entitlementFiles: [],
+    });
+  });
+});
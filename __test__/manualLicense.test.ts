@@ -0,0 +1,30 @@
+import UnityEditor from "../src/unityEditor.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityEditor.activateManualLicense", () => {
+  const projectInfo = { projectName: "Game", projectPath: "/projects/game", editorVersion: "2022.3.60f1" };
+  const license = '<root><License id="Terms"></License></root>';
+
+  beforeEach(() => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+  });
+
+  it.each([
+    [
+      "a success message, whatever the exit code",
+      "[Licensing::Client] Successfully processed license management request",
+      1,
+      true,
+    ],
+    ["a clean exit without failure", "Exiting batchmode successfully now!", 0, true],
+    ["an unrecognized output with an error exit code", "Aborting batchmode due to failure", 1, false],
+    ["a failure message", "Invalid license file", 0, false],
+  ])("decides the activation from %s", async (_, stdout, exitCode, activated) => {
+    const runner = new ScriptedCommandRunner([{ args: ["-manualLicenseFile"], stdout, exitCode }]);
+
+    const result = await UnityEditor.activateManualLicense(projectInfo, license, { runner });
+
+    expect(result.success).toBe(activated);
+  });
+});
@@ -0,0 +1,79 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { CommandFixture, CommandRunner } from "../src/types/unity.js";
+import { RecordingCommandRunner } from "../src/utils/recordingCommandRunner.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("RecordingCommandRunner", () => {
+  let directory: string;
+
+  const readFixture = async (): Promise<CommandFixture> => {
+    const [file] = await fs.readdir(directory);
+    return fs.readJson(path.join(directory, file)) as Promise<CommandFixture>;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it("records the streamed output chunk by chunk", async () => {
+    const recorder = new RecordingCommandRunner({
+      directory,
+      runner: new ScriptedCommandRunner([
+        {
+          chunks: [
+            { stream: "stdout", data: "2022.3.60f1 , " },
+            { stream: "stdout", data: "installed at /opt/unity/2022.3.60f1/Editor/Unity\n" },
+          ],
+        },
+      ]),
+    });
+
+    const output = await recorder.run("unityhub", ["editors", "-i"], {});
+
+    expect(output).toEqual({
+      stdout: "2022.3.60f1 , installed at /opt/unity/2022.3.60f1/Editor/Unity\n",
+      stderr: "",
+      exitCode: 0,
+    });
+    expect((await readFixture()).chunks.map((chunk) => chunk.data)).toEqual([
+      "2022.3.60f1 , ",
+      "installed at /opt/unity/2022.3.60f1/Editor/Unity\n",
+    ]);
+  });
+
+  it("records the output of a runner that does not stream it as one chunk", async () => {
+    const runner: CommandRunner = {
+      run: async () => Promise.resolve({ stdout: "2022.3.60f1 , installed at /opt/unity\n", stderr: "", exitCode: 0 }),
+    };
+    const recorder = new RecordingCommandRunner({ directory, runner });
+
+    const output = await recorder.run("unityhub", ["editors", "-i"], {});
+
+    expect(output).toEqual({ stdout: "2022.3.60f1 , installed at /opt/unity\n", stderr: "", exitCode: 0 });
+    expect((await readFixture()).chunks).toEqual([
+      { stream: "stdout", data: "2022.3.60f1 , installed at /opt/unity\n", offsetMs: expect.any(Number) },
+    ]);
+  });
+
+  it("records the output carried by the error of a failed command", async () => {
+    const runner: CommandRunner = {
+      run: async () =>
+        Promise.reject(Object.assign(new Error("Command failed"), { stdout: "", stderr: "No editor\n", exitCode: 1 })),
+    };
+    const recorder = new RecordingCommandRunner({ directory, runner });
+
+    await expect(recorder.run("unityhub", ["editors", "-i"], { reject: true })).rejects.toThrow("Command failed");
+
+    expect(await readFixture()).toMatchObject({
+      chunks: [{ stream: "stderr", data: "No editor\n" }],
+      exitCode: 1,
+      error: "Error: Command failed",
+    });
+  });
+});
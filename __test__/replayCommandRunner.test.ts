@@ -0,0 +1,74 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityEditor from "../src/unityEditor.js";
+import { RecordingCommandRunner } from "../src/utils/recordingCommandRunner.js";
+import { ReplayCommandRunner } from "../src/utils/replayCommandRunner.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("ReplayCommandRunner", () => {
+  const projectInfo = { projectName: "Game", projectPath: "/projects/game", editorVersion: "2022.3.60f1" };
+  let directory: string;
+
+  beforeEach(async () => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it("replays a recorded executeMethod session without Unity", async () => {
+    const recorder = new RecordingCommandRunner({
+      directory,
+      runner: new ScriptedCommandRunner([
+        {
+          executable: /Unity(\.exe)?$/,
+          args: ["-executeMethod"],
+          chunks: [
+            { stream: "stdout", data: "Loading project\n" },
+            { stream: "stdout", data: "Build succeeded\n", delayMs: 20 },
+          ],
+        },
+      ]),
+    });
+    const recorded = await UnityEditor.executeMethod(projectInfo, "Build.Perform", ["-password", "s3cret"], {
+      runner: recorder,
+    });
+    expect(recorded.success).toBe(true);
+
+    const fixtures = (await fs.readdir(directory)).filter((file) => file.endsWith("-Unity-Build.Perform.json"));
+    expect(fixtures).toHaveLength(1);
+    expect(await fs.readFile(path.join(directory, fixtures[0]), "utf8")).not.toContain("s3cret");
+
+    const runner = await ReplayCommandRunner.fromDirectory(directory, { timing: true });
+    const lines: string[] = [];
+    const replayed = await UnityEditor.executeMethod(projectInfo, "Build.Perform", ["-password", "s3cret"], {
+      runner,
+      onStdout: (line) => lines.push(line),
+    });
+
+    expect(replayed.success && replayed.value.stdout).toBe("Loading project\nBuild succeeded\n");
+    expect(lines).toEqual(["Loading project", "Build succeeded"]);
+  });
+
+  it("fails commands run with other arguments than recorded", async () => {
+    const runner = new ReplayCommandRunner([
+      {
+        formatVersion: 1,
+        executable: "/opt/unity/editor/2022.3.60f1/Editor/Unity",
+        args: ["-projectPath", "/projects/game", "-executeMethod", "Build.Perform"],
+        chunks: [{ stream: "stdout", data: "Build succeeded\n", offsetMs: 10 }],
+        exitCode: 0,
+        durationMs: 20,
+        recordedAt: "2025-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    const result = await UnityEditor.executeMethod(projectInfo, "Build.Other", [], { runner });
+
+    expect(result.success).toBe(false);
+  });
+});
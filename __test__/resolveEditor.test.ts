@@ -0,0 +1,58 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityEditor from "../src/unityEditor.js";
+import { UnityEditorSource } from "../src/types/unity.js";
+
+describe("UnityEditor.resolveEditor", () => {
+  let folder: string;
+
+  const writeEditor = async (version: string): Promise<string> => {
+    const executablePath = path.join(folder, version, "Editor", "Unity");
+    await fs.outputFile(executablePath, "");
+    return executablePath;
+  };
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "unity-editors-"));
+    UnityEditor.clearEditorCache();
+  });
+
+  afterEach(async () => {
+    delete process.env.UNITY_EDITOR_PATH;
+    await fs.remove(folder);
+  });
+
+  it("uses an executable set in UNITY_EDITOR_PATH for its own version", async () => {
+    process.env.UNITY_EDITOR_PATH = await writeEditor("2022.3.60f1");
+
+    const result = await UnityEditor.resolveEditor({ version: "2022.3.60f1" });
+
+    expect(result.success && result.value).toEqual({
+      version: "2022.3.60f1",
+      path: process.env.UNITY_EDITOR_PATH,
+      source: UnityEditorSource.Environment,
+    });
+  });
+
+  it("skips an executable set in UNITY_EDITOR_PATH for another version", async () => {
+    process.env.UNITY_EDITOR_PATH = await writeEditor("2022.3.60f1");
+
+    const result = await UnityEditor.resolveEditor({ version: "2021.3.1f1" });
+
+    expect(result.success && result.value.path).not.toBe(process.env.UNITY_EDITOR_PATH);
+  });
+
+  it("resolves a range again once a newer matching editor is installed", async () => {
+    process.env.UNITY_EDITOR_PATH = folder;
+    await writeEditor("2022.3.10f1");
+
+    const first = await UnityEditor.resolveEditor({ version: "2022.3.x" });
+    expect(first.success && first.value.version).toBe("2022.3.10f1");
+
+    await writeEditor("2022.3.20f1");
+
+    const second = await UnityEditor.resolveEditor({ version: "2022.3.x" });
+    expect(second.success && second.value.version).toBe("2022.3.20f1");
+  });
+});
@@ -0,0 +1,102 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityEditor from "../src/unityEditor.js";
+import { UnityProjectError } from "../src/errors/index.js";
+
+describe("UnityEditor.resolveProject", () => {
+  let projectPath: string;
+
+  const writeSettings = async (projectVersion: string, productName?: string): Promise<void> => {
+    await fs.outputFile(path.join(projectPath, "ProjectSettings", "ProjectVersion.txt"), projectVersion);
+
+    if (productName !== undefined) {
+      await fs.outputFile(
+        path.join(projectPath, "ProjectSettings", "ProjectSettings.asset"),
+        `%YAML 1.1\n%TAG !u! tag:unity3d.com,2011:\n--- !u!129 &1\nPlayerSettings:\n  companyName: Studio\n  productName: ${productName}\n  defaultScreenWidth: 1024\n`
+      );
+    }
+  };
+
+  beforeEach(async () => {
+    projectPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "unity-project-")), "Game");
+    await fs.ensureDir(projectPath);
+  });
+
+  afterEach(async () => {
+    await fs.remove(path.dirname(projectPath));
+  });
+
+  it("reads the editor version and changeset of the project", async () => {
+    await writeSettings(
+      "m_EditorVersion: 2022.3.60f1\r\nm_EditorVersionWithRevision: 2022.3.60f1 (5f63fdee6d95)\r\n",
+      "Space Shooter"
+    );
+
+    const result = await UnityEditor.resolveProject(projectPath);
+
+    expect(result.success && result.value).toEqual({
+      projectName: "Space Shooter",
+      projectPath,
+      editorVersion: "2022.3.60f1",
+      changeset: "5f63fdee6d95",
+    });
+  });
+
+  it("reads the editor version of a project without a revision", async () => {
+    await writeSettings("m_EditorVersion: 2019.4.40f1\n", "Space Shooter");
+
+    const result = await UnityEditor.resolveProject(projectPath);
+
+    expect(result.success && result.value).toEqual({
+      projectName: "Space Shooter",
+      projectPath,
+      editorVersion: "2019.4.40f1",
+    });
+  });
+
+  it.each([
+    ['"Space Shooter: Remastered"', "Space Shooter: Remastered"],
+    ["'Space Shooter'", "Space Shooter"],
+  ])("unquotes the product name %s", async (productName, projectName) => {
+    await writeSettings("m_EditorVersion: 2022.3.60f1\n", productName);
+
+    const result = await UnityEditor.resolveProject(projectPath);
+
+    expect(result.success && result.value.projectName).toBe(projectName);
+  });
+
+  it.each([
+    ["without a settings asset", undefined],
+    ["with an empty product name", ""],
+  ])("names a project %s after its folder", async (_, productName) => {
+    await writeSettings("m_EditorVersion: 2022.3.60f1\n", productName);
+
+    const result = await UnityEditor.resolveProject(projectPath);
+
+    expect(result.success && result.value.projectName).toBe("Game");
+  });
+
+  it("resolves a relative path", async () => {
+    await writeSettings("m_EditorVersion: 2022.3.60f1\n");
+
+    const result = await UnityEditor.resolveProject(path.relative(process.cwd(), projectPath));
+
+    expect(result.success && result.value.projectPath).toBe(projectPath);
+  });
+
+  it.each([
+    ["a folder without project settings", async (): Promise<void> => undefined],
+    [
+      "a project version without an editor version",
+      (): Promise<void> => writeSettings("m_EditorVersionWithRevision:\n"),
+    ],
+    ["a missing folder", (): Promise<void> => fs.remove(projectPath)],
+  ])("fails for %s", async (_, setUp) => {
+    await setUp();
+
+    const result = await UnityEditor.resolveProject(projectPath);
+
+    expect(!result.success && result.error).toBeInstanceOf(UnityProjectError);
+  });
+});
@@ -0,0 +1,32 @@
+import { UnityCommandError } from "../src/errors/index.js";
+import { RetryAttempt } from "../src/types/unity.js";
+import { executeCommand } from "../src/utils/commandExecutor.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("executeCommand retries", () => {
+  const retry = { maxAttempts: 3, initialDelayMs: 1, retryable: (): boolean => true };
+
+  it("returns the last non-zero exit as an error recording every attempt", async () => {
+    const runner = new ScriptedCommandRunner([{ stdout: "Licensing server unavailable\n", exitCode: 75 }]);
+
+    const result = await executeCommand("/opt/unity/Unity", ["-batchmode"], { reject: false, retry, runner });
+
+    expect(result.success).toBe(false);
+    const error = !result.success ? result.error : undefined;
+    expect(error).toBeInstanceOf(UnityCommandError);
+    expect((error as UnityCommandError).exitCode).toBe(75);
+    expect((error?.context?.attempts as RetryAttempt[]).map((attempt) => attempt.attempt)).toEqual([1, 2, 3]);
+    expect(runner.calls).toHaveLength(3);
+  });
+
+  it("returns the output of an attempt that succeeds after failures", async () => {
+    const runner = new ScriptedCommandRunner([
+      { stdout: "Licensing server unavailable\n", exitCode: 75, times: 1 },
+      { stdout: "Done\n" },
+    ]);
+
+    const result = await executeCommand("/opt/unity/Unity", ["-batchmode"], { reject: false, retry, runner });
+
+    expect(result.success && result.value).toEqual({ stdout: "Done\n", stderr: "", exitCode: 0 });
+  });
+});
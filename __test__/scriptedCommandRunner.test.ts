@@ -0,0 +1,45 @@
+import UnityEditor from "../src/unityEditor.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("ScriptedCommandRunner", () => {
+  const projectInfo = { projectName: "Game", projectPath: "/projects/game", editorVersion: "2022.3.60f1" };
+
+  beforeEach(() => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+  });
+
+  it("stands in for an editor that is not installed", async () => {
+    const runner = new ScriptedCommandRunner([
+      { executable: /Unity(\.exe)?$/, args: ["-executeMethod", "Build.Perform"], stdout: "Build succeeded\n" },
+    ]);
+
+    const result = await UnityEditor.executeMethod(projectInfo, "Build.Perform", [], { runner });
+
+    expect(result.success && result.value.stdout).toBe("Build succeeded\n");
+    expect(runner.calls.at(-1)?.args).toEqual(["-projectPath", "/projects/game", "-executeMethod", "Build.Perform"]);
+  });
+
+  it("streams the scripted chunks line by line", async () => {
+    const lines: string[] = [];
+    const runner = new ScriptedCommandRunner([
+      {
+        executable: /Unity(\.exe)?$/,
+        chunks: [
+          { stream: "stdout", data: "Compiling\n" },
+          { stream: "stderr", data: "Assets/Foo.cs(1,1): error CS1002: ; expected\n", delayMs: 5 },
+        ],
+        exitCode: 1,
+      },
+    ]);
+
+    const result = await UnityEditor.executeMethod(projectInfo, "Build.Perform", [], {
+      runner,
+      onStdout: (line) => lines.push(line),
+      onStderr: (line) => lines.push(line),
+    });
+
+    expect(result.success).toBe(false);
+    expect(lines).toEqual(["Compiling", "Assets/Foo.cs(1,1): error CS1002: ; expected"]);
+  });
+});
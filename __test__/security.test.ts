@@ -0,0 +1,31 @@
+import { REDACTED, getSensitiveArgValues, redactSensitiveArgs, redactText } from "../src/utils/security.js";
+
+describe("redactSensitiveArgs", () => {
+  it("redacts the value of a sensitive flag even when it starts with a dash", () => {
+    expect(redactSensitiveArgs(["-batchmode", "-password", "-s3cret", "-quit"])).toEqual([
+      "-batchmode",
+      "-password",
+      REDACTED,
+      "-quit",
+    ]);
+  });
+
+  it("keeps a known flag following a sensitive flag", () => {
+    expect(redactSensitiveArgs(["-username", "-password", "s3cret"])).toEqual(["-username", "-password", REDACTED]);
+    expect(redactSensitiveArgs(["-serial", "-batchmode"])).toEqual(["-serial", "-batchmode"]);
+  });
+
+  it("returns dash-prefixed values so they are removed from the output", () => {
+    expect(getSensitiveArgValues(["-password", "-s3cret"])).toEqual(["-s3cret"]);
+  });
+});
+
+describe("redactText", () => {
+  it("redacts a dash-prefixed value after a sensitive flag", () => {
+    expect(redactText("Unity -password -s3cret -quit")).toBe(`Unity -password ${REDACTED} -quit`);
+  });
+
+  it("keeps a known flag after a sensitive flag", () => {
+    expect(redactText("Unity -username -password s3cret")).toBe(`Unity -username -password ${REDACTED}`);
+  });
+});
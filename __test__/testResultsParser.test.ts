@@ -0,0 +1,95 @@
+import { fileURLToPath } from "url";
+import fs from "fs-extra";
+import { TestResultStatus } from "../src/types/unity.js";
+import { UnityTestResultsParser } from "../src/utils/testResultsParser.js";
+
+const fixture = fileURLToPath(new URL("./fixtures/TestResults.xml", import.meta.url));
+
+describe("UnityTestResultsParser", () => {
+  it("reads the totals and timing of the run", async () => {
+    const report = await UnityTestResultsParser.parseFile(fixture);
+
+    expect(report).toMatchObject({
+      result: TestResultStatus.Failed,
+      total: 6,
+      passed: 4,
+      failed: 1,
+      skipped: 1,
+      inconclusive: 0,
+      duration: 1735,
+      startTime: "2025-03-02 10:21:43Z",
+      endTime: "2025-03-02 10:21:45Z",
+      resultsPath: fixture,
+    });
+  });
+
+  it("groups the test cases by fixture, whatever the nesting of suites", async () => {
+    const report = UnityTestResultsParser.parse(await fs.readFile(fixture, "utf8"));
+
+    expect(
+      report.fixtures.map((suite) => [
+        suite.fullName,
+        suite.result,
+        suite.duration,
+        suite.testCases.map((testCase) => testCase.fullName),
+      ])
+    ).toEqual([
+      [
+        "Game.PlayerTests",
+        TestResultStatus.Failed,
+        412,
+        ["Game.PlayerTests.Jumps", "Game.PlayerTests.TakesDamage", "Game.PlayerTests.Respawns"],
+      ],
+      [
+        "Game.WeaponTests",
+        TestResultStatus.Passed,
+        801,
+        ['Game.WeaponTests("Sword").Hits', 'Game.WeaponTests("Bow").Hits'],
+      ],
+      ["Game.PoolTests<T>", TestResultStatus.Passed, 50, ["Game.PoolTests<Int32>.Reuses"]],
+    ]);
+  });
+
+  it("reads the failure, skip reason and output of the test cases", async () => {
+    const report = UnityTestResultsParser.parse(await fs.readFile(fixture, "utf8"));
+    const [jumps, takesDamage, respawns] = report.fixtures[0].testCases;
+
+    expect(jumps).toMatchObject({
+      result: TestResultStatus.Passed,
+      duration: 12,
+      output: "Player landed at (0, 1, 0)",
+    });
+    expect(takesDamage).toEqual({
+      name: "TakesDamage",
+      fullName: "Game.PlayerTests.TakesDamage",
+      className: "Game.PlayerTests",
+      result: TestResultStatus.Failed,
+      label: "Error",
+      duration: 346,
+      message: "Expected: 90\n  But was:  100",
+      stackTrace: "at Game.PlayerTests.TakesDamage () [0x00012] in /projects/game/Assets/Tests/PlayerTests.cs:24",
+      output: undefined,
+    });
+    expect(respawns).toMatchObject({
+      result: TestResultStatus.Skipped,
+      label: "Ignored",
+      message: "Respawn is not implemented",
+      stackTrace: undefined,
+    });
+    expect(report.failedTests).toEqual([takesDamage]);
+  });
+
+  it("counts the test cases when the run has no totals", () => {
+    const report = UnityTestResultsParser.parse(
+      `<test-run result="Passed"><test-suite type="TestFixture" name="A">
+        <test-case name="One" result="Passed" /><test-case name="Two" result="Skipped" />
+      </test-suite></test-run>`
+    );
+
+    expect(report).toMatchObject({ total: 2, passed: 1, failed: 0, skipped: 1, duration: 0 });
+  });
+
+  it("rejects a document that is not a test run", () => {
+    expect(() => UnityTestResultsParser.parse("<test-suite />")).toThrow(/<test-run>/);
+  });
+});
@@ -0,0 +1,50 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityEditor from "../src/unityEditor.js";
+import { UnityBuildTarget } from "../src/types/unity.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityEditor.build", () => {
+  let projectPath: string;
+  let toolsDir: string;
+
+  beforeEach(async () => {
+    delete process.env.UNITY_EDITOR_PATH;
+    UnityEditor.clearEditorCache();
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "unity-build-test-"));
+    toolsDir = path.join(projectPath, "Assets", "__UnityCliTools");
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  const build = (): ReturnType<typeof UnityEditor.build> =>
+    UnityEditor.build(
+      { projectName: "Game", projectPath, editorVersion: "2022.3.60f1" },
+      {
+        target: UnityBuildTarget.StandaloneLinux64,
+        outputPath: path.join(projectPath, "Builds", "Game"),
+        runner: new ScriptedCommandRunner([{ args: ["-executeMethod"], exitCode: 1 }]),
+      }
+    );
+
+  it("removes the entry point it copied into the project", async () => {
+    const result = await build();
+
+    expect(result.success).toBe(false);
+    expect(await fs.pathExists(toolsDir)).toBe(false);
+  });
+
+  it("keeps files the project already had in the entry point folder", async () => {
+    await fs.outputFile(path.join(toolsDir, "Notes.txt"), "kept");
+    await fs.outputFile(`${toolsDir}.meta`, "kept");
+
+    await build();
+
+    expect(await fs.readFile(path.join(toolsDir, "Notes.txt"), "utf8")).toBe("kept");
+    expect(await fs.readFile(`${toolsDir}.meta`, "utf8")).toBe("kept");
+    expect(await fs.pathExists(path.join(toolsDir, "Editor"))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { UnityCancelledError } from "../src/errors/index.js";
+import { EditorArchitecture } from "../src/types/unity.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityHub installed editors", () => {
+  let home: string;
+  let UnityHub: typeof import("../src/unityHub.js").default;
+
+  const homedir = os.homedir;
+  const arch = os.arch;
+
+  /**
+   * Writes an editor executable with the ELF header of the given machine type
+   */
+  const writeEditor = async (folder: string, machine: number): Promise<void> => {
+    const header = Buffer.alloc(64);
+    header.write("\x7fELF", 0, "latin1");
+    header.writeUInt16LE(machine, 18);
+    await fs.outputFile(path.join(home, "Unity", "Hub", "Editor", folder, "Editor", "Unity"), header);
+  };
+
+  beforeAll(async () => {
+    // The Unity Hub folders are looked up in the home folder when the module loads
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-home-"));
+    os.homedir = (): string => home;
+    os.arch = (): string => "x64";
+    UnityHub = (await import("../src/unityHub.js")).default;
+  });
+
+  afterAll(async () => {
+    os.homedir = homedir;
+    os.arch = arch;
+    await fs.remove(home);
+  });
+
+  it("asks Unity Hub through the runner given to ensureEditor when no editor is found on disk", async () => {
+    const editorPath = path.join(home, "custom", "2022.3.60f1", "Editor", "Unity");
+    const runner = new ScriptedCommandRunner([
+      { args: ["editors", "-i"], stdout: `2022.3.60f1 , installed at ${editorPath}\n` },
+    ]);
+
+    const result = await UnityHub.ensureEditor("2022.3.60f1", [], undefined, { runner });
+
+    expect(result.success && result.value).toMatchObject({ path: editorPath, installedEditor: false });
+    expect(runner.calls.length).toBeGreaterThan(0);
+    expect(runner.calls.every((call) => call.args.includes("editors") && call.args.includes("-i"))).toBe(true);
+  });
+
+  it("cancels the Unity Hub listing of ensureEditor", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await UnityHub.ensureEditor("2022.3.60f1", [], undefined, {
+      runner: new ScriptedCommandRunner(),
+      signal: controller.signal,
+    });
+
+    expect(!result.success && result.error).toBeInstanceOf(UnityCancelledError);
+  });
+
+  it("keeps both architectures of a version", async () => {
+    await writeEditor("2022.3.60f1-arm64", 183);
+    await writeEditor("2022.3.60f1", 62);
+
+    const result = await UnityHub.getInstalledEditors();
+
+    expect(result.success && result.value["2022.3.60f1"].architecture).toBe(EditorArchitecture.x86_64);
+    expect(result.success && result.value["2022.3.60f1-arm64"]).toMatchObject({
+      version: "2022.3.60f1",
+      architecture: EditorArchitecture.arm64,
+      path: path.join(home, "Unity", "Hub", "Editor", "2022.3.60f1-arm64", "Editor", "Unity"),
+    });
+
+    const installations = await UnityHub.getUnityInstallations("i");
+    expect(installations.success && Object.keys(installations.value).sort()).toEqual([
+      "2022.3.60f1",
+      "2022.3.60f1-arm64",
+    ]);
+  });
+});
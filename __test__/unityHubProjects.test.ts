@@ -0,0 +1,54 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+
+describe("UnityHub projects list", () => {
+  let home: string;
+  let UnityHub: typeof import("../src/unityHub.js").default;
+
+  const createProject = async (name: string): Promise<string> => {
+    const projectPath = path.join(home, "projects", name);
+    await fs.outputFile(
+      path.join(projectPath, "ProjectSettings", "ProjectVersion.txt"),
+      "m_EditorVersion: 2022.3.60f1\nm_EditorVersionWithRevision: 2022.3.60f1 (5f63fdee6d95)\n"
+    );
+    return projectPath;
+  };
+
+  const homedir = os.homedir;
+
+  beforeAll(async () => {
+    // The Unity Hub configuration is looked up in the home folder when the module loads. The environment of the test
+    // is a copy, so the home folder is replaced through os.homedir rather than HOME.
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-home-"));
+    os.homedir = (): string => home;
+    UnityHub = (await import("../src/unityHub.js")).default;
+  });
+
+  afterAll(async () => {
+    os.homedir = homedir;
+    await fs.remove(home);
+  });
+
+  it("applies changes made at the same time one after the other", async () => {
+    const projectPaths = await Promise.all(["A", "B", "C", "D"].map(createProject));
+
+    const added = await Promise.all(projectPaths.map((projectPath) => UnityHub.addProject(projectPath)));
+    const favorites = await Promise.all(
+      projectPaths.slice(0, 2).map((projectPath) => UnityHub.setFavorite(projectPath, true))
+    );
+
+    expect([...added, ...favorites].every((result) => result.success)).toBe(true);
+
+    const records = await UnityHub.getProjectRecords();
+    expect(records.success && records.value.map((project) => [project.title, project.isFavorite])).toEqual([
+      ["A", true],
+      ["B", true],
+      ["C", false],
+      ["D", false],
+    ]);
+
+    const files = await fs.readdir(home, { recursive: true });
+    expect(files.filter((file) => String(file).endsWith(".tmp"))).toEqual([]);
+  });
+});
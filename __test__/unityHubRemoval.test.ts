@@ -0,0 +1,53 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { spawn, ChildProcess } from "child_process";
+import { UnityInstallationError } from "../src/errors/index.js";
+import { UnityModules } from "../src/types/unity.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityHub editor removal", () => {
+  let home: string;
+  let UnityHub: typeof import("../src/unityHub.js").default;
+  let editor: ChildProcess | undefined;
+
+  const homedir = os.homedir;
+
+  beforeAll(async () => {
+    // The Unity Hub folders are looked up in the home folder when the module loads
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-home-"));
+    os.homedir = (): string => home;
+    UnityHub = (await import("../src/unityHub.js")).default;
+  });
+
+  afterEach(() => {
+    editor?.kill();
+    editor = undefined;
+  });
+
+  afterAll(async () => {
+    os.homedir = homedir;
+    await fs.remove(home);
+  });
+
+  it("checks again that the editor is not running when the queued removal starts", async () => {
+    const folder = path.join(home, "Unity", "Hub", "Editor", "2022.3.60f1");
+    const executable = path.join(folder, "Editor", "Unity");
+    // Any long running executable stands in for the editor of a project opened while the removal waits
+    await fs.copy("/bin/sleep", executable);
+
+    const runner = new ScriptedCommandRunner([
+      { args: ["help"], stdout: "" },
+      { args: ["install-modules"], chunks: [{ stream: "stdout", data: "Installing\n", delayMs: 1000 }] },
+    ]);
+
+    const install = await UnityHub.addModule("6000.0.40f1", [UnityModules.AndroidBuildSupport], true, { runner });
+    const removal = await UnityHub.removeEditor("2022.3.60f1", { runner });
+    expect(install.success && removal.success).toBe(true);
+
+    editor = spawn(executable, ["30"], { stdio: "ignore" });
+
+    await expect(removal.success && removal.value.completed).rejects.toBeInstanceOf(UnityInstallationError);
+    expect(await fs.pathExists(executable)).toBe(true);
+  });
+});
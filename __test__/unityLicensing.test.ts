@@ -0,0 +1,142 @@
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityLicensing from "../src/unityLicensing.js";
+import { UnityLicenseError } from "../src/errors/index.js";
+import { UnityLicenseErrorReason } from "../src/types/unity.js";
+import { ScriptedCommandRunner } from "../src/utils/scriptedCommandRunner.js";
+
+describe("UnityLicensing", () => {
+  const projectInfo = { projectName: "Game", projectPath: "/projects/game", editorVersion: "2022.3.60f1" };
+  const licensingClientPath = "/opt/unity/Unity.Licensing.Client";
+
+  describe("checkLicensingServer", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let statusCode: number;
+
+    beforeAll(async () => {
+      server = http.createServer((request, response) => {
+        response.writeHead(request.url === "/v1/admin/status" ? statusCode : 404, {
+          "Content-Type": "application/json",
+        });
+        response.end(JSON.stringify({ serverStatus: "Healthy" }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("returns the status of the server", async () => {
+      statusCode = 200;
+
+      const result = await UnityLicensing.checkLicensingServer({ baseUrl });
+
+      expect(result.success && result.value).toEqual({
+        url: `${baseUrl}v1/admin/status`,
+        statusCode: 200,
+        details: { serverStatus: "Healthy" },
+      });
+    });
+
+    it("fails when the server answers with an error", async () => {
+      statusCode = 503;
+
+      const result = await UnityLicensing.checkLicensingServer({ baseUrl });
+
+      expect(!result.success && result.error).toBeInstanceOf(UnityLicenseError);
+      expect(!result.success && (result.error as UnityLicenseError).reason).toBe(
+        UnityLicenseErrorReason.ServerUnreachable
+      );
+    });
+
+    it("fails when the server cannot be reached", async () => {
+      const closed = http.createServer();
+      await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+      const { port } = closed.address() as AddressInfo;
+      await new Promise((resolve) => closed.close(resolve));
+
+      const result = await UnityLicensing.checkLicensingServer({ baseUrl: `http://127.0.0.1:${port}` });
+
+      expect(!result.success && (result.error as UnityLicenseError).reason).toBe(
+        UnityLicenseErrorReason.ServerUnreachable
+      );
+    });
+  });
+
+  describe("floating licenses", () => {
+    it("reads the token and expiry of a lease", async () => {
+      const runner = new ScriptedCommandRunner([
+        {
+          args: ["--acquire-floating"],
+          stdout: 'License lease acquired with token: "lease-0123456789" (expires 2025-01-01T12:00:00Z).\n',
+        },
+      ]);
+
+      const result = await UnityLicensing.acquireFloatingLicense(projectInfo, { licensingClientPath, runner });
+
+      expect(result.success && result.value.token).toBe("lease-0123456789");
+      expect(result.success && result.value.expiresAt?.toISOString()).toBe("2025-01-01T12:00:00.000Z");
+    });
+
+    it("tells when no seat is available", async () => {
+      const runner = new ScriptedCommandRunner([
+        { args: ["--acquire-floating"], stderr: "No available seats on the licensing server\n", exitCode: 1 },
+      ]);
+
+      const result = await UnityLicensing.acquireFloatingLicense(projectInfo, { licensingClientPath, runner });
+
+      expect(!result.success && (result.error as UnityLicenseError).reason).toBe(
+        UnityLicenseErrorReason.NoSeatsAvailable
+      );
+    });
+
+    it("returns a lease without exposing its token", async () => {
+      const lease = { token: "lease-0123456789", acquiredAt: new Date(), licensingClientPath };
+      const runner = new ScriptedCommandRunner([
+        {
+          args: ["--return-floating", "lease-0123456789"],
+          stderr: "Failed to return lease lease-0123456789\n",
+          times: 1,
+          exitCode: 1,
+        },
+        { args: ["--return-floating", "lease-0123456789"], stdout: "Lease returned\n" },
+      ]);
+
+      const failed = await UnityLicensing.releaseFloatingLicense(lease, { runner });
+      const released = await UnityLicensing.releaseFloatingLicense(lease, { runner });
+
+      expect(failed.success).toBe(false);
+      expect(!failed.success && JSON.stringify({ ...failed.error, message: failed.error.message })).not.toContain(
+        "lease-0123456789"
+      );
+      expect(released.success).toBe(true);
+    });
+  });
+
+  describe("writeServicesConfig", () => {
+    it("replaces the configuration without leaving temporary files", async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), "unity-cli-tools-config-"));
+      const configPath = path.join(directory, "services-config.json");
+      await fs.writeJson(configPath, { licensingServiceBaseUrl: "http://old.example.com" });
+
+      const result = await UnityLicensing.writeServicesConfig(
+        { licensingServiceBaseUrl: "http://licensing.example.com:8080", enableFloatingApi: true },
+        { configPath }
+      );
+
+      expect(result.success).toBe(true);
+      expect(await fs.readJson(configPath)).toEqual({
+        licensingServiceBaseUrl: "http://licensing.example.com:8080",
+        enableFloatingApi: true,
+      });
+      expect(await fs.readdir(directory)).toEqual(["services-config.json"]);
+      await fs.remove(directory);
+    });
+  });
+});
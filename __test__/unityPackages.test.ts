@@ -0,0 +1,216 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import UnityPackages from "../src/unityPackages.js";
+import { InvalidArgumentError, UnityPackageError } from "../src/errors/index.js";
+import { PackageSource } from "../src/types/unity.js";
+
+describe("UnityPackages", () => {
+  let projectPath: string;
+  let manifestPath: string;
+
+  const writeManifest = (content: string): Promise<void> => fs.outputFile(manifestPath, content);
+  const readManifest = (): Promise<string> => fs.readFile(manifestPath, "utf8");
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "unity-packages-"));
+    manifestPath = UnityPackages.getManifestPath(projectPath);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  describe("dependencies", () => {
+    beforeEach(async () => {
+      await writeManifest('{\n  "dependencies": {\n    "com.unity.test-framework": "1.1.33"\n  }\n}\n');
+    });
+
+    it("adds, updates and removes dependencies, keeping them sorted", async () => {
+      expect((await UnityPackages.addDependency(projectPath, "com.unity.inputsystem", "1.7.0")).success).toBe(true);
+      expect((await UnityPackages.addDependency(projectPath, "com.company.tools", "file:../tools")).success).toBe(true);
+      expect((await UnityPackages.updateDependency(projectPath, "com.unity.inputsystem", "1.8.0")).success).toBe(true);
+      expect((await UnityPackages.removeDependency(projectPath, "com.unity.test-framework")).success).toBe(true);
+
+      const manifest = await UnityPackages.readManifest(projectPath);
+      expect(manifest.success && Object.entries(manifest.value.dependencies)).toEqual([
+        ["com.company.tools", "file:../tools"],
+        ["com.unity.inputsystem", "1.8.0"],
+      ]);
+    });
+
+    it("rejects adding an existing dependency or changing a missing one without writing", async () => {
+      const before = await readManifest();
+
+      const added = await UnityPackages.addDependency(projectPath, "com.unity.test-framework", "1.4.0");
+      const updated = await UnityPackages.updateDependency(projectPath, "com.unity.missing", "1.0.0");
+      const removed = await UnityPackages.removeDependency(projectPath, "com.unity.missing");
+
+      for (const result of [added, updated, removed]) {
+        expect(!result.success && result.error).toBeInstanceOf(UnityPackageError);
+      }
+      expect(await readManifest()).toBe(before);
+    });
+
+    it("rejects invalid package names", async () => {
+      const result = await UnityPackages.addDependency(projectPath, "Com.Unity.Bad", "1.0.0");
+      expect(!result.success && result.error).toBeInstanceOf(InvalidArgumentError);
+    });
+  });
+
+  describe("invalid manifests", () => {
+    it.each(["null", "[]", '{ "dependencies": null }', "{ not json"])(
+      "returns an error for a manifest containing %s",
+      async (content) => {
+        await writeManifest(content);
+
+        const read = await UnityPackages.readManifest(projectPath);
+        const added = await UnityPackages.addDependency(projectPath, "com.unity.inputsystem", "1.7.0");
+
+        expect(!read.success && read.error).toBeInstanceOf(UnityPackageError);
+        expect(!added.success && added.error).toBeInstanceOf(UnityPackageError);
+        expect(await readManifest()).toBe(content);
+      }
+    );
+
+    it("returns an error when the manifest does not exist", async () => {
+      const result = await UnityPackages.addTestable(projectPath, "com.company.tools");
+      expect(!result.success && result.error).toBeInstanceOf(UnityPackageError);
+    });
+  });
+
+  describe("scoped registries", () => {
+    beforeEach(async () => {
+      await writeManifest('{\n  "dependencies": {}\n}\n');
+    });
+
+    it("merges the scopes of a registry already declared with the same URL", async () => {
+      const registry = { name: "OpenUPM", url: "https://package.openupm.com", scopes: ["com.cysharp"] };
+
+      await UnityPackages.addScopedRegistry(projectPath, registry);
+      await UnityPackages.addScopedRegistry(projectPath, { ...registry, scopes: ["com.cysharp", "jp.hadashikick"] });
+
+      const manifest = await UnityPackages.readManifest(projectPath);
+      expect(manifest.success && manifest.value.scopedRegistries).toEqual([
+        { name: "OpenUPM", url: "https://package.openupm.com", scopes: ["com.cysharp", "jp.hadashikick"] },
+      ]);
+    });
+
+    it("removes a registry by name or URL and drops the empty list", async () => {
+      await UnityPackages.addScopedRegistry(projectPath, { name: "A", url: "https://a.example", scopes: ["com.a"] });
+      await UnityPackages.addScopedRegistry(projectPath, { name: "B", url: "https://b.example", scopes: ["com.b"] });
+
+      expect((await UnityPackages.removeScopedRegistry(projectPath, "A")).success).toBe(true);
+      expect((await UnityPackages.removeScopedRegistry(projectPath, "https://b.example")).success).toBe(true);
+      expect((await UnityPackages.removeScopedRegistry(projectPath, "A")).success).toBe(false);
+
+      const manifest = await UnityPackages.readManifest(projectPath);
+      expect(manifest.success && "scopedRegistries" in manifest.value).toBe(false);
+    });
+
+    it("requires a name, a URL and a scope", async () => {
+      const result = await UnityPackages.addScopedRegistry(projectPath, { name: "A", url: "", scopes: [] });
+      expect(!result.success && result.error).toBeInstanceOf(InvalidArgumentError);
+    });
+  });
+
+  describe("testables", () => {
+    it("adds a package once and removes the list with its last package", async () => {
+      await writeManifest('{\n  "dependencies": {}\n}\n');
+
+      await UnityPackages.addTestable(projectPath, "com.company.tools");
+      await UnityPackages.addTestable(projectPath, "com.company.tools");
+      const added = await UnityPackages.readManifest(projectPath);
+      expect(added.success && added.value.testables).toEqual(["com.company.tools"]);
+
+      expect((await UnityPackages.removeTestable(projectPath, "com.company.tools")).success).toBe(true);
+      expect((await UnityPackages.removeTestable(projectPath, "com.company.tools")).success).toBe(false);
+      const removed = await UnityPackages.readManifest(projectPath);
+      expect(removed.success && "testables" in removed.value).toBe(false);
+    });
+  });
+
+  describe("formatting", () => {
+    it("keeps the indentation, line endings, missing final newline and unknown fields", async () => {
+      await writeManifest(
+        '{\r\n\t"dependencies": {\r\n\t\t"com.unity.ugui": "1.0.0"\r\n\t},\r\n\t"enableLockFile": true\r\n}'
+      );
+
+      await UnityPackages.addDependency(projectPath, "com.unity.inputsystem", "1.7.0");
+
+      expect(await readManifest()).toBe(
+        '{\r\n\t"dependencies": {\r\n\t\t"com.unity.inputsystem": "1.7.0",\r\n\t\t"com.unity.ugui": "1.0.0"\r\n\t},\r\n\t"enableLockFile": true\r\n}'
+      );
+    });
+
+    it("keeps a four space indentation and the final newline", async () => {
+      await writeManifest('{\n    "dependencies": {}\n}\n');
+
+      await UnityPackages.addDependency(projectPath, "com.unity.inputsystem", "1.7.0");
+
+      expect(await readManifest()).toBe(
+        '{\n    "dependencies": {\n        "com.unity.inputsystem": "1.7.0"\n    }\n}\n'
+      );
+    });
+  });
+
+  describe("lock file", () => {
+    it("builds the package graph with dependents, sorted by depth then name", async () => {
+      await fs.outputJson(UnityPackages.getLockFilePath(projectPath), {
+        dependencies: {
+          "com.unity.ugui": {
+            version: "1.0.0",
+            depth: 0,
+            source: "builtin",
+            dependencies: { "com.unity.modules.ui": "1.0.0" },
+          },
+          "com.unity.modules.ui": { version: "1.0.0", depth: 1, source: "builtin" },
+          "com.unity.inputsystem": {
+            version: "1.7.0",
+            depth: 0,
+            source: "registry",
+            dependencies: { "com.unity.modules.ui": "1.0.0" },
+            url: "https://packages.unity.com",
+          },
+        },
+      });
+
+      const result = await UnityPackages.getResolvedPackages(projectPath);
+
+      expect(result.success && result.value).toEqual([
+        {
+          name: "com.unity.inputsystem",
+          version: "1.7.0",
+          depth: 0,
+          source: PackageSource.Registry,
+          dependencies: { "com.unity.modules.ui": "1.0.0" },
+          url: "https://packages.unity.com",
+          dependents: [],
+        },
+        {
+          name: "com.unity.ugui",
+          version: "1.0.0",
+          depth: 0,
+          source: PackageSource.BuiltIn,
+          dependencies: { "com.unity.modules.ui": "1.0.0" },
+          dependents: [],
+        },
+        {
+          name: "com.unity.modules.ui",
+          version: "1.0.0",
+          depth: 1,
+          source: PackageSource.BuiltIn,
+          dependencies: {},
+          dependents: ["com.unity.inputsystem", "com.unity.ugui"],
+        },
+      ]);
+    });
+
+    it("returns an error for a lock file without dependencies", async () => {
+      await fs.outputJson(UnityPackages.getLockFilePath(projectPath), []);
+
+      const result = await UnityPackages.getResolvedPackages(projectPath);
+      expect(!result.success && result.error).toBeInstanceOf(UnityPackageError);
+    });
+  });
+});
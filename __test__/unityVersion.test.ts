@@ -0,0 +1,127 @@
+import { UnityReleaseStream, UnityReleaseType } from "../src/types/unity.js";
+import { UnityVersion } from "../src/utils/unityVersion.js";
+
+describe("UnityVersion", () => {
+  describe("parse", () => {
+    it("parses a version followed by its changeset", () => {
+      const version = UnityVersion.parse("2022.3.60f1 (8f0f1a8a0a4c)");
+
+      expect(version).toMatchObject({
+        major: 2022,
+        minor: 3,
+        patch: 60,
+        type: UnityReleaseType.Final,
+        revision: 1,
+        changeset: "8f0f1a8a0a4c",
+      });
+      expect(version?.toString()).toBe("2022.3.60f1");
+    });
+
+    it("takes the changeset given separately", () => {
+      expect(UnityVersion.parse("6000.0.40f1", "abc123def456")?.changeset).toBe("abc123def456");
+    });
+
+    it("rejects partial versions and ranges", () => {
+      expect(UnityVersion.parse("2022.3")).toBeNull();
+      expect(UnityVersion.parse("2022.3.x")).toBeNull();
+      expect(UnityVersion.isVersion(">=2021.3")).toBe(false);
+      expect(UnityVersion.isVersion(" 2021.3.1f1 ")).toBe(true);
+    });
+  });
+
+  describe("ordering", () => {
+    it("orders experimental, alpha, beta, final and patch releases of a version", () => {
+      expect(
+        UnityVersion.sort(["2022.3.1p1", "2022.3.1f1", "2022.3.1b2", "2022.3.1a5", "2022.3.1x1", "2022.3.1b1"])
+      ).toEqual(["2022.3.1x1", "2022.3.1a5", "2022.3.1b1", "2022.3.1b2", "2022.3.1f1", "2022.3.1p1"]);
+    });
+
+    it("orders China releases as final releases", () => {
+      expect(UnityVersion.compare("2022.3.1c1", "2022.3.1f1")).toBe(0);
+    });
+
+    it("compares components numerically and ignores the changeset", () => {
+      expect(UnityVersion.compare("2022.3.10f1", "2022.3.9f1")).toBeGreaterThan(0);
+      expect(UnityVersion.compare("6000.0.1f1", "2023.2.20f1")).toBeGreaterThan(0);
+      expect(UnityVersion.parse("2022.3.60f1 (aaaaaaaaaaaa)")?.equals("2022.3.60f1")).toBe(true);
+    });
+
+    it("sorts texts that are not versions first", () => {
+      expect(UnityVersion.sort(["2021.3.1f1", "nightly"])).toEqual(["nightly", "2021.3.1f1"]);
+    });
+  });
+
+  describe("release streams", () => {
+    it.each([
+      ["2019.4.40f1", UnityReleaseStream.LTS],
+      ["2019.3.15f1", UnityReleaseStream.Tech],
+      ["2022.3.60f1", UnityReleaseStream.LTS],
+      ["2023.2.20f1", UnityReleaseStream.Tech],
+      ["6000.0.40f1", UnityReleaseStream.LTS],
+      ["6000.1.0f1", UnityReleaseStream.Tech],
+      ["6000.2.0b4", UnityReleaseStream.Beta],
+      ["6000.3.0a1", UnityReleaseStream.Alpha],
+    ])("puts %s in the %s stream", (version, stream) => {
+      expect(UnityVersion.parse(version)?.stream).toBe(stream);
+    });
+  });
+
+  describe("ranges", () => {
+    const satisfies = (version: string, range: string): boolean | undefined =>
+      UnityVersion.parse(version)?.satisfies(range);
+
+    it("matches wildcards and partial versions", () => {
+      expect(satisfies("2022.3.60f1", "2022.3.x")).toBe(true);
+      expect(satisfies("2022.3.60f1", "2022.3")).toBe(true);
+      expect(satisfies("2022.2.20f1", "2022.3.x")).toBe(false);
+      expect(satisfies("2021.3.1f1", "*")).toBe(true);
+      expect(satisfies("2021.3.1f1", "latest")).toBe(true);
+    });
+
+    it("requires every comparator of an alternative to match", () => {
+      expect(satisfies("2021.3.1f1", ">=2021.3 <2023")).toBe(true);
+      expect(satisfies("2022.3.60f1", ">=2021.3 <2023")).toBe(true);
+      expect(satisfies("2021.2.19f1", ">=2021.3 <2023")).toBe(false);
+      expect(satisfies("2023.1.0f1", ">=2021.3 <2023")).toBe(false);
+      expect(satisfies("2022.3.10f1", ">2022.3.9f1 <=2022.3.10f1")).toBe(true);
+    });
+
+    it("matches any alternative separated by ||", () => {
+      expect(satisfies("2021.3.1f1", "2021.3.x || 6000.0.x")).toBe(true);
+      expect(satisfies("6000.0.40f1", "2021.3.x || 6000.0.x")).toBe(true);
+      expect(satisfies("2022.3.60f1", "2021.3.x || 6000.0.x")).toBe(false);
+    });
+
+    it("matches release streams", () => {
+      expect(satisfies("2022.3.60f1", "lts")).toBe(true);
+      expect(satisfies("2023.2.20f1", "lts")).toBe(false);
+      expect(satisfies("2023.2.20f1", "tech")).toBe(true);
+      expect(satisfies("2020.3.48f1", ">=2021 lts")).toBe(false);
+    });
+
+    it("rejects malformed ranges", () => {
+      expect(UnityVersion.isValidRange(">=2021.3 <2023")).toBe(true);
+      expect(UnityVersion.isValidRange(">=abc")).toBe(false);
+      expect(UnityVersion.isValidRange("2021.3 ||")).toBe(false);
+      expect(satisfies("2021.3.1f1", ">=abc")).toBe(false);
+    });
+  });
+
+  describe("findBest", () => {
+    const installed = ["2021.3.45f1", "2022.3.10f1", "2022.3.60f1", "6000.0.40f1", "6000.1.0b5", "6000.2.0a3"];
+
+    it("returns the newest version matching a range", () => {
+      expect(UnityVersion.findBest(installed, "2022.3.x")).toBe("2022.3.60f1");
+      expect(UnityVersion.findBest(installed, ">=2021.3 <2023")).toBe("2022.3.60f1");
+      expect(UnityVersion.findBest(installed, "lts")).toBe("6000.0.40f1");
+      expect(UnityVersion.findBest(installed, "2019.4.x")).toBeNull();
+    });
+
+    it("leaves out alpha and beta versions unless the range names a pre-release", () => {
+      expect(UnityVersion.findBest(installed, ">=6000")).toBe("6000.0.40f1");
+      expect(UnityVersion.findBest(installed, "*")).toBe("6000.0.40f1");
+      expect(UnityVersion.findBest(installed, ">=6000.1.0b1 <6000.2")).toBe("6000.1.0b5");
+      expect(UnityVersion.findBest(installed, "6000.1.0b5")).toBe("6000.1.0b5");
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { findXmlElements, parseXml } from "../src/utils/xml.js";
+
+describe("parseXml", () => {
+  it("parses elements, attributes, text and CDATA", () => {
+    const root = parseXml('<?xml version="1.0"?><a id="1"><b>x &amp; y</b><b><![CDATA[<z>]]></b></a>');
+
+    expect(root.name).toBe("a");
+    expect(root.attributes.id).toBe("1");
+    expect(findXmlElements(root, "b").map((element) => element.text)).toEqual(["x & y", "<z>"]);
+  });
+
+  it.each(["<a>x</a\n", "<a><b></b\n", "<a><![CDATA[x", "<a><!-- x", "<a><?xml", "<a><b>"])(
+    "rejects the truncated document %j",
+    (source) => {
+      expect(() => parseXml(source)).toThrow();
+    }
+  );
+});
@@ -0,0 +1,577 @@
+import { ParseArgsConfig } from "util";
+import UnityHub from "../unityHub.js";
+import UnityEditor from "../unityEditor.js";
+import UnityLicensing from "../unityLicensing.js";
+import { UnityHubInstallerEvent } from "../events/hubEventEmitter.js";
+import { UnityEditorLogParser } from "../events/editorLogParser.js";
+import {
+  EditorArchitecture,
+  InstallerEvent,
+  InstallerEventType,
+  ModuleId,
+  ProjectInfo,
+  TestMode,
+} from "../types/unity.js";
+import {
+  Result,
+  ok,
+  err,
+  UnityError,
+  UnityCommandError,
+  UnityInstallationError,
+  InvalidArgumentError,
+} from "../errors/index.js";
+import { CliOutput, formatTable } from "./output.js";
+
+type OptionValue = string | boolean | (string | boolean)[] | undefined;
+
+/**
+ * Everything a command needs to run
+ * @internal
+ */
+export interface CommandContext {
+  positionals: string[];
+  values: Record<string, OptionValue>;
+  output: CliOutput;
+  signal: AbortSignal;
+}
+
+/**
+ * A `unity-cli` subcommand
+ * @internal
+ */
+export interface CliCommand {
+  /** Words typed to run the command, e.g. "editors list" */
+  name: string;
+  usage: string;
+  description: string;
+  options?: ParseArgsConfig["options"];
+  /** Runs the command and writes its result; errors are written by the caller */
+  run(context: CommandContext): Promise<Result<unknown, UnityError>>;
+}
+
+const editorVersionOption: ParseArgsConfig["options"] = {
+  "editor-version": { type: "string" },
+};
+
+/**
+ * Gets a string option
+ * @internal
+ */
+function getString(values: Record<string, OptionValue>, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Gets a repeatable string option
+ * @internal
+ */
+function getStrings(values: Record<string, OptionValue>, name: string): string[] {
+  const value = values[name];
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+/**
+ * Checks that the expected positional arguments were given
+ * @internal
+ */
+function requireArguments(context: CommandContext, names: string[]): InvalidArgumentError | undefined {
+  if (context.positionals.length < names.length) {
+    const missing = names.slice(context.positionals.length);
+    return new InvalidArgumentError(`Missing argument: ${missing.map((name) => `<${name}>`).join(" ")}`, { missing });
+  }
+
+  return undefined;
+}
+
+/**
+ * Writes a successful result and passes the result through
+ * @internal
+ */
+function report<T>(
+  output: CliOutput,
+  result: Result<T, UnityError>,
+  render: (data: T) => string
+): Result<T, UnityError> {
+  if (result.success) {
+    output.result(result.value, render);
+  }
+
+  return result;
+}
+
+/**
+ * Reads the project information from a project folder, using the editor version option if given
+ * @internal
+ */
+async function getProjectInfo(context: CommandContext, projectPath: string): Promise<Result<ProjectInfo, UnityError>> {
+  const result = await UnityEditor.resolveProject(projectPath);
+  const editorVersion = getString(context.values, "editor-version");
+
+  if (!result.success || !editorVersion) {
+    return result;
+  }
+
+  return ok({ ...result.value, editorVersion });
+}
+
+/**
+ * Gets the editor version of a license command, from the option or from the project in the current folder
+ * @internal
+ */
+async function getLicenseProjectInfo(context: CommandContext): Promise<Result<ProjectInfo, UnityError>> {
+  const editorVersion = getString(context.values, "editor-version");
+
+  if (editorVersion) {
+    return ok({ projectName: "", projectPath: process.cwd(), editorVersion });
+  }
+
+  return getProjectInfo(context, getString(context.values, "project") ?? process.cwd());
+}
+
+/**
+ * Renders the progress of an installation until the Unity Hub exits
+ * @internal
+ */
+async function followInstaller(
+  output: CliOutput,
+  installer: UnityHubInstallerEvent
+): Promise<Result<InstallerEvent[], UnityError>> {
+  installer.on(InstallerEventType.Progress, (events) => output.progress(events));
+
+  try {
+    return ok(await installer.completed);
+  } catch (error) {
+    return err(error instanceof UnityError ? error : new UnityInstallationError(String(error)));
+  }
+}
+
+const renderInstalled = (events: InstallerEvent[]): string =>
+  events.map((event) => `${event.module}: ${event.status}`).join("\n") || "Nothing to install";
+
+export const COMMANDS: CliCommand[] = [
+  {
+    name: "editors list",
+    usage: "editors list [--all | --releases]",
+    description: "List installed editors, or all editors and releases known to Unity Hub",
+    options: {
+      all: { type: "boolean" },
+      releases: { type: "boolean" },
+    },
+    run: async ({ values, output, signal }): Promise<Result<unknown, UnityError>> => {
+      const filter = values.all ? "a" : values.releases ? "r" : "i";
+      const result = await UnityHub.getUnityInstallations(filter, { signal });
+
+      return report(output, result, (installations) =>
+        formatTable([["VERSION", "LOCATION"], ...Object.entries(installations)])
+      );
+    },
+  },
+  {
+    name: "editors install",
+    usage: "editors install <version> [--module <id>]... [--architecture x86_64|arm64]",
+    description: "Install an editor version through Unity Hub",
+    options: {
+      module: { type: "string", multiple: true },
+      architecture: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["version"]);
+      if (missing) return err(missing);
+
+      const [version] = context.positionals;
+      const architecture = getString(context.values, "architecture");
+      if (architecture && !Object.values<string>(EditorArchitecture).includes(architecture)) {
+        return err(new InvalidArgumentError(`Invalid architecture "${architecture}".`, { architecture }));
+      }
+
+      const modules = getStrings(context.values, "module") as ModuleId[];
+      const started = await UnityHub.addEditor(version, modules, architecture as EditorArchitecture | undefined, {
+        signal: context.signal,
+      });
+      if (!started.success) return started;
+
+      context.output.info(`Installing Unity ${version}...`);
+      return report(context.output, await followInstaller(context.output, started.value), renderInstalled);
+    },
+  },
+  {
+    name: "modules add",
+    usage: "modules add <version> --module <id>... [--skip-child-modules]",
+    description: "Add modules to an installed editor through Unity Hub",
+    options: {
+      module: { type: "string", multiple: true },
+      "skip-child-modules": { type: "boolean" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["version"]);
+      if (missing) return err(missing);
+
+      const [version] = context.positionals;
+      const modules = getStrings(context.values, "module") as ModuleId[];
+      const started = await UnityHub.addModule(version, modules, !context.values["skip-child-modules"], {
+        signal: context.signal,
+      });
+      if (!started.success) return started;
+
+      context.output.info(`Adding ${modules.join(", ")} to Unity ${version}...`);
+      return report(context.output, await followInstaller(context.output, started.value), renderInstalled);
+    },
+  },
+  {
+    name: "editors ensure",
+    usage: "editors ensure <version> [--module <id>]... [--architecture x86_64|arm64]",
+    description: "Install an editor version and modules unless they are already installed",
+    options: {
+      module: { type: "string", multiple: true },
+      architecture: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["version"]);
+      if (missing) return err(missing);
+
+      const [version] = context.positionals;
+      const architecture = getString(context.values, "architecture");
+      if (architecture && !Object.values<string>(EditorArchitecture).includes(architecture)) {
+        return err(new InvalidArgumentError(`Invalid architecture "${architecture}".`, { architecture }));
+      }
+
+      const modules = getStrings(context.values, "module") as ModuleId[];
+      const result = await UnityHub.ensureEditor(version, modules, architecture as EditorArchitecture | undefined, {
+        signal: context.signal,
+        onProgress: (events) => context.output.progress(events),
+      });
+
+      return report(context.output, result, (summary) =>
+        [
+          summary.installedEditor ? `Installed Unity ${summary.version}` : `Unity ${summary.version} already installed`,
+          summary.installedModules.length > 0 ? `Installed modules: ${summary.installedModules.join(", ")}` : "",
+          summary.existingModules.length > 0 ? `Already installed: ${summary.existingModules.join(", ")}` : "",
+        ]
+          .filter(Boolean)
+          .join("\n")
+      );
+    },
+  },
+  {
+    name: "editors remove",
+    usage: "editors remove <version>",
+    description: "Uninstall an editor version",
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["version"]);
+      if (missing) return err(missing);
+
+      const [version] = context.positionals;
+      const started = await UnityHub.removeEditor(version, { signal: context.signal });
+      if (!started.success) return started;
+
+      context.output.info(`Removing Unity ${version}...`);
+      return report(context.output, await followInstaller(context.output, started.value), renderInstalled);
+    },
+  },
+  {
+    name: "modules remove",
+    usage: "modules remove <version> --module <id>...",
+    description: "Remove modules from an installed editor",
+    options: {
+      module: { type: "string", multiple: true },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["version"]);
+      if (missing) return err(missing);
+
+      const [version] = context.positionals;
+      const modules = getStrings(context.values, "module") as ModuleId[];
+      const started = await UnityHub.removeModules(version, modules, { signal: context.signal });
+      if (!started.success) return started;
+
+      context.output.info(`Removing ${modules.join(", ")} from Unity ${version}...`);
+      return report(context.output, await followInstaller(context.output, started.value), renderInstalled);
+    },
+  },
+  {
+    name: "projects list",
+    usage: "projects list",
+    description: "List the projects known to Unity Hub",
+    run: async ({ output }): Promise<Result<unknown, UnityError>> => {
+      const result = await UnityHub.getProjects();
+
+      return report(output, result, (projects) =>
+        formatTable([
+          ["NAME", "VERSION", "PATH"],
+          ...projects.map((project) => [project.name, project.version, project.path]),
+        ])
+      );
+    },
+  },
+  {
+    name: "test",
+    usage: "test <project> [--platform editmode|playmode|<build target>] [--category <name>] [--results <file>]",
+    description: "Run the tests of a project and report the results",
+    options: {
+      ...editorVersionOption,
+      platform: { type: "string", default: TestMode.EditMode },
+      category: { type: "string" },
+      results: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["project"]);
+      if (missing) return err(missing);
+
+      const project = await getProjectInfo(context, context.positionals[0]);
+      if (!project.success) return project;
+
+      const platform = getString(context.values, "platform") as TestMode;
+      const result = await UnityEditor.runTests(project.value, platform, getString(context.values, "category"), {
+        testResultsPath: getString(context.values, "results"),
+        signal: context.signal,
+      });
+
+      return report(
+        context.output,
+        result,
+        (run) =>
+          `${run.result}: ${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped (${run.total} total)`
+      );
+    },
+  },
+  {
+    name: "execute-method",
+    usage: "execute-method <project> <method> [-- <editor arguments>...]",
+    description: "Run a static editor method in batch mode",
+    options: editorVersionOption,
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["project", "method"]);
+      if (missing) return err(missing);
+
+      const [projectPath, method, ...args] = context.positionals;
+      const project = await getProjectInfo(context, projectPath);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.executeMethod(project.value, method, ["-batchmode", "-quit", ...args], {
+        reject: false,
+        signal: context.signal,
+      });
+
+      // Unity may fail without writing to stderr, so its exit code decides
+      if (result.success && result.value.exitCode !== 0) {
+        const { stdout, stderr, exitCode } = result.value;
+        return err(
+          new UnityCommandError(
+            `Method ${method} failed with exit code ${exitCode}`,
+            stdout,
+            stderr,
+            exitCode,
+            { method, projectPath: project.value.projectPath },
+            UnityEditorLogParser.parse(`${stdout}\n${stderr}`)
+          )
+        );
+      }
+
+      return report(context.output, result, (output) => output.stdout);
+    },
+  },
+  {
+    name: "license status",
+    usage: "license status",
+    description: "Show the license this machine is activated with, read from the local license files",
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const result = await UnityEditor.getLicenseStatus();
+
+      return report(context.output, result, (status) =>
+        formatTable([
+          ["Licensed", status.licensed ? "yes" : "no"],
+          ["Type", status.type],
+          ["Serial", status.serialMask ?? "-"],
+          ["Expires", status.expiresAt?.toISOString() ?? "never"],
+          ["License file", status.licenseFile ?? "-"],
+        ])
+      );
+    },
+  },
+  {
+    name: "license activate",
+    usage: "license activate [--serial <serial>] [--username <email>] [--password <password>]",
+    description: "Activate a serial license; credentials default to UNITY_SERIAL, UNITY_USERNAME and UNITY_PASSWORD",
+    options: {
+      ...editorVersionOption,
+      project: { type: "string" },
+      serial: { type: "string" },
+      username: { type: "string" },
+      password: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const serial = getString(context.values, "serial") ?? process.env.UNITY_SERIAL;
+      const username = getString(context.values, "username") ?? process.env.UNITY_USERNAME;
+      const password = getString(context.values, "password") ?? process.env.UNITY_PASSWORD;
+
+      if (!serial || !username || !password) {
+        return err(
+          new InvalidArgumentError("A serial, username and password are required to activate a license.", {
+            serial: !!serial,
+            username: !!username,
+            password: !!password,
+          })
+        );
+      }
+
+      const project = await getLicenseProjectInfo(context);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.activateLicense(project.value, serial, username, password, {
+        signal: context.signal,
+      });
+
+      return report(context.output, result, () => "License activated");
+    },
+  },
+  {
+    name: "license request",
+    usage: "license request [--output <dir>]",
+    description: "Create a manual activation file (.alf) to upload at https://license.unity3d.com/manual",
+    options: {
+      ...editorVersionOption,
+      project: { type: "string" },
+      output: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const project = await getLicenseProjectInfo(context);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.createManualActivationFile(project.value, {
+        outputDir: getString(context.values, "output"),
+        signal: context.signal,
+      });
+
+      return report(context.output, result, (file) => file.path);
+    },
+  },
+  {
+    name: "license activate-manual",
+    usage: "license activate-manual [<license.ulf>]",
+    description: "Activate a license file obtained by manual activation; defaults to the contents of UNITY_LICENSE",
+    options: {
+      ...editorVersionOption,
+      project: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const licenseFile = context.positionals.at(0) ?? process.env.UNITY_LICENSE;
+
+      if (!licenseFile) {
+        return err(new InvalidArgumentError("A license file or the UNITY_LICENSE environment variable is required."));
+      }
+
+      const project = await getLicenseProjectInfo(context);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.activateManualLicense(project.value, licenseFile, { signal: context.signal });
+
+      return report(context.output, result, () => "License activated");
+    },
+  },
+  {
+    name: "license return",
+    usage: "license return",
+    description: "Return the activated license",
+    options: {
+      ...editorVersionOption,
+      project: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const project = await getLicenseProjectInfo(context);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.returnLicense(project.value, { signal: context.signal });
+
+      return report(context.output, result, () => "License returned");
+    },
+  },
+  {
+    name: "license configure",
+    usage: "license configure --server <url> [--connect-timeout <sec>] [--handshake-timeout <sec>] [--config <path>]",
+    description: "Point the Unity Licensing Client to a licensing server by writing services-config.json",
+    options: {
+      server: { type: "string" },
+      "connect-timeout": { type: "string" },
+      "handshake-timeout": { type: "string" },
+      config: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const server = getString(context.values, "server");
+
+      if (!server) {
+        return err(new InvalidArgumentError("A licensing server URL is required: --server <url>"));
+      }
+
+      const connectTimeout = getString(context.values, "connect-timeout");
+      const handshakeTimeout = getString(context.values, "handshake-timeout");
+      const result = await UnityLicensing.writeServicesConfig(
+        {
+          licensingServiceBaseUrl: server,
+          enableEntitlementLicensing: true,
+          enableFloatingApi: true,
+          clientConnectTimeoutSec: connectTimeout === undefined ? undefined : Number(connectTimeout),
+          clientHandshakeTimeoutSec: handshakeTimeout === undefined ? undefined : Number(handshakeTimeout),
+        },
+        { configPath: getString(context.values, "config") }
+      );
+
+      return report(context.output, result, (configPath) => `Wrote ${configPath}`);
+    },
+  },
+  {
+    name: "license server-status",
+    usage: "license server-status [--server <url>] [--config <path>]",
+    description: "Check that the licensing server answers, using the server of services-config.json by default",
+    options: {
+      server: { type: "string" },
+      config: { type: "string" },
+    },
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const result = await UnityLicensing.checkLicensingServer({
+        baseUrl: getString(context.values, "server"),
+        configPath: getString(context.values, "config"),
+        signal: context.signal,
+      });
+
+      return report(context.output, result, (status) => `${status.url}: HTTP ${status.statusCode}`);
+    },
+  },
+  {
+    name: "package import",
+    usage: "package import <project> <package.unitypackage>",
+    description: "Import a .unitypackage into a project",
+    options: editorVersionOption,
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["project", "package"]);
+      if (missing) return err(missing);
+
+      const [projectPath, packagePath] = context.positionals;
+      const project = await getProjectInfo(context, projectPath);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.importPackage(project.value, packagePath, { signal: context.signal });
+
+      return report(context.output, result, () => `Imported ${packagePath}`);
+    },
+  },
+  {
+    name: "package export",
+    usage: "package export <project> <output.unitypackage> <asset path>...",
+    description: "Export assets of a project to a .unitypackage",
+    options: editorVersionOption,
+    run: async (context): Promise<Result<unknown, UnityError>> => {
+      const missing = requireArguments(context, ["project", "output", "asset path"]);
+      if (missing) return err(missing);
+
+      const [projectPath, outputPath, ...assetPaths] = context.positionals;
+      const project = await getProjectInfo(context, projectPath);
+      if (!project.success) return project;
+
+      const result = await UnityEditor.exportPackage(project.value, assetPaths, outputPath, { signal: context.signal });
+
+      return report(context.output, result, () => `Exported ${outputPath}`);
+    },
+  },
+];
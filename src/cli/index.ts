@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+import { Console } from "console";
+import { parseArgs } from "util";
+import { InvalidArgumentError } from "../errors/index.js";
+import { LogLevel } from "../types/unity.js";
+import { setCommandRunner } from "../utils/commandRunner.js";
+import { createConsoleLogger, setLogger } from "../utils/logger.js";
+import { RecordingCommandRunner } from "../utils/recordingCommandRunner.js";
+import { COMMANDS, CliCommand } from "./commands.js";
+import { CliOutput, EXIT_CODES, getExitCode } from "./output.js";
+
+const GLOBAL_OPTIONS = {
+  json: { type: "boolean" },
+  verbose: { type: "boolean" },
+  record: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+/**
+ * Builds the help text of the command, or of a single subcommand
+ * @internal
+ */
+function getHelp(command?: CliCommand): string {
+  if (command) {
+    return `Usage: unity-cli ${command.usage} [--json] [--verbose] [--record <dir>]\n\n${command.description}`;
+  }
+
+  const width = Math.max(...COMMANDS.map((entry) => entry.name.length));
+  return [
+    "Usage: unity-cli <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((entry) => `  ${entry.name.padEnd(width)}  ${entry.description}`),
+    "",
+    "Options:",
+    "  --json            Write the result as JSON to stdout",
+    "  --verbose         Show debug output of the library",
+    "  --record <dir>    Save the commands run and their output to fixtures in <dir>",
+    "  -h, --help        Show help",
+  ].join("\n");
+}
+
+/**
+ * Finds the subcommand named by the first one or two arguments
+ * @internal
+ */
+function findCommand(argv: string[]): { command: CliCommand; args: string[] } | null {
+  for (const words of [2, 1]) {
+    const name = argv.slice(0, words).join(" ");
+    const command = COMMANDS.find((entry) => entry.name === name);
+    if (command) {
+      return { command, args: argv.slice(words) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Runs the `unity-cli` command
+ * @param argv - The command line arguments, without the node executable and script
+ * @returns {Promise<number>} The exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const json = argv.includes("--json");
+  const output = new CliOutput(json);
+  const found = findCommand(argv);
+
+  if (!found) {
+    const wantsHelp = argv.length === 0 || argv.includes("--help") || argv.includes("-h");
+    if (wantsHelp) {
+      process.stdout.write(`${getHelp()}\n`);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    output.error(new InvalidArgumentError(`Unknown command: ${argv.join(" ")}`, { argv }));
+    process.stderr.write(`\n${getHelp()}\n`);
+    return EXIT_CODES.INVALID_ARGUMENT;
+  }
+
+  const { command, args } = found;
+  let parsed: ReturnType<typeof parseArgs>;
+
+  try {
+    parsed = parseArgs({
+      args,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    output.error(new InvalidArgumentError(error instanceof Error ? error.message : String(error)));
+    return EXIT_CODES.INVALID_ARGUMENT;
+  }
+
+  if (parsed.values.help) {
+    process.stdout.write(`${getHelp(command)}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (parsed.values.verbose) {
+    // Debug output goes to stderr, keeping stdout for the result of the command
+    setLogger(createConsoleLogger(LogLevel.Debug, new Console({ stdout: process.stderr, stderr: process.stderr })));
+  }
+
+  if (typeof parsed.values.record === "string") {
+    setCommandRunner(new RecordingCommandRunner({ directory: parsed.values.record }));
+  }
+
+  const controller = new AbortController();
+  const onInterrupt = (): void => controller.abort();
+  process.once("SIGINT", onInterrupt);
+  process.once("SIGTERM", onInterrupt);
+
+  try {
+    const result = await command.run({
+      positionals: parsed.positionals,
+      values: parsed.values,
+      output,
+      signal: controller.signal,
+    });
+
+    if (!result.success) {
+      output.error(result.error);
+      return getExitCode(result.error);
+    }
+
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    output.error(error);
+    return getExitCode(error);
+  } finally {
+    process.off("SIGINT", onInterrupt);
+    process.off("SIGTERM", onInterrupt);
+  }
+}
+
+run(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    process.stderr.write(`${String(error)}\n`);
+    process.exitCode = EXIT_CODES.UNKNOWN_ERROR;
+  });
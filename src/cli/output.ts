@@ -0,0 +1,172 @@
+import { InstallerEvent, InstallerStatus } from "../types/unity.js";
+import { UnityError } from "../errors/index.js";
+
+/**
+ * Exit codes of the `unity-cli` command, one per UnityError code.
+ * These values are part of the public interface of the command and must not change.
+ */
+export const EXIT_CODES: Record<string, number> = {
+  SUCCESS: 0,
+  UNKNOWN_ERROR: 1,
+  INVALID_ARGUMENT: 2,
+  UNITY_HUB_NOT_FOUND: 10,
+  UNITY_EDITOR_NOT_FOUND: 11,
+  UNITY_COMMAND_ERROR: 12,
+  UNITY_INSTALLATION_ERROR: 13,
+  UNITY_PROJECT_ERROR: 14,
+  UNITY_LICENSE_ERROR: 15,
+  UNITY_PACKAGE_ERROR: 16,
+  UNITY_TEST_ERROR: 17,
+  UNITY_BUILD_ERROR: 18,
+  UNITY_CANCELLED: 130,
+};
+
+/**
+ * Gets the exit code for an error
+ * @param error - The error that ended the command
+ * @returns {number} The exit code mapped from the error code, or the unknown error code
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof UnityError && error.code in EXIT_CODES) {
+    return EXIT_CODES[error.code];
+  }
+
+  return EXIT_CODES.UNKNOWN_ERROR;
+}
+
+/**
+ * Writes command results, errors and progress to the terminal.
+ * In JSON mode the result or error is written to stdout as a single JSON document, so it can be piped to other tools;
+ * progress always goes to stderr.
+ */
+export class CliOutput {
+  #json: boolean;
+  #stdout: NodeJS.WriteStream;
+  #stderr: NodeJS.WriteStream;
+  #lastProgress: Map<string, string> = new Map();
+  #progressLineOpen: boolean = false;
+
+  /**
+   * @param json - Whether to write results and errors as JSON
+   * @param stdout - Stream receiving results
+   * @param stderr - Stream receiving errors and progress
+   */
+  public constructor(
+    json: boolean,
+    stdout: NodeJS.WriteStream = process.stdout,
+    stderr: NodeJS.WriteStream = process.stderr
+  ) {
+    this.#json = json;
+    this.#stdout = stdout;
+    this.#stderr = stderr;
+  }
+
+  /**
+   * Writes the result of a successful command
+   * @param data - The result
+   * @param render - Renders the result as text when not in JSON mode
+   * @returns {void}
+   */
+  public result<T>(data: T, render: (data: T) => string): void {
+    this.endProgress();
+
+    if (this.#json) {
+      this.#stdout.write(`${JSON.stringify({ success: true, data }, null, 2)}\n`);
+      return;
+    }
+
+    const text = render(data);
+    if (text) {
+      this.#stdout.write(`${text}\n`);
+    }
+  }
+
+  /**
+   * Writes the error that ended a command
+   * @param error - The error
+   * @returns {void}
+   */
+  public error(error: unknown): void {
+    this.endProgress();
+
+    if (this.#json) {
+      const details =
+        error instanceof UnityError
+          ? { code: error.code, message: error.message, context: error.context }
+          : { code: "UNKNOWN_ERROR", message: String(error) };
+      this.#stdout.write(`${JSON.stringify({ success: false, error: details }, null, 2)}\n`);
+      return;
+    }
+
+    const message = error instanceof UnityError ? `${error.code}: ${error.message}` : String(error);
+    this.#stderr.write(`Error: ${message}\n`);
+  }
+
+  /**
+   * Writes an informational message to stderr, unless in JSON mode
+   * @param message - The message
+   * @returns {void}
+   */
+  public info(message: string): void {
+    if (this.#json) return;
+
+    this.endProgress();
+    this.#stderr.write(`${message}\n`);
+  }
+
+  /**
+   * Renders installer progress. On a terminal the latest status is shown on a single updating line,
+   * otherwise a line is written whenever the status of a module changes.
+   * @param events - The installer events
+   * @returns {void}
+   */
+  public progress(events: InstallerEvent[]): void {
+    for (const event of events) {
+      const percent = typeof event.progress === "number" ? ` ${event.progress.toFixed(0)}%` : "";
+      const line = `${event.module}: ${event.status}${percent}`;
+      const previous = this.#lastProgress.get(event.module);
+      this.#lastProgress.set(event.module, line);
+
+      if (this.#stderr.isTTY) {
+        this.#stderr.write(`\r\x1b[K${this.#summary()} ${line}`);
+        this.#progressLineOpen = true;
+      } else if (previous?.replace(/ \d+%$/, "") !== line.replace(/ \d+%$/, "")) {
+        this.#stderr.write(`${line}\n`);
+      }
+    }
+  }
+
+  /**
+   * Terminates the updating progress line, if any
+   * @returns {void}
+   */
+  public endProgress(): void {
+    if (this.#progressLineOpen) {
+      this.#stderr.write("\n");
+      this.#progressLineOpen = false;
+    }
+  }
+
+  #summary(): string {
+    const done = [...this.#lastProgress.values()].filter((line) => line.endsWith(InstallerStatus.Installed)).length;
+    return `[${done}/${this.#lastProgress.size}]`;
+  }
+}
+
+/**
+ * Renders rows as aligned columns
+ * @param rows - The rows, the first one being the header
+ * @returns {string} The table
+ */
+export function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => (row[column] ?? "").length)));
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
@@ -0,0 +1,132 @@
+/**
+ * Folder (relative to the project's Assets folder) where the bundled build entry point is installed
+ * for the duration of a build. It is removed again once the build finishes.
+ * @internal
+ */
+export const BUILD_ENTRY_POINT_FOLDER = "__UnityCliTools";
+
+/**
+ * Fully qualified name of the bundled build method, passed to Unity through `-executeMethod`
+ * @internal
+ */
+export const BUILD_ENTRY_POINT_METHOD = "NoTask.UnityCliTools.BuildEntryPoint.Build";
+
+/**
+ * C# source of the bundled build entry point.
+ * It reads the `-cli*` arguments passed by {@link UnityEditor.build}, runs `BuildPipeline.BuildPlayer`
+ * with the enabled scenes and writes a JSON summary of the BuildReport to `-cliReportPath`.
+ * @internal
+ */
+export const BUILD_ENTRY_POINT_SOURCE = `// <auto-generated>
+// Installed by @notask/unity-cli-tools for the duration of a build. Do not edit.
+// </auto-generated>
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Linq;
+using UnityEditor;
+using UnityEditor.Build.Reporting;
+using UnityEngine;
+
+namespace NoTask.UnityCliTools
+{
+    public static class BuildEntryPoint
+    {
+        [Serializable]
+        private class ReportFile
+        {
+            public string path;
+            public string role;
+            public long size;
+        }
+
+        [Serializable]
+        private class ReportData
+        {
+            public string result;
+            public double durationMs;
+            public string outputPath;
+            public long totalSize;
+            public int totalErrors;
+            public int totalWarnings;
+            public ReportFile[] files;
+        }
+
+        public static void Build()
+        {
+            string[] args = Environment.GetCommandLineArgs();
+            string outputPath = GetArgument(args, "-cliOutputPath");
+            string reportPath = GetArgument(args, "-cliReportPath");
+            string backend = GetArgument(args, "-cliScriptingBackend");
+            string targetName = GetArgument(args, "-buildTarget");
+            bool development = args.Contains("-cliDevelopment");
+
+            BuildTarget target = EditorUserBuildSettings.activeBuildTarget;
+            if (!string.IsNullOrEmpty(targetName))
+            {
+                target = (BuildTarget)Enum.Parse(typeof(BuildTarget), targetName, true);
+            }
+
+            BuildTargetGroup group = BuildPipeline.GetBuildTargetGroup(target);
+            if (!string.IsNullOrEmpty(backend))
+            {
+                var implementation = (ScriptingImplementation)Enum.Parse(typeof(ScriptingImplementation), backend, true);
+                PlayerSettings.SetScriptingBackend(group, implementation);
+            }
+
+            var options = new BuildPlayerOptions
+            {
+                scenes = EditorBuildSettings.scenes.Where(s => s.enabled).Select(s => s.path).ToArray(),
+                locationPathName = outputPath,
+                target = target,
+                targetGroup = group,
+                options = development ? BuildOptions.Development : BuildOptions.None,
+            };
+
+            BuildReport report = BuildPipeline.BuildPlayer(options);
+            WriteReport(report, reportPath);
+
+            EditorApplication.Exit(report.summary.result == BuildResult.Succeeded ? 0 : 1);
+        }
+
+        private static string GetArgument(string[] args, string name)
+        {
+            int index = Array.IndexOf(args, name);
+            return index >= 0 && index + 1 < args.Length ? args[index + 1] : null;
+        }
+
+        private static void WriteReport(BuildReport report, string reportPath)
+        {
+            if (string.IsNullOrEmpty(reportPath))
+            {
+                return;
+            }
+
+#if UNITY_2022_1_OR_NEWER
+            BuildFile[] buildFiles = report.GetFiles();
+#else
+            BuildFile[] buildFiles = report.files;
+#endif
+
+            var files = new List<ReportFile>();
+            foreach (BuildFile file in buildFiles)
+            {
+                files.Add(new ReportFile { path = file.path, role = file.role, size = (long)file.size });
+            }
+
+            var data = new ReportData
+            {
+                result = report.summary.result.ToString(),
+                durationMs = report.summary.totalTime.TotalMilliseconds,
+                outputPath = report.summary.outputPath,
+                totalSize = (long)report.summary.totalSize,
+                totalErrors = report.summary.totalErrors,
+                totalWarnings = report.summary.totalWarnings,
+                files = files.ToArray(),
+            };
+
+            File.WriteAllText(reportPath, JsonUtility.ToJson(data, true));
+        }
+    }
+}
+`;
@@ -1,15 +1,19 @@
+import { TestCaseResult, UnityBuildReport, UnityLicenseErrorReason, UnityLogEntry } from "../types/unity.js";
+import { redactText, redactValue } from "../utils/security.js";
+
 /**
- * Base class for all Unity-related errors
+ * Base class for all Unity-related errors.
+ * Credentials are redacted from the message, the context and the output kept by the error, so it can be logged or serialized.
  */
 export abstract class UnityError extends Error {
   public readonly code: string;
   public readonly context?: Record<string, unknown>;
 
   constructor(message: string, code: string, context?: Record<string, unknown>) {
-    super(message);
+    super(redactText(message));
     this.name = this.constructor.name;
     this.code = code;
-    this.context = context;
+    this.context = context && redactValue(context);
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -27,12 +31,12 @@ export class UnityHubNotFoundError extends UnityError {
  * Error thrown when Unity Editor is not found or not available
  */
 export class UnityEditorNotFoundError extends UnityError {
-  constructor(version: string, path?: string) {
-    super(
-      `Unity Editor version ${version} not found${path ? ` at path: ${path}` : ""}`,
-      "UNITY_EDITOR_NOT_FOUND",
-      { version, path }
-    );
+  constructor(version: string, path?: string, searchedPaths?: string[]) {
+    super(`Unity Editor version ${version} not found${path ? ` at path: ${path}` : ""}`, "UNITY_EDITOR_NOT_FOUND", {
+      version,
+      path,
+      searchedPaths,
+    });
   }
 }
 
@@ -43,18 +47,30 @@ export class UnityCommandError extends UnityError {
   public readonly stdout: string;
   public readonly stderr: string;
   public readonly exitCode?: number;
+  public readonly diagnostics: UnityLogEntry[];
 
   constructor(
     message: string,
     stdout: string = "",
     stderr: string = "",
     exitCode?: number,
-    context?: Record<string, unknown>
+    context?: Record<string, unknown>,
+    diagnostics: UnityLogEntry[] = []
   ) {
     super(message, "UNITY_COMMAND_ERROR", context);
-    this.stdout = stdout;
-    this.stderr = stderr;
+    this.stdout = redactText(stdout);
+    this.stderr = redactText(stderr);
     this.exitCode = exitCode;
+    this.diagnostics = redactValue(diagnostics);
+  }
+}
+
+/**
+ * Error returned when an operation is cancelled through an AbortSignal
+ */
+export class UnityCancelledError extends UnityError {
+  public constructor(message: string = "Operation was cancelled", context?: Record<string, unknown>) {
+    super(message, "UNITY_CANCELLED", context);
   }
 }
 
@@ -71,8 +87,11 @@ export class UnityInstallationError extends UnityError {
  * Error thrown when Unity project operations fail
  */
 export class UnityProjectError extends UnityError {
-  constructor(message: string, context?: Record<string, unknown>) {
+  public readonly diagnostics: UnityLogEntry[];
+
+  constructor(message: string, context?: Record<string, unknown>, diagnostics: UnityLogEntry[] = []) {
     super(message, "UNITY_PROJECT_ERROR", context);
+    this.diagnostics = redactValue(diagnostics);
   }
 }
 
@@ -80,8 +99,18 @@ export class UnityProjectError extends UnityError {
  * Error thrown when Unity license operations fail
  */
 export class UnityLicenseError extends UnityError {
-  constructor(message: string, context?: Record<string, unknown>) {
+  public readonly reason?: UnityLicenseErrorReason;
+  public readonly diagnostics: UnityLogEntry[];
+
+  constructor(
+    message: string,
+    context?: Record<string, unknown>,
+    reason?: UnityLicenseErrorReason,
+    diagnostics: UnityLogEntry[] = []
+  ) {
     super(message, "UNITY_LICENSE_ERROR", context);
+    this.reason = reason;
+    this.diagnostics = redactValue(diagnostics);
   }
 }
 
@@ -89,8 +118,11 @@ export class UnityLicenseError extends UnityError {
  * Error thrown when Unity package operations fail
  */
 export class UnityPackageError extends UnityError {
-  constructor(message: string, context?: Record<string, unknown>) {
+  public readonly diagnostics: UnityLogEntry[];
+
+  constructor(message: string, context?: Record<string, unknown>, diagnostics: UnityLogEntry[] = []) {
     super(message, "UNITY_PACKAGE_ERROR", context);
+    this.diagnostics = redactValue(diagnostics);
   }
 }
 
@@ -99,10 +131,32 @@ export class UnityPackageError extends UnityError {
  */
 export class UnityTestError extends UnityError {
   public readonly testOutput: string;
+  public readonly failedTests: TestCaseResult[];
+  public readonly diagnostics: UnityLogEntry[];
 
-  constructor(message: string, testOutput: string = "", context?: Record<string, unknown>) {
+  constructor(
+    message: string,
+    testOutput: string = "",
+    context?: Record<string, unknown>,
+    failedTests: TestCaseResult[] = [],
+    diagnostics: UnityLogEntry[] = []
+  ) {
     super(message, "UNITY_TEST_ERROR", context);
-    this.testOutput = testOutput;
+    this.testOutput = redactText(testOutput);
+    this.failedTests = redactValue(failedTests);
+    this.diagnostics = redactValue(diagnostics);
+  }
+}
+
+/**
+ * Error thrown when a player build fails
+ */
+export class UnityBuildError extends UnityError {
+  public readonly report?: UnityBuildReport;
+
+  public constructor(message: string, report?: UnityBuildReport, context?: Record<string, unknown>) {
+    super(message, "UNITY_BUILD_ERROR", context);
+    this.report = redactValue(report);
   }
 }
 
@@ -0,0 +1,134 @@
+import { EventEmitter } from "events";
+import { EditorLogEventType, EditorLogLine, EditorLogSource, UnityLogEntry } from "../types/unity.js";
+import { CommandOutput } from "../utils/commandExecutor.js";
+import { UnityError } from "../errors/index.js";
+import { UnityEditorLogParser } from "./editorLogParser.js";
+
+export interface EditorLogEmitter extends EventEmitter, AsyncIterable<EditorLogLine> {
+  on(event: EditorLogEventType.Line, listener: (line: EditorLogLine) => void): this;
+  on(event: EditorLogEventType.Entry, listener: (entry: UnityLogEntry) => void): this;
+  on(event: EditorLogEventType.Exit, listener: (output: CommandOutput) => void): this;
+  on(event: EditorLogEventType.Error, listener: (error: UnityError) => void): this;
+  emit(event: EditorLogEventType.Line, line: EditorLogLine): boolean;
+  emit(event: EditorLogEventType.Entry, entry: UnityLogEntry): boolean;
+  emit(event: EditorLogEventType.Exit, output: CommandOutput): boolean;
+  emit(event: EditorLogEventType.Error, error: UnityError): boolean;
+
+  readonly completed: Promise<CommandOutput>;
+  readonly entries: UnityLogEntry[];
+}
+
+export class UnityEditorLogStream extends EventEmitter implements EditorLogEmitter {
+  #parser: UnityEditorLogParser = new UnityEditorLogParser();
+  #entries: UnityLogEntry[] = [];
+  #completed: Promise<CommandOutput>;
+  #finished: boolean = false;
+
+  public constructor() {
+    super();
+
+    this.#completed = new Promise((resolve, reject) => {
+      this.once(EditorLogEventType.Exit, resolve);
+      this.once(EditorLogEventType.Error, reject);
+    });
+    // Settlement is observed through `completed`, do not report an unhandled rejection when nobody awaits it
+    this.#completed.catch(() => undefined);
+  }
+
+  /**
+   * Resolves with the command output once the editor exits, or rejects if the command could not be run.
+   */
+  public get completed(): Promise<CommandOutput> {
+    return this.#completed;
+  }
+
+  /**
+   * All diagnostics parsed from the stream so far.
+   */
+  public get entries(): UnityLogEntry[] {
+    return [...this.#entries];
+  }
+
+  /**
+   * Parses a line of editor output and emits it along with any diagnostics it completed.
+   * @param line - The raw line
+   * @param source - Where the line was read from
+   * @returns {void}
+   */
+  public Line(line: string, source: EditorLogSource): void {
+    if (this.#finished) return;
+
+    const entries = this.#parser.push(line);
+    this.#emitEntries(entries);
+    this.emit(EditorLogEventType.Line, { line, source, entries });
+  }
+
+  /**
+   * Flushes pending diagnostics and emits the exit event.
+   * @param output - The output of the finished command
+   * @returns {void}
+   */
+  public Exit(output: CommandOutput): void {
+    if (this.#finished) return;
+
+    this.#emitEntries(this.#parser.flush());
+    this.#finished = true;
+    this.emit(EditorLogEventType.Exit, output);
+  }
+
+  /**
+   * Emits an error event when the command could not be run.
+   * @param error - The error that ended the command
+   * @returns {void}
+   */
+  public Fail(error: UnityError): void {
+    if (this.#finished) return;
+
+    this.#emitEntries(this.#parser.flush());
+    this.#finished = true;
+    this.emit(EditorLogEventType.Error, error);
+  }
+
+  /**
+   * Iterates over the lines emitted from now on until the editor exits.
+   * The iterator throws if the command fails.
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterator<EditorLogLine> {
+    const buffered: EditorLogLine[] = [];
+    let wake: (() => void) | null = null;
+    const onLine = (line: EditorLogLine): void => {
+      buffered.push(line);
+      wake?.();
+    };
+    const onEnd = (): void => wake?.();
+
+    this.on(EditorLogEventType.Line, onLine);
+    this.on(EditorLogEventType.Exit, onEnd);
+    this.on(EditorLogEventType.Error, onEnd);
+
+    try {
+      while (buffered.length > 0 || !this.#finished) {
+        const line = buffered.shift();
+        if (line) {
+          yield line;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+        }
+      }
+
+      await this.#completed;
+    } finally {
+      this.off(EditorLogEventType.Line, onLine);
+      this.off(EditorLogEventType.Exit, onEnd);
+      this.off(EditorLogEventType.Error, onEnd);
+    }
+  }
+
+  #emitEntries(entries: UnityLogEntry[]): void {
+    for (const entry of entries) {
+      this.#entries.push(entry);
+      this.emit(EditorLogEventType.Entry, entry);
+    }
+  }
+}
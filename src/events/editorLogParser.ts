@@ -0,0 +1,165 @@
+import fs from "fs-extra";
+import { UnityLogEntry, UnityLogEntryType, UnityLogSeverity } from "../types/unity.js";
+
+/**
+ * Parses Unity Editor output into typed diagnostics.
+ * The parser works line by line so it can be used on a complete log through {@link UnityEditorLogParser.parse}
+ * or incrementally on streamed output through {@link UnityEditorLogParser.push}.
+ */
+export class UnityEditorLogParser {
+  private static compilerPattern =
+    /^(?<file>.+?)\((?<line>\d+),(?<column>\d+)\):\s+(?<level>error|warning)\s+(?<code>[A-Z]+\d+):\s*(?<message>.*)$/;
+  private static exceptionPattern = /^(?<code>(?:[A-Za-z_]\w*\.)*[A-Za-z_]\w*Exception):\s*(?<message>.*)$/;
+  private static stackFramePatterns = [/^\s*at\s+\S/, /^[\w.`<>[\],+]+:[\w.`<>|]+\s?\(.*\)/, /\(at .+:\d+\)\s*$/];
+  private static frameLocationPattern = /\(at (?<file>.+):(?<line>\d+)\)\s*$/;
+  private static licensePatterns = [/^\[Licensing::/, /^LICENSE SYSTEM/, /No valid Unity Editor license/i];
+  private static licenseErrorPattern = /error|fail|no valid|not valid|invalid|expired|denied/i;
+
+  #pendingException: UnityLogEntry | null = null;
+  #seenCompilerMessages: Set<string> = new Set();
+
+  /**
+   * Parses complete editor output into log entries.
+   * @param output - Editor stdout/stderr or the contents of a log file
+   * @returns {UnityLogEntry[]} The entries found in the output, in order of appearance
+   */
+  public static parse(output: string): UnityLogEntry[] {
+    const parser = new UnityEditorLogParser();
+    const entries: UnityLogEntry[] = [];
+
+    for (const line of output.split(/\r?\n/)) {
+      entries.push(...parser.push(line));
+    }
+
+    entries.push(...parser.flush());
+    return entries;
+  }
+
+  /**
+   * Reads and parses a log file written by the editor through `-logFile`.
+   * @param logFile - Path of the log file
+   * @returns {Promise<UnityLogEntry[]>} The entries found in the log file
+   */
+  public static async parseFile(logFile: string): Promise<UnityLogEntry[]> {
+    const contents = await fs.readFile(logFile, "utf8");
+    return UnityEditorLogParser.parse(contents);
+  }
+
+  /**
+   * Checks whether any of the entries is an error.
+   * @param entries - Entries returned by the parser
+   * @returns {boolean} True if at least one entry has error severity
+   */
+  public static hasErrors(entries: UnityLogEntry[]): boolean {
+    return entries.some((entry) => entry.severity === UnityLogSeverity.Error);
+  }
+
+  /**
+   * Feeds a single line of output to the parser.
+   * Exceptions are only returned once their stack trace has ended, so entries can lag one line behind.
+   * @param line - A line of editor output
+   * @returns {UnityLogEntry[]} The entries completed by this line
+   */
+  public push(line: string): UnityLogEntry[] {
+    const entries: UnityLogEntry[] = [];
+
+    if (this.#pendingException) {
+      if (this.#appendStackFrame(this.#pendingException, line)) {
+        return entries;
+      }
+      entries.push(...this.flush());
+    }
+
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return entries;
+    }
+
+    const entry = this.#parseCompilerMessage(trimmed) ?? this.#parseLicenseMessage(trimmed);
+    if (entry) {
+      entries.push(entry);
+      return entries;
+    }
+
+    const exceptionMatch = trimmed.match(UnityEditorLogParser.exceptionPattern);
+    if (exceptionMatch?.groups) {
+      this.#pendingException = {
+        type: UnityLogEntryType.Exception,
+        severity: UnityLogSeverity.Error,
+        message: exceptionMatch.groups.message.trim(),
+        code: exceptionMatch.groups.code,
+        stackTrace: [],
+        raw: trimmed,
+      };
+    }
+
+    return entries;
+  }
+
+  /**
+   * Returns the exception still waiting for the end of its stack trace, if any.
+   * @returns {UnityLogEntry[]} The remaining entries
+   */
+  public flush(): UnityLogEntry[] {
+    const pending = this.#pendingException;
+    this.#pendingException = null;
+    return pending ? [pending] : [];
+  }
+
+  #parseCompilerMessage(line: string): UnityLogEntry | null {
+    const match = line.match(UnityEditorLogParser.compilerPattern);
+    if (!match?.groups) return null;
+
+    // Unity repeats compiler messages in several summaries of the same compilation
+    if (this.#seenCompilerMessages.has(line)) return null;
+    this.#seenCompilerMessages.add(line);
+
+    const { file, line: lineNumber, column, level, code, message } = match.groups;
+    const isError = level === "error";
+
+    return {
+      type: isError ? UnityLogEntryType.CompilerError : UnityLogEntryType.CompilerWarning,
+      severity: isError ? UnityLogSeverity.Error : UnityLogSeverity.Warning,
+      message: message.trim(),
+      file: file.trim(),
+      line: parseInt(lineNumber, 10),
+      column: parseInt(column, 10),
+      code,
+      raw: line,
+    };
+  }
+
+  #parseLicenseMessage(line: string): UnityLogEntry | null {
+    if (!UnityEditorLogParser.licensePatterns.some((pattern) => pattern.test(line))) return null;
+
+    let severity = UnityLogSeverity.Info;
+    if (UnityEditorLogParser.licenseErrorPattern.test(line)) {
+      severity = UnityLogSeverity.Error;
+    } else if (/warn/i.test(line)) {
+      severity = UnityLogSeverity.Warning;
+    }
+
+    return {
+      type: UnityLogEntryType.License,
+      severity,
+      message: line.replace(/^\[Licensing::[^\]]*\]\s*/, "").replace(/^LICENSE SYSTEM \[[^\]]*\]\s*/, ""),
+      raw: line,
+    };
+  }
+
+  #appendStackFrame(entry: UnityLogEntry, line: string): boolean {
+    if (!UnityEditorLogParser.stackFramePatterns.some((pattern) => pattern.test(line))) return false;
+
+    const frame = line.trim();
+    entry.stackTrace?.push(frame);
+    entry.raw += `\n${frame}`;
+
+    const location = frame.match(UnityEditorLogParser.frameLocationPattern);
+    if (location?.groups && entry.file === undefined) {
+      entry.file = location.groups.file;
+      entry.line = parseInt(location.groups.line, 10);
+    }
+
+    return true;
+  }
+}
@@ -1,10 +1,11 @@
 import { EventEmitter } from "events";
 import { InstallerEventType, InstallerEvent, InstallerStatus } from "../types/unity.js";
 import { UnityHubEventParser } from "./hubEventParser.js";
+import { UnityCancelledError, UnityError, UnityInstallationError } from "../errors/index.js";
 
 export interface InstallerEmitter extends EventEmitter {
   on(event: InstallerEventType.Progress, listener: (info: InstallerEvent[]) => void): this;
-  on(event: InstallerEventType.Error, listener: (error: Error) => void): this;
+  on(event: InstallerEventType.Error, listener: (info: InstallerEvent[]) => void): this;
   on(event: InstallerEventType.Completed, listener: (info: InstallerEvent[]) => void): this;
   on(event: InstallerEventType.Cancelled, listener: (info: InstallerEvent[]) => void): this;
   emit(event: InstallerEventType.Progress, info: InstallerEvent[]): boolean;
@@ -13,40 +14,80 @@ export interface InstallerEmitter extends EventEmitter {
   emit(event: InstallerEventType.Cancelled, info: InstallerEvent[]): boolean;
 
   readonly completed: Promise<InstallerEvent[]>;
+  readonly queued: boolean;
+  snapshot(): InstallerEvent[];
 }
 
 export class UnityHubInstallerEvent extends EventEmitter implements InstallerEmitter {
-  #moduleTracker: Map<string, InstallerStatus> = new Map();
+  #moduleTracker: Map<string, InstallerEvent> = new Map();
+  #controller?: AbortController;
+  #completed: Promise<InstallerEvent[]>;
+  #resolve: (events: InstallerEvent[]) => void = () => undefined;
+  #reject: (error: UnityError) => void = () => undefined;
+  #finished: boolean = false;
+  #errorReported: boolean = false;
+  #queued: boolean = false;
 
-  public constructor() {
+  /**
+   * @param controller - Controller aborted by {@link Cancel} to stop the underlying Hub process
+   */
+  public constructor(controller?: AbortController) {
     super();
+    this.#controller = controller;
+
+    this.#completed = new Promise((resolve, reject) => {
+      this.#resolve = resolve;
+      this.#reject = reject;
+    });
+    // Settlement is observed through `completed`, do not report an unhandled rejection when nobody awaits it
+    this.#completed.catch(() => undefined);
   }
 
+  /**
+   * Settles once the Unity Hub process exits: resolves with the final status of every module,
+   * or rejects with a UnityInstallationError if the Hub failed or a module reported an error,
+   * and with a UnityCancelledError if the installation was cancelled.
+   */
   public get completed(): Promise<InstallerEvent[]> {
-    return new Promise((resolve, reject) => {
-      const onComplete = (events: InstallerEvent[]) => {
-        cleanup();
-        resolve(events);
-      };
-      const onError = (error: any) => {
-        cleanup();
-        reject(error);
-      };
-      const onCancel = () => {
-        cleanup();
-        reject(new Error("Cancelled"));
-      };
-
-      const cleanup = () => {
-        this.off(InstallerEventType.Completed, onComplete);
-        this.off(InstallerEventType.Error, onError);
-        this.off(InstallerEventType.Cancelled, onCancel);
-      };
-
-      this.on(InstallerEventType.Completed, onComplete);
-      this.on(InstallerEventType.Error, onError);
-      this.on(InstallerEventType.Cancelled, onCancel);
-    });
+    return this.#completed;
+  }
+
+  /**
+   * Signal aborted when the installation is cancelled.
+   */
+  public get signal(): AbortSignal | undefined {
+    return this.#controller?.signal;
+  }
+
+  /**
+   * Whether the operation waits in the install queue for other Unity Hub operations to finish.
+   */
+  public get queued(): boolean {
+    return this.#queued;
+  }
+
+  /**
+   * Marks the operation as waiting in the install queue.
+   * @returns {void}
+   */
+  public Enqueue(): void {
+    this.#queued = true;
+  }
+
+  /**
+   * Marks the operation as started once it leaves the install queue.
+   * @returns {void}
+   */
+  public Start(): void {
+    this.#queued = false;
+  }
+
+  /**
+   * Returns the latest known status and progress of every module reported by Unity Hub.
+   * @returns {InstallerEvent[]} A copy of the per-module state
+   */
+  public snapshot(): InstallerEvent[] {
+    return [...this.#moduleTracker.values()].map((event) => ({ ...event }));
   }
 
   /**
@@ -55,41 +96,106 @@ export class UnityHubInstallerEvent extends EventEmitter implements InstallerEmi
    * @returns {void}
    */
   public Progress(raw: string): void {
-    const events = UnityHubEventParser.parseUnityHubEvent(raw);
-    if (events.length === 0) return;
+    if (this.#finished) return;
+
+    this.Report(UnityHubEventParser.parseUnityHubEvent(raw));
+  }
+
+  /**
+   * Records the status of modules and emits the matching progress or error events,
+   * for operations that report their progress themselves rather than through Unity Hub output.
+   * @param events - The new status of the modules
+   * @returns {void}
+   */
+  public Report(events: InstallerEvent[]): void {
+    if (this.#finished || events.length === 0) return;
 
+    this.#updateModuleTracker(events);
     this.#Error(events);
 
     const progressEvents = events.filter((e) => e.status !== InstallerStatus.Error);
 
     if (progressEvents.length === 0) return;
     this.emit(InstallerEventType.Progress, progressEvents);
-    this.#updateModuleTracker(events);
-    this.#Complete(progressEvents);
+  }
+
+  /**
+   * Settles the installation once the Unity Hub process exited.
+   * Emits a completed event when the Hub exited cleanly and no module failed, an error event otherwise.
+   * @param exitCode - The exit code of the Unity Hub process
+   * @param context - Additional context of the error, if the installation failed
+   * @returns {void}
+   */
+  public Exit(exitCode?: number, context?: Record<string, unknown>): void {
+    if (this.#finished) return;
+
+    const failed = this.snapshot().filter((e) => e.status === InstallerStatus.Error);
+
+    if (failed.length === 0 && (exitCode === undefined || exitCode === 0)) {
+      this.#finished = true;
+      const events = this.snapshot();
+      this.emit(InstallerEventType.Completed, events);
+      this.#resolve(events);
+      return;
+    }
+
+    const reason = failed.map((e) => e.error ?? `${e.module} failed`).join("; ");
+    this.Fail(
+      new UnityInstallationError(
+        reason ? `Installation failed: ${reason}` : `Unity Hub exited with code ${String(exitCode)}`,
+        { ...context, exitCode, modules: this.snapshot() }
+      )
+    );
+  }
+
+  /**
+   * Fails the installation when the Unity Hub process could not be run or exited with an error.
+   * @param error - The error that ended the installation
+   * @returns {void}
+   */
+  public Fail(error: UnityError): void {
+    if (this.#finished) return;
+    this.#finished = true;
+
+    if (!this.#errorReported) {
+      this.#Error([{ module: "UnityHub", status: InstallerStatus.Error, error: error.message }]);
+    }
+
+    this.#reject(
+      error instanceof UnityInstallationError
+        ? error
+        : new UnityInstallationError(`Installation failed: ${error.message}`, {
+            ...error.context,
+            cause: error.code,
+            modules: this.snapshot(),
+          })
+    );
   }
 
   #Error(events: InstallerEvent[]): void {
     const errorEvents = events.filter((e) => e.status === InstallerStatus.Error);
 
     if (errorEvents.length === 0) return;
-    this.emit(InstallerEventType.Error, errorEvents);
-  }
+    this.#errorReported = true;
 
-  #Complete(events: InstallerEvent[]): void {
-    const installed = events.filter((e) => e.status === InstallerStatus.Installed);
-    if (installed.length > 0 && installed.length === events.length) {
-      this.emit(InstallerEventType.Completed, installed);
+    // "error" events throw when nobody listens; failures still surface through `completed`
+    if (this.listenerCount(InstallerEventType.Error) > 0) {
+      this.emit(InstallerEventType.Error, errorEvents);
     }
   }
 
   /**
-   * Emits a cancelled event.
+   * Cancels the installation, killing the Unity Hub process tree, and emits a cancelled event.
    * @returns {void}
    */
   public Cancel(): void {
-    //Cancel operation
+    if (this.#finished) return;
+    this.#finished = true;
+
+    this.#controller?.abort();
     this.#moduleTracker.clear();
     this.#Cancelled([]);
+    this.#reject(new UnityCancelledError("Installation was cancelled"));
   }
 
   #Cancelled(event: InstallerEvent[]): void {
@@ -98,7 +204,7 @@ export class UnityHubInstallerEvent extends EventEmitter implements InstallerEmi
 
   #updateModuleTracker(events: InstallerEvent[]): void {
     for (const event of events) {
-      this.#moduleTracker.set(event.module, event.status);
+      this.#moduleTracker.set(event.module, { ...event });
     }
   }
 }
@@ -1,6 +1,28 @@
 export { default as UnityHub } from "./unityHub.js";
 export { default as UnityEditor } from "./unityEditor.js";
+export { default as UnityPackages } from "./unityPackages.js";
+export { default as UnityLicensing } from "./unityLicensing.js";
 export { UnityHubInstallerEvent } from "./events/hubEventEmitter.js";
+export { UnityEditorLogParser } from "./events/editorLogParser.js";
+export { UnityEditorLogStream } from "./events/editorLogEmitter.js";
+export { UnityTestResultsParser } from "./utils/testResultsParser.js";
+export { UnityLicenseFile } from "./utils/licenseFile.js";
+export { UnityProjectSettings } from "./utils/projectSettings.js";
+export { UnityVersion } from "./utils/unityVersion.js";
+export { isTransientError } from "./utils/retry.js";
+export { configureRedaction, redactText } from "./utils/security.js";
+export { ExecaCommandRunner, defaultCommandRunner, setCommandRunner, getCommandRunner } from "./utils/commandRunner.js";
+export { ScriptedCommandRunner } from "./utils/scriptedCommandRunner.js";
+export { RecordingCommandRunner } from "./utils/recordingCommandRunner.js";
+export { ReplayCommandRunner } from "./utils/replayCommandRunner.js";
+export {
+  setLogger,
+  getLogger,
+  silentLogger,
+  createCallbackLogger,
+  createConsoleLogger,
+  createFieldsFirstLogger,
+} from "./utils/logger.js";
 
 export * from "./types/unity.js";
 export * from "./errors/index.js";
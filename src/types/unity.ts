@@ -1,3 +1,5 @@
+import type { UnityError } from "../errors/UnityError.js";
+
 /**
  * Interface representing a Unity project as stored in Unity Hub
  * Contains metadata about a project tracked by Unity Hub
@@ -39,11 +41,28 @@ export interface UnityHubProject {
 
 /**
  * Interface representing the structure of the Unity Hub projects list file
- * Contains an array of Unity projects tracked by Unity Hub
+ * Contains the Unity projects tracked by Unity Hub, keyed by project path
  */
 export interface UnityHubProjectsList {
-  /** Array of Unity projects */
-  data: UnityHubProject[];
+  /** Version of the file format (e.g., "v1") */
+  schema_version?: string;
+
+  /** Unity projects keyed by their full path */
+  data: Record<string, UnityHubProject>;
+}
+
+/**
+ * Options for registering a project with Unity Hub
+ */
+export interface AddHubProjectOptions {
+  /** Name shown in Unity Hub, defaults to the product name of the project or its folder name */
+  title?: string;
+
+  /** Whether to mark the project as favorite */
+  favorite?: boolean;
+
+  /** CPU architecture of the editor to open the project with, defaults to the architecture of this machine */
+  architecture?: EditorArchitecture;
 }
 
 export enum UnityModules {
@@ -83,6 +102,9 @@ export enum UnityModules {
   /** Windows build support with Mono scripting backend */
   WindowsBuildSupportMono = "windows-mono",
 
+  /** Windows build support with IL2CPP scripting backend */
+  WindowsBuildSupportIL2CPP = "windows-il2cpp",
+
   /** Lumin (Magic Leap) build support */
   LuminBuildSupport = "lumin",
 
@@ -103,6 +125,9 @@ export enum UnityModules {
 
   /** Universal Windows Platform build support with .NET */
   UWPBuildSupportDotNet = "uwp-.net",
+
+  /** visionOS build support module */
+  VisionOSBuildSupport = "visionos",
 }
 
 /**
@@ -143,18 +168,351 @@ export type ModuleId = UnityModules | UnityEditorLanguages;
 
 export type UnityInstallations = Record<string, string>;
 
+/**
+ * Interface representing an installed Unity editor
+ */
+export interface UnityEditorInstallation {
+  /** Unity version (e.g., "2022.3.60f1") */
+  version: string;
+
+  /** Path to the editor as reported by Unity Hub: the executable, or the `Unity.app` bundle on macOS */
+  path: string;
+
+  /** CPU architecture of the editor, if it could be detected */
+  architecture?: EditorArchitecture;
+
+  /**
+   * Changeset of the editor, read from `Info.plist` on macOS and from the version resource of `Unity.exe` on Windows.
+   * Linux editors do not record it, so it is undefined there.
+   */
+  changeset?: string;
+}
+
+/**
+ * Type representing a mapping of Unity versions to the installed editors
+ */
+export type UnityEditorInstallations = Record<string, UnityEditorInstallation>;
+
+/**
+ * Interface representing a module entry of the `modules.json` file Unity Hub writes in each editor folder
+ */
+export interface UnityHubModuleEntry {
+  id: string;
+  name?: string;
+  /** Whether the module was selected for installation */
+  selected?: boolean;
+  /** Install folder, possibly relative to the `{UNITY_PATH}` placeholder */
+  destination?: string | null;
+  installedSize?: number;
+  /** ID of the module this module is installed with */
+  parent?: string;
+  sync?: string;
+}
+
+/**
+ * Interface representing a module of an installed Unity editor
+ */
+export interface UnityInstalledModule {
+  /** Module ID, as used to add or remove the module */
+  id: ModuleId;
+
+  /** Display name of the module, if recorded by Unity Hub */
+  name?: string;
+
+  /** Whether the module is installed */
+  installed: boolean;
+
+  /** Installed size in bytes, if recorded by Unity Hub */
+  size?: number;
+
+  /** Folder the module is installed to */
+  path?: string;
+
+  /** IDs of the modules installed along with this one */
+  children: ModuleId[];
+}
+
 /**
  * Type representing a mapping of Unity versions to their installation paths
  * Example: { "2023.3.0f1": "C:/Program Files/Unity/Hub/Editor/2023.3.0f1" }
  */
 export type UnityEditorInfo = Record<string, string>;
 
+/**
+ * Enum for the places an editor executable can be found, in the order they are searched
+ */
+export enum UnityEditorSource {
+  /** The `path` given in the UnityEditorInfo */
+  Explicit = "explicit",
+  /** The UNITY_EDITOR_PATH environment variable */
+  Environment = "environment",
+  /** The install location configured in Unity Hub */
+  HubInstallPath = "hubInstallPath",
+  /** The editor registry kept by Unity Hub */
+  HubRegistry = "hubRegistry",
+  /** The default install location of the platform */
+  PlatformDefault = "platformDefault",
+}
+
+/**
+ * Interface representing an editor executable found for a version
+ */
+export interface ResolvedUnityEditor {
+  version: string;
+  path: string;
+  source: UnityEditorSource;
+}
+
+/**
+ * Options accepted by the UnityHub and UnityEditor operations that run a process
+ */
+export interface OperationOptions {
+  /** Signal that cancels the operation and terminates the process tree it started */
+  signal?: AbortSignal;
+  /** Logger receiving the diagnostic output of the operation, instead of the one set with `setLogger` */
+  logger?: Logger;
+  /** Runs the commands of the operation, instead of the one set with `setCommandRunner` */
+  runner?: CommandRunner;
+}
+
+/**
+ * Interface representing the output of a command
+ */
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+}
+
+/**
+ * Options given to a command runner for one command
+ */
+export interface CommandRunOptions {
+  /** Rejects when the command exits with a non-zero code, instead of resolving with its output */
+  reject?: boolean;
+  /** Milliseconds after which the command is stopped */
+  timeout?: number;
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Signal that stops the command along with the process tree it started */
+  signal?: AbortSignal;
+  /** Receives the standard output as it is written; the output may then be left out of the result */
+  onStdout?: (chunk: string) => void;
+  /** Receives the standard error as it is written; the output may then be left out of the result */
+  onStderr?: (chunk: string) => void;
+}
+
+/**
+ * Interface for the way Unity Hub, Unity and other tools are run.
+ * The default runner starts child processes; others can fake them in tests or run them elsewhere.
+ */
+export interface CommandRunner {
+  /**
+   * Runs a command until it exits.
+   * Rejects when the command cannot be started, or when it fails and `reject` is set;
+   * the error may carry the `stdout`, `stderr` and `exitCode` of the command.
+   */
+  run(executable: string, args: string[], options: CommandRunOptions): Promise<CommandOutput>;
+  /** Checks whether an executable can be run, which defaults to checking the file exists */
+  isAvailable?(executable: string): Promise<boolean>;
+}
+
+/**
+ * Interface representing a piece of output written by a scripted command
+ */
+export interface ScriptedOutputChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+  /** Milliseconds to wait before writing the chunk */
+  delayMs?: number;
+}
+
+/**
+ * Interface representing a command answered by the ScriptedCommandRunner
+ */
+export interface ScriptedCommand {
+  /** Executable to match, by path or file name, or with a pattern; matches any executable when omitted */
+  executable?: string | RegExp;
+  /** Arguments that must all be passed, in any order, or a function checking the arguments; matches any arguments when omitted */
+  args?: (string | RegExp)[] | ((args: string[]) => boolean);
+  /** Output written in chunks before the command exits, e.g. the progress of an installation */
+  chunks?: ScriptedOutputChunk[];
+  /** Standard output written at once after the chunks */
+  stdout?: string;
+  /** Standard error written at once after the chunks */
+  stderr?: string;
+  /** Exit code, defaults to 0 */
+  exitCode?: number;
+  /** Error the command fails with instead, e.g. to imitate an executable that cannot be started */
+  error?: Error;
+  /** Number of runs this command answers, unlimited when omitted */
+  times?: number;
+}
+
+/**
+ * Interface representing a command run by the ScriptedCommandRunner
+ */
+export interface ScriptedCommandCall {
+  executable: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Interface representing a piece of output of a recorded command
+ */
+export interface CommandFixtureChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+  /** Milliseconds between the start of the command and the chunk */
+  offsetMs: number;
+}
+
+/**
+ * Interface representing a command recorded by the RecordingCommandRunner, with credentials redacted
+ */
+export interface CommandFixture {
+  /** Version of the fixture format */
+  formatVersion: 1;
+  executable: string;
+  args: string[];
+  cwd?: string;
+  /** Output of the command, in the order and at the time it was written */
+  chunks: CommandFixtureChunk[];
+  exitCode?: number;
+  /** Message of the error the command failed with, when it could not be started or `reject` was set */
+  error?: string;
+  durationMs: number;
+  /** ISO date of the recording */
+  recordedAt: string;
+}
+
+/**
+ * Options of the RecordingCommandRunner
+ */
+export interface RecordingOptions {
+  /** Folder the fixtures are written to, one file per command */
+  directory: string;
+  /** Runner actually running the commands, defaults to starting child processes */
+  runner?: CommandRunner;
+}
+
+/**
+ * Options of the ReplayCommandRunner
+ */
+export interface ReplayOptions {
+  /**
+   * Whether a command must be run with the arguments it was recorded with, defaults to true.
+   * Disable it to replay the fixtures in order, e.g. when the arguments hold temporary paths.
+   */
+  matchArgs?: boolean;
+  /** Whether the chunks are written at the pace they were recorded at, instead of at once */
+  timing?: boolean;
+}
+
+/**
+ * Interface for the credentials to redact on top of the built-in ones.
+ * Passwords, tokens, secrets, serials, usernames and keystore passwords are always redacted.
+ */
+export interface RedactionOptions {
+  /** Names of sensitive command line arguments and fields, matched case-insensitively within longer names */
+  keys?: string[];
+  /** Patterns matching secrets in text such as command output; every match is replaced */
+  patterns?: RegExp[];
+}
+
+/**
+ * Enum for the severity of a log message, from the most to the least verbose
+ */
+export enum LogLevel {
+  Debug = "debug",
+  Info = "info",
+  Warn = "warn",
+  Error = "error",
+}
+
+/**
+ * Structured data attached to a log message, e.g. the command that was run or the error that occurred
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Interface of the logger receiving the diagnostic output of the library.
+ * Command lines are redacted before they are logged.
+ */
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+}
+
+/**
+ * Interface describing how an operation is retried after a transient failure.
+ * The delay before a retry grows exponentially: `initialDelayMs * factor ^ (attempt - 1)`, capped at `maxDelayMs`,
+ * then shortened by a random fraction of up to `jitter` so that parallel jobs do not retry in lockstep.
+ */
+export interface RetryPolicy {
+  /** Number of attempts including the first one, defaults to 3 */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, defaults to 1000 */
+  initialDelayMs?: number;
+  /** Longest delay between two attempts in milliseconds, defaults to 30000 */
+  maxDelayMs?: number;
+  /** Factor the delay grows by after each attempt, defaults to 2 */
+  factor?: number;
+  /** Fraction of the delay that is randomized, from 0 to 1, defaults to 0.5 */
+  jitter?: number;
+  /** Decides whether a failed attempt is retried, defaults to `isTransientError` */
+  retryable?: (error: UnityError, attempt: number) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Interface representing a failed attempt of a retried operation.
+ * The attempts are recorded in the `attempts` entry of the context of the final error.
+ */
+export interface RetryAttempt {
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+  /** Code of the error the attempt failed with */
+  code: string;
+  message: string;
+  /** Exit code of the command, when the attempt failed with a UnityCommandError */
+  exitCode?: number;
+  /** Whether the failure was classified as transient */
+  retryable: boolean;
+  /** Time waited before the next attempt, if there is one */
+  delayMs?: number;
+  durationMs: number;
+}
+
+/**
+ * Options of the operations that can retry transient failures
+ */
+export interface RetryOptions {
+  /** Retry policy for transient failures such as license server, network or Unity Hub IPC errors; without it the operation runs once */
+  retry?: RetryPolicy;
+}
+
 //EDITOR
 
 export interface ProjectInfo {
   projectName: string;
   projectPath: string;
   editorVersion: string;
+  /** Changeset (revision hash) of the editor version, when known */
+  changeset?: string;
+}
+
+/**
+ * Editor version recorded in a project's `ProjectSettings/ProjectVersion.txt`
+ */
+export interface ProjectVersionInfo {
+  editorVersion: string;
+  changeset?: string;
 }
 
 //
@@ -170,6 +528,317 @@ export enum TestMode {
   PlayMode = "playmode",
 }
 
+/**
+ * Options for running tests with UnityEditor.runTests
+ */
+export interface TestRunOptions extends OperationOptions, RetryOptions {
+  /** Where to write the NUnit XML results, defaults to a temporary file that is removed after parsing */
+  testResultsPath?: string;
+}
+
+/**
+ * Options for creating a manual activation request
+ */
+export interface ManualActivationFileOptions extends OperationOptions {
+  /** Folder the `.alf` file is moved to, defaults to the current working directory */
+  outputDir?: string;
+}
+
+/**
+ * Interface representing a manual activation request (`.alf` file),
+ * to be uploaded to https://license.unity3d.com/manual on a machine with internet access
+ */
+export interface UnityManualActivationFile {
+  /** Path of the `.alf` file */
+  path: string;
+  /** XML contents of the file */
+  contents: string;
+}
+
+/**
+ * Enum for the kind of license a machine is activated with, from the editor entitlement of the license
+ */
+export enum UnityLicenseType {
+  Personal = "personal",
+  Plus = "plus",
+  Pro = "pro",
+  Enterprise = "enterprise",
+  Student = "student",
+  Educational = "educational",
+  Unknown = "unknown",
+}
+
+/**
+ * Interface representing an entitlement granted by a license, e.g. the editor itself or a feature such as the dark skin
+ */
+export interface UnityLicenseEntitlement {
+  /** Namespace of the entitlement, e.g. "unity_editor" */
+  namespace: string;
+  /** Name of the entitlement, e.g. "UnityPro" */
+  tag: string;
+  /** Kind of the entitlement, e.g. "EDITOR" or "EDITOR_FEATURE" */
+  type: string;
+  /** Date after which the entitlement is no longer granted */
+  validTo?: Date;
+}
+
+/**
+ * Interface representing the machine a license is bound to
+ */
+export interface UnityLicenseMachineBinding {
+  /** Identifier of the machine computed by Unity */
+  machineId?: string;
+  /** Hardware identifiers the license is bound to, keyed by Unity's binding number */
+  bindings: Record<string, string>;
+}
+
+/**
+ * Interface representing the license a machine is activated with, as read from the local license files.
+ * The serial number itself is never included, only its masked form.
+ */
+export interface UnityLicenseStatus {
+  /** Whether a license valid at the time of the check was found */
+  licensed: boolean;
+  /** Kind of license */
+  type: UnityLicenseType;
+  /** Serial number with its last characters masked, e.g. "E3-ABCD-EFGH-IJKL-MNOP-XXXX" */
+  serialMask?: string;
+  /** Date the license starts */
+  issuedAt?: Date;
+  /** Date the machine was first activated */
+  activatedAt?: Date;
+  /** Date the license was last updated from the license server */
+  updatedAt?: Date;
+  /** Date the license stops, undefined for licenses without an end date */
+  expiresAt?: Date;
+  /** Whether the license must reach the license server every time Unity starts */
+  alwaysOnline?: boolean;
+  /** Unity version that activated the license */
+  clientVersion?: string;
+  /** Machine the license is bound to */
+  machineBinding: UnityLicenseMachineBinding;
+  /** Entitlements of the license file and of the Licensing Client cache */
+  entitlements: UnityLicenseEntitlement[];
+  /** Path of the license file read, undefined if there is none */
+  licenseFile?: string;
+  /** Files of the Licensing Client entitlement cache that were read */
+  entitlementFiles: string[];
+}
+
+/**
+ * Options for reading the local license status
+ */
+export interface LicenseStatusOptions extends OperationOptions {
+  /** Path of the license file, defaults to the `Unity_lic.ulf` location of the platform */
+  licenseFile?: string;
+  /** Folder of the Licensing Client entitlement cache, defaults to the location of the platform */
+  entitlementsDir?: string;
+}
+
+/**
+ * Options for activating or returning a serial license
+ */
+export interface LicenseActivationOptions extends OperationOptions {
+  /** Runs Unity even when the local license status shows there is nothing to do */
+  force?: boolean;
+}
+
+/**
+ * Interface representing the `services-config.json` file that points the Unity Licensing Client to a Unity Licensing Server
+ * @link https://docs.unity.com/licensing/en-us/manual/ClientConfig
+ */
+export interface UnityServicesConfig {
+  /** URL of the licensing server, e.g. "http://licensing.example.com:8080" */
+  licensingServiceBaseUrl: string;
+  /** Whether the Licensing Client gets its licenses from the licensing server */
+  enableEntitlementLicensing?: boolean;
+  /** Whether the Licensing Client may lease floating licenses */
+  enableFloatingApi?: boolean;
+  /** Seconds the Licensing Client waits to connect to the licensing server */
+  clientConnectTimeoutSec?: number;
+  /** Seconds the Licensing Client waits for the licensing server to complete the handshake */
+  clientHandshakeTimeoutSec?: number;
+  /** Other settings, written as they are */
+  [key: string]: unknown;
+}
+
+/**
+ * Options for reading and writing the licensing server configuration
+ */
+export interface ServicesConfigOptions extends OperationOptions {
+  /** Path of `services-config.json`, defaults to the location of the platform */
+  configPath?: string;
+}
+
+/**
+ * Options for checking that the licensing server answers
+ */
+export interface LicensingServerStatusOptions extends ServicesConfigOptions {
+  /** URL of the licensing server, defaults to the one of the configuration file */
+  baseUrl?: string;
+  /** Milliseconds to wait for the answer, defaults to 10 seconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Interface representing the answer of a licensing server to a status request
+ */
+export interface UnityLicensingServerStatus {
+  /** URL the status was requested from */
+  url: string;
+  /** HTTP status code of the answer */
+  statusCode: number;
+  /** Body of the answer, parsed when it is JSON */
+  details: unknown;
+}
+
+/**
+ * Options for leasing a floating license
+ */
+export interface FloatingLicenseOptions extends OperationOptions, RetryOptions {
+  /** Path of the Unity Licensing Client executable, defaults to the one shipped with the editor */
+  licensingClientPath?: string;
+}
+
+/**
+ * Interface representing a floating license leased from a licensing server
+ */
+export interface UnityFloatingLease {
+  /** Token identifying the lease, needed to return it */
+  token: string;
+  /** Date the lease was acquired */
+  acquiredAt: Date;
+  /** Date the lease expires unless it is renewed, if reported by the Licensing Client */
+  expiresAt?: Date;
+  /** Licensing Client that acquired the lease */
+  licensingClientPath: string;
+}
+
+/**
+ * Enum for the reasons a license operation fails, set on the `reason` of a UnityLicenseError when known
+ */
+export enum UnityLicenseErrorReason {
+  /** The licensing server configuration is missing or invalid */
+  InvalidConfiguration = "invalidConfiguration",
+  /** The licensing server could not be reached or answered with an error */
+  ServerUnreachable = "serverUnreachable",
+  /** Every floating license of the licensing server is leased */
+  NoSeatsAvailable = "noSeatsAvailable",
+  /** The Unity Licensing Client executable was not found */
+  LicensingClientNotFound = "licensingClientNotFound",
+  /** A floating license could not be leased for another reason */
+  LeaseFailed = "leaseFailed",
+  /** A floating license could not be returned */
+  ReleaseFailed = "releaseFailed",
+}
+
+/**
+ * Enum for the result of a test, fixture or test run
+ * These values correspond to the result attribute of NUnit3 XML results
+ */
+export enum TestResultStatus {
+  Passed = "Passed",
+  Failed = "Failed",
+  Skipped = "Skipped",
+  Inconclusive = "Inconclusive",
+}
+
+/**
+ * Interface representing the result of a single test case
+ */
+export interface TestCaseResult {
+  /** Test name (e.g., "MovesForward") */
+  name: string;
+
+  /** Fully qualified test name (e.g., "MyGame.Tests.PlayerTests.MovesForward") */
+  fullName: string;
+
+  /** Fully qualified name of the class declaring the test */
+  className?: string;
+
+  /** Test result */
+  result: TestResultStatus;
+
+  /** Additional result label reported by NUnit (e.g., "Error", "Ignored", "Cancelled") */
+  label?: string;
+
+  /** Test duration in milliseconds */
+  duration: number;
+
+  /** Failure message, or the reason a test was skipped */
+  message?: string;
+
+  /** Stack trace of a failure */
+  stackTrace?: string;
+
+  /** Output written by the test */
+  output?: string;
+}
+
+/**
+ * Interface representing the results of a test fixture
+ */
+export interface TestFixtureResult {
+  /** Fixture name (e.g., "PlayerTests") */
+  name: string;
+
+  /** Fully qualified fixture name */
+  fullName: string;
+
+  /** Fixture result */
+  result: TestResultStatus;
+
+  /** Fixture duration in milliseconds */
+  duration: number;
+
+  /** Test cases of the fixture */
+  testCases: TestCaseResult[];
+}
+
+/**
+ * Interface representing a parsed NUnit test run
+ */
+export interface TestRunReport {
+  /** Overall result of the run */
+  result: TestResultStatus;
+
+  /** Number of test cases */
+  total: number;
+
+  /** Number of passed test cases */
+  passed: number;
+
+  /** Number of failed test cases */
+  failed: number;
+
+  /** Number of skipped test cases */
+  skipped: number;
+
+  /** Number of inconclusive test cases */
+  inconclusive: number;
+
+  /** Run duration in milliseconds */
+  duration: number;
+
+  /** Start time of the run as reported by NUnit */
+  startTime?: string;
+
+  /** End time of the run as reported by NUnit */
+  endTime?: string;
+
+  /** Results grouped by test fixture */
+  fixtures: TestFixtureResult[];
+
+  /** All failed test cases */
+  failedTests: TestCaseResult[];
+
+  /** Path of the NUnit XML file the report was read from */
+  resultsPath?: string;
+
+  /** Editor output of the test run */
+  output?: string;
+}
+
 /**
  * Enum for Unity build targets
  * These values correspond to the build target options used in Unity CLI commands
@@ -221,6 +890,149 @@ export enum UnityBuildTarget {
   VisionOS = "VisionOS",
 }
 
+/**
+ * Enum for Unity scripting backends
+ * These values correspond to the ScriptingImplementation names used by Unity
+ * @link https://docs.unity3d.com/ScriptReference/ScriptingImplementation.html
+ */
+export enum ScriptingBackend {
+  /** Mono scripting backend */
+  Mono = "Mono2x",
+
+  /** IL2CPP scripting backend */
+  IL2CPP = "IL2CPP",
+}
+
+/**
+ * Enum for the outcome of a player build
+ * These values correspond to Unity's BuildResult
+ * @link https://docs.unity3d.com/ScriptReference/Build.Reporting.BuildResult.html
+ */
+export enum UnityBuildOutcome {
+  Unknown = "Unknown",
+  Succeeded = "Succeeded",
+  Failed = "Failed",
+  Cancelled = "Cancelled",
+}
+
+/**
+ * Options for building a player with UnityEditor.build
+ */
+export interface UnityBuildOptions extends OperationOptions {
+  /** Build target to switch to and build for */
+  target: UnityBuildTarget;
+
+  /** Location of the built player (a file or folder, depending on the target) */
+  outputPath: string;
+
+  /** Whether to produce a development build */
+  development?: boolean;
+
+  /** Scripting backend to use, defaults to the one configured in the project */
+  scriptingBackend?: ScriptingBackend;
+
+  /** Additional command line arguments passed to the editor */
+  extraArgs?: string[];
+}
+
+/**
+ * Interface representing a file produced by a player build
+ */
+export interface UnityBuildOutputFile {
+  /** Absolute path to the file */
+  path: string;
+
+  /** Role of the file in the build (e.g., "Executable", "DebugInfo") */
+  role: string;
+
+  /** Size of the file in bytes */
+  size: number;
+}
+
+/**
+ * Interface representing the summary of a player build
+ */
+export interface UnityBuildReport {
+  /** Outcome reported by Unity */
+  outcome: UnityBuildOutcome;
+
+  /** Build duration in milliseconds */
+  duration: number;
+
+  /** Location of the built player */
+  outputPath: string;
+
+  /** Files produced by the build */
+  outputFiles: UnityBuildOutputFile[];
+
+  /** Total size of the build output in bytes */
+  totalSize: number;
+
+  /** Number of errors reported during the build */
+  totalErrors: number;
+
+  /** Number of warnings reported during the build */
+  totalWarnings: number;
+}
+
+/**
+ * Enum for the kinds of entries recognised in Unity Editor logs
+ */
+export enum UnityLogEntryType {
+  /** C# compiler error (e.g., "error CS0103") */
+  CompilerError = "compiler-error",
+
+  /** C# compiler warning (e.g., "warning CS0414") */
+  CompilerWarning = "compiler-warning",
+
+  /** Exception with its stack trace */
+  Exception = "exception",
+
+  /** Message from the Unity licensing system */
+  License = "license",
+}
+
+/**
+ * Enum for the severity of a Unity Editor log entry
+ */
+export enum UnityLogSeverity {
+  Info = "info",
+  Warning = "warning",
+  Error = "error",
+}
+
+/**
+ * Interface representing a diagnostic parsed from Unity Editor output or a log file
+ */
+export interface UnityLogEntry {
+  /** Kind of entry */
+  type: UnityLogEntryType;
+
+  /** Severity of the entry */
+  severity: UnityLogSeverity;
+
+  /** Message without location or code prefixes */
+  message: string;
+
+  /** Source file the entry refers to, relative to the project when reported that way by Unity */
+  file?: string;
+
+  /** Line in the source file */
+  line?: number;
+
+  /** Column in the source file */
+  column?: number;
+
+  /** Compiler diagnostic code (e.g., "CS0103") or exception type name */
+  code?: string;
+
+  /** Stack trace lines of an exception */
+  stackTrace?: string[];
+
+  /** Original log text the entry was parsed from */
+  raw: string;
+}
+
 /**
  * Enum for Unity installation statuses
  * These values correspond to the different states of a Unity installation process
@@ -235,6 +1047,8 @@ export enum InstallerStatus {
   Installing = "installing",
   Verifying = "verifying",
   Installed = "installed successfully",
+  Uninstalling = "uninstalling",
+  Uninstalled = "uninstalled successfully",
   Error = "Error",
 }
 
@@ -249,6 +1063,81 @@ export interface InstallerEvent {
   error?: string | null;
 }
 
+/**
+ * Enum for the Unity Hub operations run through the install queue
+ */
+export enum InstallJobOperation {
+  InstallEditor = "install-editor",
+  AddModules = "add-modules",
+  RemoveEditor = "remove-editor",
+  RemoveModules = "remove-modules",
+}
+
+/**
+ * Enum for the state of a job in the install queue
+ */
+export enum InstallJobState {
+  /** Waiting for the jobs before it to finish */
+  Queued = "queued",
+  /** Unity Hub is running the job */
+  Running = "running",
+}
+
+/**
+ * Interface representing a pending Unity Hub operation in the install queue
+ */
+export interface InstallJob {
+  /** Identifier of the job, unique for the process */
+  id: number;
+
+  operation: InstallJobOperation;
+
+  version: string;
+
+  /** Modules installed or removed by the job, including those merged from duplicate requests */
+  modules: ModuleId[];
+
+  architecture?: EditorArchitecture;
+
+  /** Whether child modules are installed along with the modules */
+  childModules?: boolean;
+
+  state: InstallJobState;
+
+  queuedAt: Date;
+
+  startedAt?: Date;
+}
+
+/**
+ * Options for {@link UnityHub.ensureEditor}
+ */
+export interface EnsureEditorOptions extends OperationOptions, RetryOptions {
+  /** Called with the progress of the installations started to reach the desired state */
+  onProgress?: (events: InstallerEvent[]) => void;
+}
+
+/**
+ * Summary of what {@link UnityHub.ensureEditor} found and changed
+ */
+export interface EnsureEditorResult {
+  version: string;
+
+  /** Path to the editor as reported by Unity Hub */
+  path: string;
+
+  architecture?: EditorArchitecture;
+
+  /** Whether the editor was installed by this call */
+  installedEditor: boolean;
+
+  /** Requested modules installed by this call */
+  installedModules: ModuleId[];
+
+  /** Requested modules that were already installed */
+  existingModules: ModuleId[];
+}
+
 /**
  * Enum for installer event types
  * These values correspond to the different types of events that can occur during the installation process
@@ -259,3 +1148,126 @@ export enum InstallerEventType {
   Completed = "completed",
   Cancelled = "cancelled",
 }
+
+/**
+ * Enum for the origin of a streamed Unity Editor log line
+ */
+export enum EditorLogSource {
+  Stdout = "stdout",
+  Stderr = "stderr",
+  LogFile = "logFile",
+}
+
+/**
+ * Interface representing a line streamed from a running Unity Editor
+ * Contains the raw line and the diagnostics it completed
+ */
+export interface EditorLogLine {
+  line: string;
+  source: EditorLogSource;
+  entries: UnityLogEntry[];
+}
+
+/**
+ * Enum for editor log stream event types
+ * These values correspond to the different types of events emitted while streaming an editor command
+ */
+export enum EditorLogEventType {
+  Line = "line",
+  Entry = "entry",
+  Exit = "exit",
+  Error = "error",
+}
+
+//PACKAGES
+
+/**
+ * Interface representing a scoped registry declared in `Packages/manifest.json`
+ * @link https://docs.unity3d.com/Manual/upm-scoped.html
+ */
+export interface ScopedRegistry {
+  name: string;
+  url: string;
+  scopes: string[];
+}
+
+/**
+ * Interface representing the contents of `Packages/manifest.json`
+ * Unknown top level fields are kept as they are when the manifest is written back
+ * @link https://docs.unity3d.com/Manual/upm-manifestPrj.html
+ */
+export interface UnityPackageManifest {
+  dependencies: Record<string, string>;
+  scopedRegistries?: ScopedRegistry[];
+  testables?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Enum for the origin of a package resolved by the Unity Package Manager
+ */
+export enum PackageSource {
+  Registry = "registry",
+  BuiltIn = "builtin",
+  Embedded = "embedded",
+  Local = "local",
+  LocalTarball = "local-tarball",
+  Git = "git",
+}
+
+/**
+ * Interface representing a package entry of `Packages/packages-lock.json`
+ */
+export interface PackageLockEntry {
+  version: string;
+  depth: number;
+  source: PackageSource;
+  /** Packages the package depends on, missing from the entries of some packages */
+  dependencies?: Record<string, string>;
+  url?: string;
+  hash?: string;
+}
+
+/**
+ * Interface representing the contents of `Packages/packages-lock.json`
+ */
+export interface PackagesLock {
+  dependencies: Record<string, PackageLockEntry>;
+}
+
+/**
+ * Interface representing a package of the resolved dependency graph
+ * `depth` is 0 for packages listed in the manifest and grows with each level of indirection
+ */
+export interface ResolvedPackage extends PackageLockEntry {
+  name: string;
+  /** Packages the package depends on, empty if it has none */
+  dependencies: Record<string, string>;
+  /** Names of the resolved packages that depend on this package */
+  dependents: string[];
+}
+
+//VERSIONS
+
+/**
+ * Enum for the release type suffix of a Unity version (the "f" in 2022.3.60f1)
+ */
+export enum UnityReleaseType {
+  Experimental = "x",
+  Alpha = "a",
+  Beta = "b",
+  Final = "f",
+  China = "c",
+  Patch = "p",
+}
+
+/**
+ * Enum for the release streams Unity versions are published in
+ * @link https://unity.com/releases/editor/archive
+ */
+export enum UnityReleaseStream {
+  LTS = "lts",
+  Tech = "tech",
+  Beta = "beta",
+  Alpha = "alpha",
+}
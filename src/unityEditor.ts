@@ -1,9 +1,48 @@
 import os from "os";
 import fs from "fs-extra";
 import path from "path";
-import { ProjectInfo, TestMode, UnityBuildTarget, UnityEditorInfo } from "./types/unity.js";
+import {
+  EditorLogSource,
+  LicenseActivationOptions,
+  LicenseStatusOptions,
+  ManualActivationFileOptions,
+  OperationOptions,
+  ProjectInfo,
+  ResolvedUnityEditor,
+  RetryOptions,
+  TestMode,
+  TestResultStatus,
+  TestRunOptions,
+  TestRunReport,
+  UnityBuildOptions,
+  UnityBuildOutcome,
+  UnityBuildOutputFile,
+  UnityBuildReport,
+  UnityBuildTarget,
+  UnityEditorInfo,
+  UnityEditorSource,
+  UnityLicenseStatus,
+  UnityLogEntry,
+  UnityManualActivationFile,
+} from "./types/unity.js";
 import { CommandOptions, CommandOutput, executeCommand } from "./utils/commandExecutor.js";
-import { redactSensitiveArgs } from "./utils/security.js";
+import {
+  BUILD_ENTRY_POINT_FOLDER,
+  BUILD_ENTRY_POINT_METHOD,
+  BUILD_ENTRY_POINT_SOURCE,
+} from "./editor/buildEntryPoint.js";
+import { UnityEditorLogParser } from "./events/editorLogParser.js";
+import { UnityEditorLogStream } from "./events/editorLogEmitter.js";
+import { tailFile } from "./utils/fileTail.js";
+import { UnityTestResultsParser } from "./utils/testResultsParser.js";
+import { UnityLicenseFile } from "./utils/licenseFile.js";
+import { UnityProjectSettings } from "./utils/projectSettings.js";
+import UnityHub from "./unityHub.js";
+import { UnityVersion } from "./utils/unityVersion.js";
+import { withRetry } from "./utils/retry.js";
+import { isExecutableAvailable } from "./utils/commandRunner.js";
+import { readEditorVersion } from "./utils/editorInstallation.js";
+import { getLogger } from "./utils/logger.js";
 import {
   Result,
   ok,
@@ -14,6 +53,8 @@ import {
   UnityLicenseError,
   UnityPackageError,
   UnityProjectError,
+  UnityBuildError,
+  UnityCancelledError,
 } from "./errors/index.js";
 
 /**
@@ -50,10 +91,44 @@ class UnityEditor {
     },
   };
 
+  /**
+   * Editors found by {@link UnityEditor.resolveEditor}, keyed by version
+   * @private
+   */
+  private static editorCache: Map<string, ResolvedUnityEditor> = new Map();
+
+  /**
+   * Install location configured in Unity Hub, null if Unity Hub is not available
+   * @private
+   */
+  private static hubInstallPath: Promise<string | null> | null = null;
+
+  /**
+   * Messages Unity logs when a manual license file cannot be activated
+   * @internal
+   */
+  private static MANUAL_LICENSE_FAILURES: RegExp[] = [
+    /failed to (activate|load|update|parse) (the )?license/i,
+    /license activation failed/i,
+    /invalid license file/i,
+    /license (file )?is (invalid|not valid|corrupt)/i,
+    /machine bindings don't match/i,
+  ];
+
+  /**
+   * Messages Unity logs once a manual license file is activated
+   * @internal
+   */
+  private static MANUAL_LICENSE_SUCCESSES: RegExp[] = [
+    /successfully (activated|loaded|processed)[^\n]*licen[sc]e/i,
+    /next license update check is after/i,
+  ];
+
   /**
    * Resolves the platform-specific path to the Unity executable for a given version.
    * This function detects the current operating system and combines the appropriate
    * base path with the version-specific subdirectory and executable location.
+   * Editors installed elsewhere are found by {@link UnityEditor.resolveEditor}.
    *
    * @public
    * @static
@@ -90,13 +165,292 @@ class UnityEditor {
    */
   public static async isUnityVersionInstalled(version: string): Promise<boolean> {
     try {
-      const unityPath = this.getUnityExecutablePath(version);
-      return await fs.pathExists(unityPath);
+      const result = await this.resolveEditor({ version });
+      return result.success;
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Finds the executable of a Unity editor version. The following locations are checked in order,
+   * and the first existing executable is used:
+   * 1. The `path` of the editor info (the executable or the editor install folder)
+   * 2. The UNITY_EDITOR_PATH environment variable, either an editor executable or a folder containing one folder per version.
+   *    An executable recording another version, in its metadata or the Unity Hub folder it is in, is skipped
+   * 3. The install location configured in Unity Hub
+   * 4. The editors recorded in the Unity Hub editor registry, including manually located ones
+   * 5. The default install location of the platform
+   *
+   * The version may also be a range such as "2022.3.x" or ">=2021.3" (see {@link UnityVersion}),
+   * in which case the newest installed editor matching it is used.
+   *
+   * Editors found without an explicit path are cached by version, ranges are resolved again every time; use {@link UnityEditor.clearEditorCache} after installing or moving editors.
+   * Whether an executable exists is asked to the command runner, so a scripted or replaying runner can stand in for an editor
+   * that is not installed.
+   *
+   * @public
+   * @static
+   * @param {UnityEditorInfo} editorInfo - The editor version or version range and optional explicit path
+   * @param {OperationOptions} [options={}] - Operation options (e.g., the runner the editor will be run with)
+   * @returns {Promise<Result<ResolvedUnityEditor>>} Result containing the executable path, the concrete version
+   *                                                 and the source it was found in, or not found error
+   * @example
+   * const result = await UnityEditor.resolveEditor({ version: "2022.3.15f1" });
+   * if (result.success) {
+   *   console.log(`Found ${result.value.path} (${result.value.source})`);
+   * }
+   */
+  public static async resolveEditor(
+    editorInfo: UnityEditorInfo,
+    options: OperationOptions = {}
+  ): Promise<Result<ResolvedUnityEditor, UnityEditorNotFoundError>> {
+    const { version } = editorInfo;
+
+    if (editorInfo.path) {
+      const explicitPath = await this.findExecutable(editorInfo.path, options);
+      return explicitPath
+        ? ok({ version, path: explicitPath, source: UnityEditorSource.Explicit })
+        : err(new UnityEditorNotFoundError(version, editorInfo.path));
+    }
+
+    const cached = this.editorCache.get(version);
+    if (cached && fs.existsSync(cached.path)) {
+      return ok(cached);
+    }
+
+    if (!UnityVersion.isVersion(version)) {
+      const installed = UnityVersion.isValidRange(version)
+        ? UnityVersion.findBest(await this.listInstalledVersions(options), version)
+        : null;
+
+      if (!installed) {
+        return err(new UnityEditorNotFoundError(version));
+      }
+
+      // Only the concrete version is cached, so an editor matching the range installed later is picked up
+      return this.resolveEditor({ version: installed }, options);
+    }
+
+    const searched: string[] = [];
+    const check = async (
+      candidate: string | undefined,
+      source: UnityEditorSource
+    ): Promise<ResolvedUnityEditor | null> => {
+      if (!candidate) return null;
+      searched.push(candidate);
+      const executable = await this.findExecutable(candidate, options);
+      return executable ? { version, path: executable, source } : null;
+    };
+
+    const envPath = process.env.UNITY_EDITOR_PATH;
+    // A file is a single editor, used for the version it is; a folder holds one editor folder per version
+    const envIsExecutable = !!envPath && !!fs.statSync(envPath, { throwIfNoEntry: false })?.isFile();
+    let envCandidate = envPath && !envIsExecutable ? path.join(envPath, version) : envPath;
+
+    if (envCandidate && envIsExecutable) {
+      const envVersion = await readEditorVersion(envCandidate);
+      if (envVersion && UnityVersion.compare(envVersion, version) !== 0) {
+        getLogger().debug(`UNITY_EDITOR_PATH is Unity ${envVersion}, looking further for Unity ${version}`, {
+          path: envCandidate,
+        });
+        searched.push(envCandidate);
+        envCandidate = undefined;
+      }
+    }
+
+    const platformConfig = this.UNITY_PATHS[os.platform() as keyof typeof UnityEditor.UNITY_PATHS];
+    const inHubInstallPath = async (): Promise<string | undefined> => {
+      const hubInstallPath = await this.getHubInstallPath(options);
+      return hubInstallPath ? path.join(hubInstallPath, version) : undefined;
+    };
+
+    const resolved =
+      (await check(envCandidate, UnityEditorSource.Environment)) ??
+      (await check(await inHubInstallPath(), UnityEditorSource.HubInstallPath)) ??
+      (await check(await this.getHubRegistryLocation(version), UnityEditorSource.HubRegistry)) ??
+      (await check(path.join(platformConfig.base, version), UnityEditorSource.PlatformDefault));
+
+    if (!resolved) {
+      return err(new UnityEditorNotFoundError(version, this.getUnityExecutablePath(version), searched));
+    }
+
+    getLogger().debug(`Found Unity ${version}`, { path: resolved.path, source: resolved.source });
+    this.editorCache.set(version, resolved);
+    return ok(resolved);
+  }
+
+  /**
+   * Forgets the editors found by {@link UnityEditor.resolveEditor}, so they are searched again on next use,
+   * along with what was learned about the installed Unity Hub (see {@link UnityHub.clearCache}).
+   *
+   * @public
+   * @static
+   * @returns {void}
+   */
+  public static clearEditorCache(): void {
+    this.editorCache.clear();
+    this.hubInstallPath = null;
+    UnityHub.clearCache();
+  }
+
+  /**
+   * Finds the editor executable for a location, which may be the executable itself,
+   * an editor install folder, the folder containing the executable or a macOS app bundle.
+   * The location itself is only taken as the executable when it is a file or is named like one, as runners
+   * that do not start processes report every path as available.
+   *
+   * @private
+   * @static
+   * @param {string} location - The location to check
+   * @param {OperationOptions} options - Operation options holding the runner asked whether executables exist
+   * @returns {Promise<string | null>} Path to the executable, or null if none exists there
+   */
+  private static async findExecutable(location: string, options: OperationOptions): Promise<string | null> {
+    const { executable } = this.UNITY_PATHS[os.platform() as keyof typeof UnityEditor.UNITY_PATHS];
+    const name = path.basename(executable);
+
+    if (fs.statSync(location, { throwIfNoEntry: false })?.isFile()) {
+      return location;
+    }
+
+    const candidates = [
+      ...(path.basename(location) === name ? [location] : []),
+      path.join(location, executable),
+      path.join(location, name),
+      path.join(location, "Contents", "MacOS", name),
+    ];
+
+    for (const candidate of candidates) {
+      if (await isExecutableAvailable(candidate, options.runner)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the install location configured in Unity Hub, asking Unity Hub only once until the cache is cleared.
+   * Operations given their own runner ask it every time, without caching its answer.
+   *
+   * @private
+   * @static
+   * @param {OperationOptions} options - Operation options holding the runner Unity Hub is run with
+   * @returns {Promise<string | null>} The install location, or null if Unity Hub is not available
+   */
+  private static async getHubInstallPath(options: OperationOptions): Promise<string | null> {
+    const query = async (): Promise<string | null> => {
+      if (!(await UnityHub.isUnityHubAvailable({ runner: options.runner }))) {
+        return null;
+      }
+
+      const result = await UnityHub.getInstallPath({ runner: options.runner });
+      return result.success && result.value ? result.value : null;
+    };
+
+    if (options.runner) {
+      return query();
+    }
+
+    this.hubInstallPath ??= query();
+    return this.hubInstallPath;
+  }
+
+  /**
+   * Lists the editor versions found in the searched locations, used to resolve version ranges.
+   *
+   * @private
+   * @static
+   * @param {OperationOptions} options - Operation options holding the runner asked whether executables exist
+   * @returns {Promise<string[]>} The versions of the installed editors
+   */
+  private static async listInstalledVersions(options: OperationOptions): Promise<string[]> {
+    const envPath = process.env.UNITY_EDITOR_PATH;
+    const platformConfig = this.UNITY_PATHS[os.platform() as keyof typeof UnityEditor.UNITY_PATHS];
+    const roots = [envPath, await this.getHubInstallPath(options), platformConfig.base];
+    const versions = new Set<string>();
+
+    for (const root of roots) {
+      if (!root || !fs.statSync(root, { throwIfNoEntry: false })?.isDirectory()) continue;
+
+      for (const entry of await fs.readdir(root)) {
+        if (UnityVersion.isVersion(entry) && (await this.findExecutable(path.join(root, entry), options))) {
+          versions.add(entry);
+        }
+      }
+    }
+
+    const registered = await UnityHub.getRegisteredEditors();
+    if (registered.success) {
+      Object.keys(registered.value).forEach((version) => versions.add(version));
+    }
+
+    return [...versions];
+  }
+
+  /**
+   * Gets the location recorded for a version in the Unity Hub editor registry.
+   *
+   * @private
+   * @static
+   * @param {string} version - The editor version
+   * @returns {Promise<string | undefined>} The recorded location, or undefined if the version is not registered
+   */
+  private static async getHubRegistryLocation(version: string): Promise<string | undefined> {
+    const result = await UnityHub.getRegisteredEditors();
+    return result.success ? result.value[version] : undefined;
+  }
+
+  /**
+   * Builds the project information for an existing Unity project from its folder.
+   * The editor version and changeset are read from `ProjectSettings/ProjectVersion.txt`
+   * and the project name from the product name in `ProjectSettings/ProjectSettings.asset`,
+   * falling back to the folder name.
+   *
+   * @public
+   * @static
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {Promise<Result<ProjectInfo>>} Result containing the project information or project error
+   * @example
+   * const result = await UnityEditor.resolveProject("/path/to/project");
+   *
+   * if (result.success) {
+   *   await UnityEditor.runTests(result.value, TestMode.EditMode);
+   * }
+   */
+  public static async resolveProject(projectPath: string): Promise<Result<ProjectInfo, UnityProjectError>> {
+    const resolvedPath = path.resolve(projectPath);
+
+    try {
+      if (!(await fs.pathExists(resolvedPath))) {
+        return err(new UnityProjectError(`Project folder not found: ${resolvedPath}`, { projectPath: resolvedPath }));
+      }
+
+      const versionInfo = await UnityProjectSettings.readProjectVersion(resolvedPath);
+      if (!versionInfo) {
+        return err(
+          new UnityProjectError(
+            `Not a Unity project: ${UnityProjectSettings.getProjectVersionPath(resolvedPath)} is missing or has no m_EditorVersion`,
+            { projectPath: resolvedPath }
+          )
+        );
+      }
+
+      const productName = await UnityProjectSettings.readProductName(resolvedPath);
+
+      return ok({
+        projectName: productName ?? path.basename(resolvedPath),
+        projectPath: resolvedPath,
+        ...versionInfo,
+      });
+    } catch (error) {
+      return err(
+        new UnityProjectError(`Error reading project settings: ${String(error)}`, { projectPath: resolvedPath })
+      );
+    }
+  }
+
   /**
    * Executes an arbitrary Unity Editor command with the provided arguments.
    * This low-level function serves as the foundation for all other Unity operations,
@@ -116,19 +470,118 @@ class UnityEditor {
     editorInfo: UnityEditorInfo,
     args: string[],
     options: CommandOptions = {}
-  ): Promise<Result<CommandOutput, UnityEditorNotFoundError | UnityCommandError>> {
-    const unityPath = this.getUnityExecutablePath(editorInfo.version);
+  ): Promise<Result<CommandOutput, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError>> {
+    const editor = await this.resolveEditor(editorInfo, options);
+
+    if (!editor.success) {
+      return editor;
+    }
+
+    const unityPath = editor.value.path;
+
+    const editorArgs = [...args];
+    const result = await executeCommand(unityPath, editorArgs, options);
+
+    if (!result.success) {
+      if (result.error instanceof UnityCancelledError) {
+        return err(result.error);
+      }
+
+      const { message, stdout, stderr, exitCode, context } = result.error;
+      return err(new UnityCommandError(message, stdout, stderr, exitCode, context, this.getDiagnostics(result.error)));
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses the diagnostics of an editor command, attached to every error built from its output
+   *
+   * @private
+   * @static
+   * @param {Pick<CommandOutput, "stdout" | "stderr">} output - The output of the command
+   * @returns {UnityLogEntry[]} The compiler errors, exceptions and licensing messages found in the output
+   */
+  private static getDiagnostics(output: Pick<CommandOutput, "stdout" | "stderr">): UnityLogEntry[] {
+    return UnityEditorLogParser.parse(`${output.stdout}\n${output.stderr}`);
+  }
+
+  /**
+   * Starts a Unity Editor command and streams its log while it runs, instead of buffering all output until exit.
+   * If the arguments contain `-logFile <path>`, that file is followed as Unity writes it; otherwise
+   * `-logFile -` is added so the editor writes its log to stdout, which is streamed line by line.
+   *
+   * @public
+   * @static
+   * @param {UnityEditorInfo} editorInfo - Information about the Unity editor to use
+   * @param {string[]} args - Array of command-line arguments to pass to the Unity Editor
+   * @param {CommandOptions} [options={}] - Execution options for command handling
+   * @returns {Promise<Result<UnityEditorLogStream>>} Result containing the log stream of the running command or error
+   * @example
+   * // Forward the log of a long batchmode job to the CI console as it happens
+   * const result = await UnityEditor.streamUnityEditorCommand(
+   *   { version: "2022.3.15f1" },
+   *   ["-batchmode", "-quit", "-projectPath", "/path/to/project", "-executeMethod", "Build.Perform"]
+   * );
+   *
+   * if (result.success) {
+   *   for await (const { line, entries } of result.value) {
+   *     console.log(line);
+   *     entries.forEach((entry) => console.warn(`[${entry.severity}] ${entry.message}`));
+   *   }
+   * }
+   */
+  public static async streamUnityEditorCommand(
+    editorInfo: UnityEditorInfo,
+    args: string[],
+    options: CommandOptions = {}
+  ): Promise<Result<UnityEditorLogStream, UnityEditorNotFoundError>> {
+    const editor = await this.resolveEditor(editorInfo, options);
 
-    if (!fs.existsSync(unityPath)) {
-      return err(new UnityEditorNotFoundError(editorInfo.version, unityPath));
+    if (!editor.success) {
+      return editor;
     }
 
+    const stream = new UnityEditorLogStream();
     const editorArgs = [...args];
-    const redactedArgs = redactSensitiveArgs(editorArgs);
+    const logFileIndex = editorArgs.indexOf("-logFile");
+    let logFile: string | undefined;
+
+    if (logFileIndex === -1) {
+      editorArgs.push("-logFile", "-");
+    } else if (editorArgs[logFileIndex + 1] !== "-") {
+      logFile = path.resolve(editorArgs[logFileIndex + 1]);
+      await fs.remove(logFile);
+    }
+
+    const tail = logFile ? tailFile(logFile, (line) => stream.Line(line, EditorLogSource.LogFile)) : null;
 
-    console.debug(`Executing Unity Editor command: ${unityPath} ${redactedArgs.join(" ")}`);
+    this.execUnityEditorCommand({ ...editorInfo, path: editor.value.path }, editorArgs, {
+      ...options,
+      reject: false,
+      onStdout: (line: string) => {
+        if (!tail) stream.Line(line, EditorLogSource.Stdout);
+        options.onStdout?.(line);
+      },
+      onStderr: (line: string) => {
+        stream.Line(line, EditorLogSource.Stderr);
+        options.onStderr?.(line);
+      },
+    })
+      .then(async (result) => {
+        await tail?.stop();
+        if (result.success) {
+          stream.Exit(result.value);
+        } else {
+          stream.Fail(result.error);
+        }
+      })
+      .catch((error) => {
+        getLogger(options.logger).error("Error streaming Unity Editor command", { error });
+        stream.Fail(new UnityCommandError(`Error streaming Unity Editor command: ${String(error)}`));
+      });
 
-    return await executeCommand(unityPath, editorArgs, options);
+    return ok(stream);
   }
 
   /**
@@ -158,32 +611,29 @@ class UnityEditor {
     method: string,
     args: string[] = [],
     options: CommandOptions = {}
-  ): Promise<Result<CommandOutput, UnityEditorNotFoundError | UnityCommandError>> {
-    console.debug(`Executing method ${method} in Unity Editor`);
+  ): Promise<Result<CommandOutput, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError>> {
+    const logger = getLogger(options.logger);
+    logger.debug(`Executing method ${method}`, { projectPath: projectInfo.projectPath });
 
-    const unityPath = this.getUnityExecutablePath(projectInfo.editorVersion);
     const editorArgs = ["-projectPath", projectInfo.projectPath, "-executeMethod", method, ...args];
 
-    const result = await this.execUnityEditorCommand(
-      { version: projectInfo.editorVersion, path: unityPath },
-      editorArgs,
-      options
-    );
+    const result = await this.execUnityEditorCommand({ version: projectInfo.editorVersion }, editorArgs, options);
 
     if (!result.success) {
-      console.error(`Error executing method: ${result.error.message}`);
+      logger.error(`Error executing method ${method}`, { error: result.error });
       return result;
     }
 
     if (result.value.stderr) {
-      console.error(`Error executing method: ${result.value.stderr}`);
+      logger.error(`Error executing method ${method}`, { stderr: result.value.stderr });
       return err(
         new UnityCommandError(
           `Error executing method ${method}: ${result.value.stderr}`,
           result.value.stdout,
           result.value.stderr,
           result.value.exitCode,
-          { method, projectInfo }
+          { method, projectInfo },
+          this.getDiagnostics(result.value)
         )
       );
     }
@@ -191,6 +641,208 @@ class UnityEditor {
     return result;
   }
 
+  /**
+   * Builds a player for the given target using a bundled build entry point.
+   * The entry point is copied into the project for the duration of the build, switches to the
+   * requested build target, builds every scene enabled in the Build Settings and reports the
+   * outcome back, so no project-specific build script is required.
+   *
+   * @public
+   * @static
+   * @param {ProjectInfo} projectInfo - Information about the project to build
+   * @param {UnityBuildOptions} buildOptions - Build configuration:
+   *                                         - target: Build target to build for
+   *                                         - outputPath: Location of the built player
+   *                                         - development: Whether to produce a development build
+   *                                         - scriptingBackend: Optional scripting backend override
+   *                                         - extraArgs: Additional editor command line arguments
+   *                                         - signal: AbortSignal that cancels the build
+   * @returns {Promise<Result<UnityBuildReport>>} Result containing the build report, or UnityBuildError if the build failed
+   * @example
+   * // Build a development Windows player with IL2CPP
+   * const result = await UnityEditor.build(
+   *   { projectPath: "/path/to/project", editorVersion: "2022.3.15f1", projectName: "MyGame" },
+   *   {
+   *     target: UnityBuildTarget.StandaloneWindows64,
+   *     outputPath: "/path/to/builds/MyGame.exe",
+   *     development: true,
+   *     scriptingBackend: ScriptingBackend.IL2CPP,
+   *   }
+   * );
+   *
+   * if (result.success) {
+   *   console.log(`Built ${result.value.outputFiles.length} files (${result.value.totalSize} bytes)`);
+   * } else {
+   *   console.error("Build failed:", result.error.message);
+   * }
+   */
+  public static async build(
+    projectInfo: ProjectInfo,
+    buildOptions: UnityBuildOptions
+  ): Promise<Result<UnityBuildReport, UnityEditorNotFoundError | UnityCancelledError | UnityBuildError>> {
+    const { target, development = false, scriptingBackend, extraArgs = [], signal } = buildOptions;
+    const outputPath = path.resolve(buildOptions.outputPath);
+    const logger = getLogger(buildOptions.logger);
+
+    logger.debug(`Building ${target} player`, { projectPath: projectInfo.projectPath });
+
+    const entryPointDir = path.join(projectInfo.projectPath, "Assets", BUILD_ENTRY_POINT_FOLDER);
+    const entryPointFile = path.join(entryPointDir, "Editor", "BuildEntryPoint.cs");
+    const reportPath = path.join(os.tmpdir(), `unity-build-report-${process.pid}-${Date.now()}.json`);
+    const startTime = Date.now();
+    // Outermost path copied into the project, so that files the project already had are left in place
+    let copiedPath: string | undefined;
+
+    try {
+      for (const candidate of [entryPointDir, path.dirname(entryPointFile), entryPointFile]) {
+        if (!(await fs.pathExists(candidate))) {
+          copiedPath = candidate;
+          break;
+        }
+      }
+
+      await fs.outputFile(entryPointFile, BUILD_ENTRY_POINT_SOURCE);
+      await fs.ensureDir(path.dirname(outputPath));
+
+      const args = [
+        "-batchmode",
+        "-quit",
+        "-projectPath",
+        projectInfo.projectPath,
+        "-buildTarget",
+        target,
+        "-executeMethod",
+        BUILD_ENTRY_POINT_METHOD,
+        "-cliOutputPath",
+        outputPath,
+        "-cliReportPath",
+        reportPath,
+      ];
+
+      if (development) {
+        args.push("-cliDevelopment");
+      }
+
+      if (scriptingBackend) {
+        args.push("-cliScriptingBackend", scriptingBackend);
+      }
+
+      args.push(...extraArgs);
+
+      const editorInfo = { version: projectInfo.editorVersion };
+      const result = await this.execUnityEditorCommand(editorInfo, args, {
+        reject: false,
+        signal,
+        logger,
+        runner: buildOptions.runner,
+      });
+
+      if (!result.success) {
+        if (result.error instanceof UnityEditorNotFoundError || result.error instanceof UnityCancelledError) {
+          return err(result.error);
+        }
+
+        return err(
+          new UnityBuildError(`Failed to build ${target} player: ${result.error.message}`, undefined, {
+            projectInfo,
+            buildOptions,
+            stderr: result.error.stderr,
+            stdout: result.error.stdout,
+          })
+        );
+      }
+
+      const { stdout, stderr, exitCode } = result.value;
+      const report = await this.readBuildReport(reportPath, outputPath, Date.now() - startTime);
+
+      if (!report) {
+        return err(
+          new UnityBuildError(`Build did not produce a report (exit code ${exitCode})`, undefined, {
+            projectInfo,
+            buildOptions,
+            exitCode,
+            stderr,
+            stdout,
+          })
+        );
+      }
+
+      if (report.outcome !== UnityBuildOutcome.Succeeded) {
+        return err(
+          new UnityBuildError(`Build ${report.outcome.toLowerCase()} with ${report.totalErrors} error(s)`, report, {
+            projectInfo,
+            buildOptions,
+            exitCode,
+            stderr,
+            stdout,
+          })
+        );
+      }
+
+      logger.debug(`Successfully built ${target} player`, { outputPath });
+      return ok(report);
+    } catch (error) {
+      logger.error("Error building player", { error });
+      return err(
+        new UnityBuildError(`Error building player: ${String(error)}`, undefined, { projectInfo, buildOptions })
+      );
+    } finally {
+      const cleanupPaths = copiedPath ? [copiedPath, `${copiedPath}.meta`, reportPath] : [reportPath];
+
+      for (const cleanupPath of cleanupPaths) {
+        try {
+          await fs.remove(cleanupPath);
+        } catch (error) {
+          logger.warn("Error removing build file", { path: cleanupPath, error });
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the JSON report written by the bundled build entry point.
+   *
+   * @private
+   * @static
+   * @param {string} reportPath - Path of the JSON report
+   * @param {string} outputPath - Requested output path, used when the report does not contain one
+   * @param {number} elapsed - Measured wall clock time, used when the report does not contain a duration
+   * @returns {Promise<UnityBuildReport | null>} The parsed report, or null if no report was written
+   *
+   * @internal
+   */
+  private static async readBuildReport(
+    reportPath: string,
+    outputPath: string,
+    elapsed: number
+  ): Promise<UnityBuildReport | null> {
+    if (!(await fs.pathExists(reportPath))) {
+      return null;
+    }
+
+    const data = await fs.readJson(reportPath);
+    const outcome = Object.values(UnityBuildOutcome).includes(data.result)
+      ? (data.result as UnityBuildOutcome)
+      : UnityBuildOutcome.Unknown;
+    const outputFiles: UnityBuildOutputFile[] = (data.files ?? []).map(
+      (file: { path: string; role: string; size: number }) => ({
+        path: file.path,
+        role: file.role,
+        size: Number(file.size),
+      })
+    );
+
+    return {
+      outcome,
+      duration: data.durationMs ?? elapsed,
+      outputPath: data.outputPath ?? outputPath,
+      outputFiles,
+      totalSize: Number(data.totalSize ?? outputFiles.reduce((total, file) => total + file.size, 0)),
+      totalErrors: data.totalErrors ?? 0,
+      totalWarnings: data.totalWarnings ?? 0,
+    };
+  }
+
   /**
    * Runs Unity test suites via command line in either EditMode or PlayMode.
    * This function enables automated testing of Unity projects as part of CI/CD pipelines,
@@ -204,7 +856,12 @@ class UnityEditor {
    *                                      - TestMode.PlayMode: Run tests with the editor in play mode
    *                                      - Or specify a build target (e.g., UnityBuildTarget.StandaloneWindows64)
    * @param {string} [testCategory] - Optional category filter to run only tests with the specified category attribute
-   * @returns {Promise<Result<string>>} Result containing test output if all tests passed, or UnityTestError if tests failed
+   * @param {TestRunOptions} [options={}] - Test run options:
+   *                                      - testResultsPath: Where to keep the NUnit XML results; a temporary file is used and removed otherwise
+   *                                      - signal: AbortSignal that cancels the test run
+   *                                      - retry: Retry policy for runs that fail transiently, e.g. when the license server cannot be reached;
+   *                                        failing tests are never retried
+   * @returns {Promise<Result<TestRunReport>>} Result containing the parsed test report if all tests passed, or UnityTestError if tests failed
    * @example
    * // Run all PlayMode tests in the "Performance" category
    * const result = await UnityEditor.runTests(
@@ -214,57 +871,114 @@ class UnityEditor {
    * );
    *
    * if (result.success) {
-   *   console.log("All tests passed! Output:", result.value);
+   *   console.log(`All ${result.value.total} tests passed in ${result.value.duration}ms`);
    * } else {
    *   console.error("Tests failed:", result.error.message);
-   *   console.error("Test output:", result.error.testOutput);
+   *   if (result.error instanceof UnityTestError) {
+   *     result.error.failedTests.forEach((test) => console.error(test.fullName, test.message));
+   *   }
    * }
    */
   public static async runTests(
     projectInfo: ProjectInfo,
     testPlatform: TestMode | UnityBuildTarget = TestMode.EditMode,
-    testCategory?: string
-  ): Promise<Result<string, UnityEditorNotFoundError | UnityCommandError | UnityTestError>> {
-    console.debug(`Running ${testPlatform} tests for project${testCategory ? ` in category ${testCategory}` : ""}`);
-
+    testCategory?: string,
+    options: TestRunOptions = {}
+  ): Promise<
+    Result<TestRunReport, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityTestError>
+  > {
+    const logger = getLogger(options.logger);
+    logger.debug(`Running ${testPlatform} tests`, { projectPath: projectInfo.projectPath, testCategory });
+
+    const isTemporaryResults = !options.testResultsPath;
+    const resultsPath = options.testResultsPath
+      ? path.resolve(options.testResultsPath)
+      : path.join(os.tmpdir(), `unity-test-results-${process.pid}-${Date.now()}.xml`);
+
+    // -quit must not be passed with -runTests, the Test Framework exits the editor once the run is over
     const args = [
       "-batchmode",
-      "-quit",
       "-projectPath",
       projectInfo.projectPath,
       "-runTests",
       "-testPlatform",
       testPlatform,
+      "-testResults",
+      resultsPath,
     ];
 
     if (testCategory) {
       args.push("-testCategory", testCategory);
     }
 
-    const editorInfo = { version: projectInfo.editorVersion };
-    const result = await this.execUnityEditorCommand(editorInfo, args, {
-      reject: false,
-    });
-
-    if (!result.success) {
-      return result;
-    }
-
-    const { stdout, stderr } = result.value;
-    const testsFailed =
-      stdout.includes("Some tests failed") || stdout.includes("Test run failed") || stderr.includes("Test run failed");
-
-    if (testsFailed) {
+    try {
+      return await withRetry(async () => {
+        await fs.ensureDir(path.dirname(resultsPath));
+
+        const editorInfo = { version: projectInfo.editorVersion };
+        const result = await this.execUnityEditorCommand(editorInfo, args, {
+          reject: false,
+          signal: options.signal,
+          logger: options.logger,
+          runner: options.runner,
+        });
+
+        if (!result.success) {
+          return result;
+        }
+
+        const { stdout, stderr, exitCode } = result.value;
+        const context = { projectInfo, testPlatform, testCategory, resultsPath };
+        const diagnostics = this.getDiagnostics(result.value);
+
+        if (!(await fs.pathExists(resultsPath))) {
+          const testsFailed =
+            stdout.includes("Some tests failed") ||
+            stdout.includes("Test run failed") ||
+            stderr.includes("Test run failed");
+
+          return err(
+            new UnityTestError(
+              testsFailed ? "Some tests failed" : `Test run did not produce results (exit code ${exitCode})`,
+              stdout,
+              { ...context, exitCode },
+              [],
+              diagnostics
+            )
+          );
+        }
+
+        const report: TestRunReport = {
+          ...(await UnityTestResultsParser.parseFile(resultsPath)),
+          resultsPath: isTemporaryResults ? undefined : resultsPath,
+          output: stdout,
+        };
+
+        if (report.failed > 0 || report.result === TestResultStatus.Failed) {
+          return err(
+            new UnityTestError(
+              `${report.failed} of ${report.total} tests failed`,
+              stdout,
+              { ...context, report },
+              report.failedTests,
+              diagnostics
+            )
+          );
+        }
+
+        logger.debug(`All ${report.total} tests passed`);
+        return ok(report);
+      }, options);
+    } catch (error) {
+      logger.error("Error running tests", { error });
       return err(
-        new UnityTestError("Some tests failed", stdout, {
-          projectInfo,
-          testPlatform,
-          testCategory,
-        })
+        new UnityTestError(`Error running tests: ${String(error)}`, "", { projectInfo, testPlatform, resultsPath })
       );
+    } finally {
+      if (isTemporaryResults) {
+        await fs.remove(resultsPath);
+      }
     }
-
-    return ok(stdout);
   }
 
   /**
@@ -278,6 +992,9 @@ class UnityEditor {
    * @param {string} serial - Unity license serial number (Pro/Plus/Enterprise license)
    * @param {string} username - Unity account username associated with the license
    * @param {string} password - Unity account password
+   * @param {LicenseActivationOptions & RetryOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation,
+   *                                                   or a retry policy for license server failures). Unless `force` is set,
+   *                                                   nothing is done when a valid license for the same serial is already activated
    * @returns {Promise<Result<void>>} Result indicating success or license activation error
    * @example
    * // Activate a Unity Pro license
@@ -301,9 +1018,10 @@ class UnityEditor {
     projectInfo: ProjectInfo,
     serial: string,
     username: string,
-    password: string
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityLicenseError>> {
-    console.debug(`Activating Unity license for version ${projectInfo.editorVersion}`);
+    password: string,
+    options: LicenseActivationOptions & RetryOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError>> {
+    getLogger(options.logger).debug(`Activating Unity license for version ${projectInfo.editorVersion}`);
 
     const hasMissingCredentials = [serial, username, password].some(
       (value) => value == null || value.trim().length === 0
@@ -313,34 +1031,49 @@ class UnityEditor {
       return err(new UnityLicenseError("Missing required credentials", { projectInfo }));
     }
 
-    const args = ["-quit", "-serial", serial, "-username", username, "-password", password];
+    if (!options.force) {
+      const status = await this.getLicenseStatus({ logger: options.logger });
 
+      if (status.success && status.value.licensed && this.matchesSerialMask(status.value.serialMask, serial)) {
+        getLogger(options.logger).debug("A valid license for this serial is already activated, skipping activation");
+        return ok(undefined);
+      }
+    }
+
+    const args = ["-quit", "-serial", serial, "-username", username, "-password", password];
     const editorInfo = { version: projectInfo.editorVersion };
-    const result = await this.execUnityEditorCommand(editorInfo, args, {
-      reject: false,
-    });
 
-    if (!result.success) {
-      return result;
-    }
+    return withRetry(async () => {
+      const result = await this.execUnityEditorCommand(editorInfo, args, {
+        reject: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      });
 
-    const { stdout, stderr } = result.value;
-    const activationSuccessful =
-      stdout.includes("successfully activated") ||
-      (!stdout.includes("License activation failed") && !stderr.includes("License activation failed"));
+      if (!result.success) {
+        return result;
+      }
 
-    if (activationSuccessful) {
-      console.debug(`Successfully activated license for Unity ${projectInfo.editorVersion}`);
-      return ok(undefined);
-    }
+      const { stdout, stderr } = result.value;
+      const activationSuccessful =
+        stdout.includes("successfully activated") ||
+        (!stdout.includes("License activation failed") && !stderr.includes("License activation failed"));
 
-    return err(
-      new UnityLicenseError(`Failed to activate license: ${stderr || stdout}`, {
-        projectInfo,
-        stderr,
-        stdout,
-      })
-    );
+      if (activationSuccessful) {
+        getLogger(options.logger).debug(`Successfully activated license for Unity ${projectInfo.editorVersion}`);
+        return ok(undefined);
+      }
+
+      return err(
+        new UnityLicenseError(
+          `Failed to activate license: ${stderr || stdout}`,
+          { projectInfo, stderr, stdout },
+          undefined,
+          this.getDiagnostics(result.value)
+        )
+      );
+    }, options);
   }
 
   /**
@@ -351,6 +1084,8 @@ class UnityEditor {
    * @public
    * @static
    * @param {ProjectInfo} projectInfo - Information about the project (used to determine Unity version)
+   * @param {LicenseActivationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation).
+   *                                                  Unless `force` is set, nothing is done when no license is activated
    * @returns {Promise<Result<void>>} Result indicating success or license return error
    * @example
    * // After completing build tasks, return the license
@@ -365,15 +1100,28 @@ class UnityEditor {
    * }
    */
   public static async returnLicense(
-    projectInfo: ProjectInfo
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityLicenseError>> {
-    console.debug(`Returning Unity license for version ${projectInfo.editorVersion}`);
+    projectInfo: ProjectInfo,
+    options: LicenseActivationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError>> {
+    getLogger(options.logger).debug(`Returning Unity license for version ${projectInfo.editorVersion}`);
+
+    if (!options.force) {
+      const status = await this.getLicenseStatus({ logger: options.logger });
+
+      if (status.success && !status.value.licenseFile && status.value.entitlementFiles.length === 0) {
+        getLogger(options.logger).debug("No license is activated, skipping license return");
+        return ok(undefined);
+      }
+    }
 
     const args = ["-quit", "-returnlicense"];
 
     const editorInfo = { version: projectInfo.editorVersion };
     const result = await this.execUnityEditorCommand(editorInfo, args, {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -386,19 +1134,238 @@ class UnityEditor {
       (!stdout.includes("Failed to return license") && !stderr.includes("Failed to return license"));
 
     if (returnSuccessful) {
-      console.debug(`Successfully returned license for Unity ${projectInfo.editorVersion}`);
+      getLogger(options.logger).debug(`Successfully returned license for Unity ${projectInfo.editorVersion}`);
       return ok(undefined);
     }
 
     return err(
-      new UnityLicenseError(`Failed to return license: ${stderr || stdout}`, {
-        projectInfo,
-        stderr,
-        stdout,
-      })
+      new UnityLicenseError(
+        `Failed to return license: ${stderr || stdout}`,
+        { projectInfo, stderr, stdout },
+        undefined,
+        this.getDiagnostics(result.value)
+      )
     );
   }
 
+  /**
+   * Reads the license the machine is activated with from the local license file (`Unity_lic.ulf`)
+   * and the entitlement cache of the Unity Licensing Client, without starting Unity.
+   * The result never holds the serial number, only its masked form.
+   *
+   * @public
+   * @static
+   * @param {LicenseStatusOptions} [options={}] - Options, with the paths of the license file and entitlement cache
+   *                                              when they are not at the default location of the platform
+   * @returns {Promise<Result<UnityLicenseStatus>>} Result containing the license status, or license error if the license file cannot be read
+   * @example
+   * const status = await UnityEditor.getLicenseStatus();
+   *
+   * if (status.success && !status.value.licensed) {
+   *   await UnityEditor.activateLicense(projectInfo, serial, username, password);
+   * }
+   */
+  public static async getLicenseStatus(
+    options: LicenseStatusOptions = {}
+  ): Promise<Result<UnityLicenseStatus, UnityLicenseError>> {
+    const logger = getLogger(options.logger);
+    const licenseFile = options.licenseFile ?? UnityLicenseFile.getDefaultPath();
+    const entitlementsDir = options.entitlementsDir ?? UnityLicenseFile.getDefaultEntitlementsDir();
+
+    try {
+      const status = await UnityLicenseFile.readStatus(licenseFile, entitlementsDir, logger);
+
+      logger.debug("Read license status", {
+        licensed: status.licensed,
+        type: status.type,
+        expiresAt: status.expiresAt,
+        licenseFile: status.licenseFile,
+        entitlementFiles: status.entitlementFiles.length,
+      });
+      return ok(status);
+    } catch (error) {
+      logger.error("Error reading license status", { error });
+      return err(
+        new UnityLicenseError(`Error reading license status: ${String(error)}`, { licenseFile, entitlementsDir })
+      );
+    }
+  }
+
+  /**
+   * Checks whether a serial number matches the masked serial of a license, whose last characters are replaced by X
+   * @private
+   */
+  private static matchesSerialMask(mask: string | undefined, serial: string): boolean {
+    const value = serial.trim().toUpperCase();
+    const masked = mask?.trim().toUpperCase();
+
+    if (!masked || masked.length !== value.length) {
+      return false;
+    }
+
+    return [...masked].every((char, i) => char === "X" || char === value[i]);
+  }
+
+  /**
+   * Creates a manual activation request (`.alf` file) for machines that cannot reach the Unity license server.
+   * Upload the file at https://license.unity3d.com/manual from another machine to receive a license file (`.ulf`),
+   * then activate it with {@link UnityEditor.activateManualLicense}.
+   *
+   * @public
+   * @static
+   * @param {ProjectInfo} projectInfo - Information about the project (used to determine Unity version)
+   * @param {ManualActivationFileOptions} [options={}] - Options, with the folder receiving the `.alf` file
+   * @returns {Promise<Result<UnityManualActivationFile>>} Result containing the path and contents of the `.alf` file, or license error
+   * @example
+   * const result = await UnityEditor.createManualActivationFile(projectInfo, { outputDir: "./license" });
+   *
+   * if (result.success) {
+   *   console.log(`Upload ${result.value.path} at https://license.unity3d.com/manual`);
+   * }
+   */
+  public static async createManualActivationFile(
+    projectInfo: ProjectInfo,
+    options: ManualActivationFileOptions = {}
+  ): Promise<
+    Result<
+      UnityManualActivationFile,
+      UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError
+    >
+  > {
+    const logger = getLogger(options.logger);
+    logger.debug(`Creating manual activation file for Unity ${projectInfo.editorVersion}`);
+
+    // Unity writes the file to its working directory, a temporary one keeps it apart from files of earlier requests
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "unity-manual-activation-"));
+    const args = ["-batchmode", "-nographics", "-quit", "-createManualActivationFile", "-logFile", "-"];
+
+    try {
+      const editorInfo = { version: projectInfo.editorVersion };
+      const result = await this.execUnityEditorCommand(editorInfo, args, {
+        reject: false,
+        cwd: workDir,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      const { stdout, stderr, exitCode } = result.value;
+      const fileName = (await fs.readdir(workDir)).find((name) => name.toLowerCase().endsWith(".alf"));
+
+      if (!fileName) {
+        return err(
+          new UnityLicenseError(`Failed to create manual activation file: ${stderr || stdout}`, {
+            projectInfo,
+            exitCode,
+            stderr,
+            stdout,
+          })
+        );
+      }
+
+      const outputDir = path.resolve(options.outputDir ?? process.cwd());
+      const filePath = path.join(outputDir, fileName);
+      await fs.ensureDir(outputDir);
+      await fs.move(path.join(workDir, fileName), filePath, { overwrite: true });
+
+      logger.debug("Created manual activation file", { path: filePath });
+      return ok({ path: filePath, contents: await fs.readFile(filePath, "utf8") });
+    } catch (error) {
+      logger.error("Error creating manual activation file", { error });
+      return err(new UnityLicenseError(`Error creating manual activation file: ${String(error)}`, { projectInfo }));
+    } finally {
+      await fs.remove(workDir);
+    }
+  }
+
+  /**
+   * Activates a license file (`.ulf`) obtained through the manual activation process,
+   * for machines that cannot reach the Unity license server.
+   *
+   * @public
+   * @static
+   * @param {ProjectInfo} projectInfo - Information about the project (used to determine Unity version)
+   * @param {string} licenseFile - Path to the `.ulf` file, or its XML contents (e.g. from a CI secret),
+   *                               which are written to a temporary file removed once Unity exits
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
+   * @returns {Promise<Result<void>>} Result indicating success or license activation error
+   * @example
+   * // Activate a license stored in a CI secret
+   * const result = await UnityEditor.activateManualLicense(projectInfo, process.env.UNITY_LICENSE!);
+   *
+   * if (!result.success) {
+   *   console.error("License activation failed:", result.error.message);
+   * }
+   */
+  public static async activateManualLicense(
+    projectInfo: ProjectInfo,
+    licenseFile: string,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError>> {
+    const logger = getLogger(options.logger);
+    logger.debug(`Activating manual license for Unity ${projectInfo.editorVersion}`);
+
+    const isContents = licenseFile.trimStart().startsWith("<");
+    const temporaryFile = isContents
+      ? path.join(os.tmpdir(), `unity-license-${process.pid}-${Date.now()}.ulf`)
+      : undefined;
+    const licensePath = temporaryFile ?? path.resolve(licenseFile);
+
+    try {
+      if (temporaryFile) {
+        await fs.writeFile(temporaryFile, licenseFile, { mode: 0o600 });
+      } else if (!(await fs.pathExists(licensePath))) {
+        return err(new UnityLicenseError(`License file not found: ${licensePath}`, { projectInfo, licensePath }));
+      }
+
+      const args = ["-batchmode", "-nographics", "-quit", "-manualLicenseFile", licensePath, "-logFile", "-"];
+      const editorInfo = { version: projectInfo.editorVersion };
+      const result = await this.execUnityEditorCommand(editorInfo, args, {
+        reject: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      // Some Unity versions exit with an error code after activating the license, so a success message is enough;
+      // without one, Unity must exit cleanly without reporting a failure
+      const { stdout, stderr, exitCode } = result.value;
+      const output = `${stdout}\n${stderr}`;
+      const activationSuccessful =
+        this.MANUAL_LICENSE_SUCCESSES.some((pattern) => pattern.test(output)) ||
+        (exitCode === 0 && !this.MANUAL_LICENSE_FAILURES.some((pattern) => pattern.test(output)));
+
+      if (activationSuccessful) {
+        logger.debug(`Successfully activated manual license for Unity ${projectInfo.editorVersion}`);
+        return ok(undefined);
+      }
+
+      return err(
+        new UnityLicenseError(
+          `Failed to activate manual license: ${stderr || stdout}`,
+          { projectInfo, exitCode, stderr, stdout },
+          undefined,
+          this.getDiagnostics(result.value)
+        )
+      );
+    } catch (error) {
+      logger.error("Error activating manual license", { error });
+      return err(new UnityLicenseError(`Error activating manual license: ${String(error)}`, { projectInfo }));
+    } finally {
+      if (temporaryFile) {
+        await fs.remove(temporaryFile);
+      }
+    }
+  }
+
   /**
    * Creates a Unity package (.unitypackage) file from specified assets in the project.
    * This function can be used to package assets for distribution or for creating
@@ -410,6 +1377,7 @@ class UnityEditor {
    * @param {string[]} assetPaths - Array of asset paths relative to the Assets folder to include in the package
    *                               (e.g., ["Prefabs/Player", "Scripts/Utils"])
    * @param {string} outputPath - Full path where the .unitypackage file should be saved
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<void>>} Result indicating success or package export error
    * @example
    * // Export a package containing UI assets and utilities
@@ -428,15 +1396,19 @@ class UnityEditor {
   public static async exportPackage(
     projectInfo: ProjectInfo,
     assetPaths: string[],
-    outputPath: string
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityPackageError>> {
-    console.debug(`Exporting package from project`);
+    outputPath: string,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityPackageError>> {
+    getLogger(options.logger).debug("Exporting package", { projectPath: projectInfo.projectPath, assetPaths });
 
     const args = ["-projectPath", projectInfo.projectPath, "-exportPackage", ...assetPaths, outputPath, "-quit"];
 
     const editorInfo = { version: projectInfo.editorVersion };
     const result = await this.execUnityEditorCommand(editorInfo, args, {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -448,18 +1420,16 @@ class UnityEditor {
       !stdout.includes("Failed to export package") && !stderr.includes("Failed to export package");
 
     if (exportSuccessful) {
-      console.debug(`Successfully exported package to ${outputPath}`);
+      getLogger(options.logger).debug("Successfully exported package", { outputPath });
       return ok(undefined);
     }
 
     return err(
-      new UnityPackageError(`Failed to export package: ${stderr || stdout}`, {
-        projectInfo,
-        assetPaths,
-        outputPath,
-        stderr,
-        stdout,
-      })
+      new UnityPackageError(
+        `Failed to export package: ${stderr || stdout}`,
+        { projectInfo, assetPaths, outputPath, stderr, stdout },
+        this.getDiagnostics(result.value)
+      )
     );
   }
 
@@ -472,6 +1442,7 @@ class UnityEditor {
    * @static
    * @param {ProjectInfo} projectInfo - Information about the target project
    * @param {string} packagePath - Full path to the .unitypackage file to import
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<void>>} Result indicating success or package import error
    * @example
    * // Import a third-party asset package into a project
@@ -491,15 +1462,19 @@ class UnityEditor {
    */
   public static async importPackage(
     projectInfo: ProjectInfo,
-    packagePath: string
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityPackageError>> {
-    console.debug(`Importing package ${packagePath} to project`);
+    packagePath: string,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityPackageError>> {
+    getLogger(options.logger).debug("Importing package", { projectPath: projectInfo.projectPath, packagePath });
 
     const args = ["-projectPath", projectInfo.projectPath, "-importPackage", packagePath, "-quit"];
 
     const editorInfo = { version: projectInfo.editorVersion };
     const result = await this.execUnityEditorCommand(editorInfo, args, {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -511,17 +1486,16 @@ class UnityEditor {
       !stdout.includes("Failed to import package") && !stderr.includes("Failed to import package");
 
     if (importSuccessful) {
-      console.debug(`Successfully imported package ${packagePath}`);
+      getLogger(options.logger).debug("Successfully imported package", { packagePath });
       return ok(undefined);
     }
 
     return err(
-      new UnityPackageError(`Failed to import package: ${stderr || stdout}`, {
-        projectInfo,
-        packagePath,
-        stderr,
-        stdout,
-      })
+      new UnityPackageError(
+        `Failed to import package: ${stderr || stdout}`,
+        { projectInfo, packagePath, stderr, stdout },
+        this.getDiagnostics(result.value)
+      )
     );
   }
 
@@ -537,6 +1511,7 @@ class UnityEditor {
    *                                   - editorVersion: Which Unity version to use
    * @param {boolean} [waitForExit=true] - Whether to wait for Unity to exit after creating the project
    *                                      Set to false to keep Unity open after project creation
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<void>>} Result indicating success or project creation error
    * @example
    * // Create a new project using Unity 2022.3.15f1
@@ -556,9 +1531,11 @@ class UnityEditor {
    */
   public static async createProject(
     projectInfo: ProjectInfo,
-    waitForExit: boolean = true
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityProjectError>> {
-    console.debug(`Creating new project at ${projectInfo.projectPath}`);
+    waitForExit: boolean = true,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityProjectError>> {
+    const logger = getLogger(options.logger);
+    logger.debug("Creating new project", { projectPath: projectInfo.projectPath });
 
     try {
       const parentDir = path.dirname(projectInfo.projectPath);
@@ -573,30 +1550,40 @@ class UnityEditor {
       const editorInfo = { version: projectInfo.editorVersion };
       const result = await this.execUnityEditorCommand(editorInfo, args, {
         reject: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
       });
 
       if (!result.success) {
         return result;
       }
 
-      const { stdout, stderr } = result.value;
+      const { stdout, stderr, exitCode } = result.value;
+      const diagnostics = this.getDiagnostics(result.value);
       const creationSuccessful =
-        !stdout.includes("Failed to create project") && !stderr.includes("Failed to create project");
+        !stdout.includes("Failed to create project") &&
+        !stderr.includes("Failed to create project") &&
+        !(exitCode !== 0 && UnityEditorLogParser.hasErrors(diagnostics));
 
       if (creationSuccessful) {
-        console.debug(`Successfully created project at ${projectInfo.projectPath}`);
+        logger.debug("Successfully created project", { projectPath: projectInfo.projectPath });
         return ok(undefined);
       }
 
       return err(
-        new UnityProjectError(`Failed to create project: ${stderr || stdout}`, {
-          projectInfo,
-          stderr,
-          stdout,
-        })
+        new UnityProjectError(
+          `Failed to create project: ${stderr || stdout}`,
+          {
+            projectInfo,
+            stderr,
+            stdout,
+          },
+          diagnostics
+        )
       );
     } catch (error) {
-      console.error("Error creating project:", error);
+      logger.error("Error creating project", { error });
       return err(new UnityProjectError(`Error creating project: ${String(error)}`, { projectInfo }));
     }
   }
@@ -614,6 +1601,7 @@ class UnityEditor {
    *                                     Use true for CI/CD pipelines or server environments
    * @param {boolean} [waitForExit=true] - Whether to wait for Unity to exit before resolving the promise
    *                                      Set to false for launching the editor without blocking
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<void>>} Result indicating success or project opening error
    * @example
    * // Open a project in batch mode for automated processing
@@ -634,9 +1622,10 @@ class UnityEditor {
     projectInfo: ProjectInfo,
     useHub: boolean = true,
     batchmode: boolean = false,
-    waitForExit: boolean = true
-  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityProjectError>> {
-    console.debug(`Opening project at ${projectInfo.projectPath}`);
+    waitForExit: boolean = true,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityProjectError>> {
+    getLogger(options.logger).debug("Opening project", { projectPath: projectInfo.projectPath });
 
     const args = ["-projectPath", projectInfo.projectPath];
 
@@ -653,27 +1642,39 @@ class UnityEditor {
     }
 
     const editorInfo = { version: projectInfo.editorVersion };
-    const result = await this.execUnityEditorCommand(editorInfo, args, { reject: false });
+    const result = await this.execUnityEditorCommand(editorInfo, args, {
+      reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
+    });
 
     if (!result.success) {
       return result;
     }
 
-    const { stdout, stderr } = result.value;
+    const { stdout, stderr, exitCode } = result.value;
+    const diagnostics = this.getDiagnostics(result.value);
     const openingSuccessful =
-      !stdout.includes("Failed to open project") && !stderr.includes("Failed to open project");
+      !stdout.includes("Failed to open project") &&
+      !stderr.includes("Failed to open project") &&
+      !(exitCode !== 0 && UnityEditorLogParser.hasErrors(diagnostics));
 
     if (openingSuccessful) {
-      console.debug(`Successfully opened project`);
+      getLogger(options.logger).debug("Successfully opened project", { projectPath: projectInfo.projectPath });
       return ok(undefined);
     }
 
     return err(
-      new UnityProjectError(`Failed to open project: ${stderr || stdout}`, {
-        projectInfo,
-        stderr,
-        stdout,
-      })
+      new UnityProjectError(
+        `Failed to open project: ${stderr || stdout}`,
+        {
+          projectInfo,
+          stderr,
+          stdout,
+        },
+        diagnostics
+      )
     );
   }
 }
@@ -1,27 +1,62 @@
 import fs from "fs-extra";
 import os from "os";
 import path from "path";
+import { randomUUID } from "crypto";
 import {
+  AddHubProjectOptions,
   EditorArchitecture,
+  EnsureEditorOptions,
+  EnsureEditorResult,
+  InstallerEventType,
+  InstallerStatus,
+  InstallJob,
+  InstallJobOperation,
+  Logger,
   ModuleId,
+  OperationOptions,
+  RetryOptions,
+  ScriptingBackend,
+  UnityBuildTarget,
+  UnityEditorInstallation,
+  UnityEditorInstallations,
+  UnityEditorLanguages,
+  UnityHubModuleEntry,
   UnityHubProject,
   UnityHubProjectsList,
   UnityInstallations,
+  UnityInstalledModule,
+  UnityModules,
 } from "./types/unity.js";
 import { CommandOptions, CommandOutput, executeCommand } from "./utils/commandExecutor.js";
 import { getUnityChangeset } from "unity-changeset";
 import { UnityHubInstallerEvent } from "./events/hubEventEmitter.js";
+import { UnityVersion } from "./utils/unityVersion.js";
+import { UnityProjectSettings } from "./utils/projectSettings.js";
+import { readEditorDetails } from "./utils/editorInstallation.js";
+import { findProcessesInFolder } from "./utils/processTree.js";
+import { InstallJobRequest, InstallQueue } from "./utils/installQueue.js";
+import { withRetry } from "./utils/retry.js";
+import { getLogger } from "./utils/logger.js";
+import { isExecutableAvailable } from "./utils/commandRunner.js";
 import {
   Result,
   ok,
   err,
   UnityHubNotFoundError,
   UnityCommandError,
+  UnityCancelledError,
   UnityInstallationError,
   UnityProjectError,
   InvalidArgumentError,
+  UnityError,
 } from "./errors/index.js";
 
+/**
+ * Pending change of the Unity Hub projects list, so that changes made at the same time are applied one after the other
+ * @internal
+ */
+let projectsListUpdate: Promise<unknown> = Promise.resolve();
+
 /**
  * Class for interacting with Unity Hub via command line interface
  * Provides methods to manage Unity installations, projects, and Hub configuration
@@ -36,19 +71,65 @@ class UnityHub {
       hub: "C:\\Program Files\\Unity Hub\\Unity Hub.exe",
       projects: path.join(os.homedir(), "AppData", "Roaming", "UnityHub", "projects-v1.json"),
       projectDir: path.join(os.homedir(), "AppData", "Roaming", "UnityHub", "projectDir.json"),
+      editors: [
+        path.join(os.homedir(), "AppData", "Roaming", "UnityHub", "editors-v2.json"),
+        path.join(os.homedir(), "AppData", "Roaming", "UnityHub", "editors.json"),
+      ],
+      secondaryInstallPath: path.join(os.homedir(), "AppData", "Roaming", "UnityHub", "secondaryInstallPath.json"),
+      editorsFolder: "C:\\Program Files\\Unity\\Hub\\Editor",
+      editorExecutable: path.join("Editor", "Unity.exe"),
+      playbackEngines: path.join("Editor", "Data", "PlaybackEngines"),
     },
     darwin: {
       hub: "/Applications/Unity Hub.app/Contents/MacOS/Unity Hub",
       projects: path.join(os.homedir(), "Library", "Application Support", "UnityHub", "projects-v1.json"),
       projectDir: path.join(os.homedir(), "Library", "Application Support", "UnityHub", "projectDir.json"),
+      editors: [
+        path.join(os.homedir(), "Library", "Application Support", "UnityHub", "editors-v2.json"),
+        path.join(os.homedir(), "Library", "Application Support", "UnityHub", "editors.json"),
+      ],
+      secondaryInstallPath: path.join(
+        os.homedir(),
+        "Library",
+        "Application Support",
+        "UnityHub",
+        "secondaryInstallPath.json"
+      ),
+      editorsFolder: "/Applications/Unity/Hub/Editor",
+      editorExecutable: "Unity.app",
+      playbackEngines: "PlaybackEngines",
     },
     linux: {
       hub: "/opt/UnityHub/UnityHub",
       projects: path.join(os.homedir(), ".config", "UnityHub", "projects-v1.json"),
       projectDir: path.join(os.homedir(), ".config", "UnityHub", "projectDir.json"),
+      editors: [
+        path.join(os.homedir(), ".config", "UnityHub", "editors-v2.json"),
+        path.join(os.homedir(), ".config", "UnityHub", "editors.json"),
+      ],
+      secondaryInstallPath: path.join(os.homedir(), ".config", "UnityHub", "secondaryInstallPath.json"),
+      editorsFolder: path.join(os.homedir(), "Unity", "Hub", "Editor"),
+      editorExecutable: path.join("Editor", "Unity"),
+      playbackEngines: path.join("Editor", "Data", "PlaybackEngines"),
     },
   };
 
+  /**
+   * Modules installed to each folder of an editor's playback engines, used when Unity Hub did not record them
+   * @private
+   */
+  private static PLAYBACK_ENGINE_MODULES: Record<string, ModuleId> = {
+    AndroidPlayer: UnityModules.AndroidBuildSupport,
+    iOSSupport: UnityModules.IOSBuildSupport,
+    AppleTVSupport: UnityModules.TvOSBuildSupport,
+    VisionOSPlayer: UnityModules.VisionOSBuildSupport,
+    WebGLSupport: UnityModules.WebGLBuildSupport,
+    MetroSupport: UnityModules.UniversalWindowsPlatform,
+    LinuxStandaloneSupport: UnityModules.LinuxBuildSupportMono,
+    MacStandaloneSupport: UnityModules.MacBuildSupportMono,
+    WindowsStandaloneSupport: UnityModules.WindowsBuildSupportMono,
+  };
+
   /**
    * Current platform (win32, darwin, linux)
    * @internal
@@ -61,6 +142,19 @@ class UnityHub {
    */
   private static hubPath: string = this.getUnityHubPath();
 
+  /**
+   * Output of the Unity Hub `help` command, used to detect the commands it supports.
+   * Only the answer of the default runner is kept, until {@link UnityHub.clearCache} is called.
+   * @internal
+   */
+  private static hubHelp: Promise<string> | null = null;
+
+  /**
+   * Queue running the Unity Hub installations and removals one at a time
+   * @internal
+   */
+  private static installQueue: InstallQueue = new InstallQueue();
+
   /**
    * Gets the Unity Hub executable path based on environment variable or default locations
    * @returns {string} Path to Unity Hub executable
@@ -93,17 +187,28 @@ class UnityHub {
     return UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS].projectDir || "";
   }
 
+  /**
+   * Gets the paths of the editor registry files Unity Hub keeps for installed and located editors,
+   * newest format first
+   * @returns {string[]} Paths to the editor registry files
+   * @internal
+   */
+  private static getEditorRegistryPaths(): string[] {
+    return UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS].editors;
+  }
+
   /**
    * Checks if Unity Hub is available and accessible
+   * @param {OperationOptions} [options={}] - Operation options, with the command runner asked whether Unity Hub can be run
    * @returns {Promise<boolean>} True if Unity Hub is available, false otherwise
    * @throws Will not throw errors, returns false on any failure
    * @public
    */
-  public static async isUnityHubAvailable(): Promise<boolean> {
+  public static async isUnityHubAvailable(options: OperationOptions = {}): Promise<boolean> {
     try {
-      return !!this.hubPath && fs.existsSync(this.hubPath);
+      return !!this.hubPath && (await isExecutableAvailable(this.hubPath, options.runner));
     } catch (error) {
-      console.error("Error checking Unity Hub availability:", error);
+      getLogger().error("Error checking Unity Hub availability", { error });
       return false;
     }
   }
@@ -116,33 +221,39 @@ class UnityHub {
    * @param {number} [options.timeout] - Timeout in milliseconds
    * @param {Record<string, string>} [options.env] - Environment variables
    * @param {string} [options.cwd] - Working directory
+   * @param {AbortSignal} [options.signal] - Signal that cancels the command and kills the Hub process tree
    * @returns {Promise<Result<CommandOutput>>} Result containing command execution output or error
    * @public
    */
   public static async execUnityHubCommand(
     args: string[],
     options: CommandOptions = {}
-  ): Promise<Result<CommandOutput, UnityHubNotFoundError | UnityCommandError>> {
-    const isAvailable = await UnityHub.isUnityHubAvailable();
+  ): Promise<Result<CommandOutput, UnityHubNotFoundError | UnityCommandError | UnityCancelledError>> {
+    const isAvailable = await UnityHub.isUnityHubAvailable(options);
     if (!isAvailable) {
-      console.error("Unity Hub is not available.");
+      getLogger(options.logger).error("Unity Hub is not available", { hubPath: this.hubPath });
       return err(new UnityHubNotFoundError("Unity Hub is not available", { hubPath: this.hubPath }));
     }
 
     const hubArgs = [this.platform !== "linux" ? "--" : "", "--headless", ...args].filter(Boolean);
-    console.debug(`Executing Unity Hub command: ${this.hubPath} ${hubArgs.join(" ")}`);
 
     return await executeCommand(this.hubPath, hubArgs, options);
   }
 
   /**
    * Gets the Unity Hub installation path
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<string>>} Result containing the installation path or error
    * @public
    */
-  public static async getInstallPath(): Promise<Result<string, UnityHubNotFoundError | UnityCommandError>> {
+  public static async getInstallPath(
+    options: OperationOptions = {}
+  ): Promise<Result<string, UnityHubNotFoundError | UnityCommandError | UnityCancelledError>> {
     const result = await this.execUnityHubCommand(["install-path", "-g"], {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -166,14 +277,19 @@ class UnityHub {
   /**
    * Sets the Unity Hub installation path
    * @param {string} path - Path to set as the Unity Hub installation directory
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<void>>} Result indicating success or error
    * @public
    */
   public static async setInstallPath(
-    path: string
-  ): Promise<Result<void, UnityHubNotFoundError | UnityCommandError>> {
+    path: string,
+    options: OperationOptions = {}
+  ): Promise<Result<void, UnityHubNotFoundError | UnityCommandError | UnityCancelledError>> {
     const result = await this.execUnityHubCommand(["install-path", "-s", path], {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -191,19 +307,28 @@ class UnityHub {
       );
     }
 
-    console.debug(`Install path set to: ${result.value.stdout}`);
+    getLogger(options.logger).debug("Install path set", { path: result.value.stdout });
     return ok(undefined);
   }
 
   /**
-   * Gets all installed Unity versions with their installation paths, if using filter you can get all available releases instead of only installed ones
+   * Gets all installed Unity versions with their installation paths, if using filter you can get all available releases instead of only installed ones.
+   * Installed editors are read from the Unity Hub files and install folders (see {@link UnityHub.getInstalledEditors}),
+   * running Unity Hub only if none are found there.
    * @param {string} [filter="i"] - Filter for installations (e.g. "i" for installed ( both available releases and Editors installed on your machine ), "a" for all and "r" for available releases)
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
    * @returns {Promise<Result<UnityInstallations>>} Result containing object mapping Unity versions to their installation paths or error
    * @public
    */
   public static async getUnityInstallations(
-    filter: string = "i"
-  ): Promise<Result<UnityInstallations, InvalidArgumentError | UnityHubNotFoundError | UnityCommandError | UnityInstallationError>> {
+    filter: string = "i",
+    options: OperationOptions = {}
+  ): Promise<
+    Result<
+      UnityInstallations,
+      InvalidArgumentError | UnityHubNotFoundError | UnityCommandError | UnityCancelledError | UnityInstallationError
+    >
+  > {
     if (!["i", "a", "r"].includes(filter)) {
       return err(
         new InvalidArgumentError(
@@ -213,8 +338,79 @@ class UnityHub {
       );
     }
 
+    if (filter === "i") {
+      const editors = await this.findInstalledEditors();
+      if (Object.keys(editors).length > 0) {
+        return ok(Object.fromEntries(Object.entries(editors).map(([key, editor]) => [key, editor.path])));
+      }
+    }
+
+    return this.listHubInstallations(filter, options);
+  }
+
+  /**
+   * Gets the installed editors with their architecture and changeset, without running Unity Hub.
+   * Editors are read from the Unity Hub editor registry (`editors-v2.json`) and found by scanning the Unity Hub install
+   * folders (the default one and `secondaryInstallPath.json`). Unity Hub is run only if no editor is found this way.
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the Unity Hub fallback)
+   * @returns {Promise<Result<UnityEditorInstallations>>} Result containing object mapping Unity versions to the installed editors or error
+   * @public
+   */
+  public static async getInstalledEditors(
+    options: OperationOptions = {}
+  ): Promise<
+    Result<
+      UnityEditorInstallations,
+      UnityHubNotFoundError | UnityCommandError | UnityCancelledError | UnityInstallationError
+    >
+  > {
+    const editors = await this.findInstalledEditors();
+    if (Object.keys(editors).length > 0) {
+      return ok(editors);
+    }
+
+    getLogger(options.logger).debug("No editors found in the Unity Hub files, asking Unity Hub");
+    const result = await this.listHubInstallations("i", options);
+    if (!result.success) {
+      return result;
+    }
+
+    const installations: UnityEditorInstallation[] = [];
+
+    for (const [label, editorPath] of Object.entries(result.value)) {
+      // Unity Hub labels editors of both architectures on Apple silicon, e.g. "2022.3.60f1 (Apple silicon)"
+      const [version, suffix = ""] = label.split(/\s*\(/);
+      const details = await readEditorDetails(editorPath);
+      const architecture = suffix.startsWith("Apple silicon")
+        ? EditorArchitecture.arm64
+        : suffix.startsWith("Intel")
+          ? EditorArchitecture.x86_64
+          : details.architecture;
+
+      installations.push({ version, path: editorPath, architecture, changeset: details.changeset });
+    }
+
+    return ok(this.toEditorInstallations(installations));
+  }
+
+  /**
+   * Lists Unity versions by running the Unity Hub `editors` command
+   * @param {string} filter - Filter for installations ("i", "a" or "r")
+   * @param {OperationOptions} options - Operation options (e.g., an AbortSignal to cancel the operation)
+   * @returns {Promise<Result<UnityInstallations>>} Result containing object mapping Unity versions to their installation paths or error
+   * @private
+   */
+  private static async listHubInstallations(
+    filter: string,
+    options: OperationOptions
+  ): Promise<
+    Result<UnityInstallations, UnityHubNotFoundError | UnityCommandError | UnityCancelledError | UnityInstallationError>
+  > {
     const result = await this.execUnityHubCommand(["editors", `-${filter}`], {
       reject: false,
+      signal: options.signal,
+      logger: options.logger,
+      runner: options.runner,
     });
 
     if (!result.success) {
@@ -255,45 +451,121 @@ class UnityHub {
     return ok(installations);
   }
 
+  /**
+   * Finds the newest installed Unity version matching a range
+   * @param {string} range - Version range, e.g. "2022.3.x", ">=2021.3 <2023" or "lts" (see {@link UnityVersion})
+   * @param {OperationOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation)
+   * @returns {Promise<Result<string>>} Result containing the matching version or error
+   * @example
+   * const result = await UnityHub.findInstalledVersion("2022.3.x");
+   * if (result.success) {
+   *   console.log(`Using Unity ${result.value}`);
+   * }
+   * @public
+   */
+  public static async findInstalledVersion(
+    range: string,
+    options: OperationOptions = {}
+  ): Promise<
+    Result<
+      string,
+      InvalidArgumentError | UnityHubNotFoundError | UnityCommandError | UnityCancelledError | UnityInstallationError
+    >
+  > {
+    if (!UnityVersion.isValidRange(range)) {
+      return err(new InvalidArgumentError(`Invalid Unity version range "${range}".`, { range }));
+    }
+
+    const result = await this.getUnityInstallations("i", options);
+
+    if (!result.success) {
+      return result;
+    }
+
+    const versions = Object.keys(result.value);
+    const version = UnityVersion.findBest(versions, range);
+
+    if (!version) {
+      return err(
+        new UnityInstallationError(`No installed Unity version matches "${range}".`, { range, installed: versions })
+      );
+    }
+
+    return ok(version);
+  }
+
+  /**
+   * Queues a Unity Hub operation, which starts once the operations queued before it finished.
+   * Requests merged into the same job share its emitter, which runs with the options of the first request;
+   * the job is cancelled once the signals of all of them are aborted.
+   * @param {InstallJobRequest} request - What the operation installs or removes
+   * @param {OperationOptions} options - Options of the caller, with the signal that cancels its request when aborted
+   * @param {Function} start - Starts the operation, which settles the emitter when done
+   * @returns {UnityHubInstallerEvent} The installer event emitter
+   * @private
+   */
+  private static enqueueInstall(
+    request: InstallJobRequest,
+    options: OperationOptions,
+    start: (installerEmitter: UnityHubInstallerEvent, job: InstallJob) => void
+  ): UnityHubInstallerEvent {
+    if (options.signal?.aborted) {
+      const installerEmitter = new UnityHubInstallerEvent(new AbortController());
+      installerEmitter.Cancel();
+      return installerEmitter;
+    }
+
+    return this.installQueue.enqueue(request, options, () => new UnityHubInstallerEvent(new AbortController()), start);
+  }
+
+  /**
+   * Lists the Unity Hub operations started by this process that are running or waiting for their turn.
+   * Installations and removals run one at a time, since Unity Hub cannot run several at once.
+   * @returns {InstallJob[]} The running job first, then the queued jobs in the order they will run
+   * @public
+   */
+  public static getInstallQueue(): InstallJob[] {
+    return this.installQueue.list();
+  }
+
   /**
    * Adds modules to an existing Unity installation
    * @param {string} editorVersion - Unity version to add modules to (e.g. "2022.3.60f1")
    * @param {ModuleId[]} modules - Array of module IDs to add
    * @param {boolean} [childModules=false] - Whether to include child modules
+   * @param {OperationOptions & RetryOptions} [options={}] - Operation options; aborting the signal cancels the installation like {@link UnityHubInstallerEvent.Cancel},
+   *                                                          and a retry policy runs the Hub again after transient failures
    * @returns {Result<UnityHubInstallerEvent>} Result containing event emitter for installation progress or error
    * @public
    */
   public static async addModule(
     editorVersion: string,
     modules: ModuleId[],
-    childModules: boolean = true
+    childModules: boolean = true,
+    options: OperationOptions & RetryOptions = {}
   ): Promise<Result<UnityHubInstallerEvent, InvalidArgumentError>> {
     if (modules.length === 0) {
       return err(new InvalidArgumentError("No module IDs provided.", { editorVersion, modules }));
     }
 
-    console.debug(`Adding module ${modules} to Unity ${editorVersion}`);
+    const request = { operation: InstallJobOperation.AddModules, version: editorVersion, modules, childModules };
 
-    const args = ["install-modules", "-v", editorVersion, "--module", modules.join(" ")];
+    const installerEmitter = this.enqueueInstall(request, options, (installerEmitter, job) => {
+      getLogger(options.logger).debug("Adding modules", { version: editorVersion, modules: job.modules });
 
-    if (childModules) {
-      args.push("--child-modules");
-    }
+      const args = ["install-modules", "-v", editorVersion, "--module", job.modules.join(" ")];
 
-    const installerEmitter = new UnityHubInstallerEvent();
+      if (job.childModules) {
+        args.push("--child-modules");
+      }
 
-    this.execUnityHubCommand(args, {
-      reject: false,
-      onStdout: (data: string) => installerEmitter.Progress(data),
-    })
-      .then((result) => {
-        if (!result.success) {
-          console.error(`Error adding module ${modules} to Unity ${editorVersion}:`, result.error);
-        }
-      })
-      .catch((error) => {
-        console.error(`Error adding module ${modules} to Unity ${editorVersion}:`, error);
-      });
+      this.runInstallCommand(
+        installerEmitter,
+        args,
+        options,
+        `Error adding modules ${job.modules} to Unity ${editorVersion}`
+      );
+    });
 
     return ok(installerEmitter);
   }
@@ -303,51 +575,714 @@ class UnityHub {
    * @param {string} version - Unity version to install (e.g. "2022.3.60f1")
    * @param {ModuleId[]} [modules=[]] - Optional array of modules to install with the editor
    * @param {EditorArchitecture} [architecture] - Optional architecture (x86_64 or arm64), defaults to system architecture
+   * @param {OperationOptions & RetryOptions} [options={}] - Operation options; aborting the signal cancels the installation like {@link UnityHubInstallerEvent.Cancel},
+   *                                                          and a retry policy runs the Hub again after transient failures
    * @returns {Promise<Result<UnityHubInstallerEvent>>} Result containing event emitter for installation progress or error
    * @public
    */
   public static async addEditor(
     version: string,
     modules: ModuleId[] = [],
-    architecture?: EditorArchitecture
+    architecture?: EditorArchitecture,
+    options: OperationOptions & RetryOptions = {}
   ): Promise<Result<UnityHubInstallerEvent, UnityInstallationError>> {
     try {
       const data = await getUnityChangeset(version);
-      const args = ["install", "-v", version, "--changeset", data.changeset];
 
-      if (modules.length > 0) {
-        args.push("--module", modules.join(" "));
+      architecture ??= this.getSystemArchitecture();
+
+      const request = { operation: InstallJobOperation.InstallEditor, version, modules, architecture };
+
+      const installerEmitter = this.enqueueInstall(request, options, (installerEmitter, job) => {
+        const args = ["install", "-v", version, "--changeset", data.changeset];
+
+        if (job.modules.length > 0) {
+          args.push("--module", job.modules.join(" "));
+        }
+
+        args.push("--architecture", request.architecture);
+
+        this.runInstallCommand(installerEmitter, args, options, `Error installing Unity ${version}`);
+      });
+
+      return ok(installerEmitter);
+    } catch (error) {
+      getLogger(options.logger).error(`Failed to install Unity ${version}`, { error });
+      return err(
+        new UnityInstallationError(`Failed to install Unity ${version}: ${String(error)}`, { version, modules, architecture })
+      );
+    }
+  }
+
+  /**
+   * Runs a Unity Hub installation command and settles its emitter once the Hub exits.
+   * With a retry policy, a Hub that fails or exits with an error is run again while the failure looks transient,
+   * judging from the output of the Hub; the attempts are recorded in the context of the final error.
+   * @param {UnityHubInstallerEvent} installerEmitter - Emitter reporting the installation
+   * @param {string[]} args - Arguments of the Hub command
+   * @param {OperationOptions & RetryOptions} options - Options of the installation, with the retry policy and logger
+   * @param {string} description - Message logged when the installation fails
+   * @returns {void}
+   * @private
+   */
+  private static runInstallCommand(
+    installerEmitter: UnityHubInstallerEvent,
+    args: string[],
+    options: OperationOptions & RetryOptions,
+    description: string
+  ): void {
+    const logger = getLogger(options.logger);
+
+    withRetry(
+      async () => {
+        const output: string[] = [];
+        const result = await this.execUnityHubCommand(args, {
+          reject: false,
+          signal: installerEmitter.signal,
+          logger: options.logger,
+          runner: options.runner,
+          onStdout: (data: string) => {
+            output.push(data);
+            installerEmitter.Progress(data);
+          },
+        });
+
+        if (result.success && result.value.exitCode) {
+          const { stderr, exitCode } = result.value;
+          return err(
+            new UnityCommandError(`Unity Hub exited with code ${exitCode}`, output.join("\n"), stderr, exitCode, {
+              args,
+            })
+          );
+        }
+
+        return result;
+      },
+      { ...options, signal: installerEmitter.signal }
+    )
+      .then((result) => {
+        if (result.success) {
+          installerEmitter.Exit(result.value.exitCode);
+        } else if (result.error instanceof UnityCancelledError) {
+          installerEmitter.Cancel();
+        } else if (result.error instanceof UnityCommandError && result.error.exitCode) {
+          installerEmitter.Exit(result.error.exitCode, result.error.context);
+        } else {
+          logger.error(description, { error: result.error });
+          installerEmitter.Fail(result.error);
+        }
+      })
+      .catch((error) => {
+        logger.error(description, { error });
+        installerEmitter.Fail(new UnityInstallationError(String(error)));
+      });
+  }
+
+  /**
+   * Makes sure an editor version is installed with the given modules, installing only what is missing.
+   * Installations are awaited until Unity Hub exits, and the result is checked on disk afterwards,
+   * so the call can be repeated safely: when everything is present it changes nothing.
+   * @param {string} version - Unity version (e.g. "2022.3.60f1")
+   * @param {ModuleId[]} [modules=[]] - Modules the editor must have
+   * @param {EditorArchitecture} [architecture] - Architecture the editor must have, defaults to system architecture when installing
+   * @param {EnsureEditorOptions} [options={}] - Operation options, with a callback receiving installation progress
+   * @returns {Promise<Result<EnsureEditorResult>>} Result containing a summary of the installed editor and what was installed, or error
+   * @example
+   * const result = await UnityHub.ensureEditor("2022.3.60f1", [UnityModules.AndroidBuildSupport]);
+   * if (result.success && result.value.installedModules.length > 0) {
+   *   console.log(`Installed ${result.value.installedModules.join(", ")}`);
+   * }
+   * @public
+   */
+  public static async ensureEditor(
+    version: string,
+    modules: ModuleId[] = [],
+    architecture?: EditorArchitecture,
+    options: EnsureEditorOptions = {}
+  ): Promise<Result<EnsureEditorResult, InvalidArgumentError | UnityInstallationError | UnityCancelledError>> {
+    if (!UnityVersion.isVersion(version)) {
+      return err(new InvalidArgumentError(`Invalid Unity version "${version}".`, { version }));
+    }
+
+    const requested = [...new Set(modules)];
+    const editors = await this.getInstalledEditors(options);
+    if (!editors.success && editors.error instanceof UnityCancelledError) {
+      return err(editors.error);
+    }
+
+    const editor = editors.success ? this.findInstalledEditor(editors.value, version, architecture) : undefined;
+
+    if (editor && architecture && editor.architecture && editor.architecture !== architecture) {
+      return err(
+        new UnityInstallationError(
+          `Unity ${version} is installed for ${editor.architecture}, not ${architecture}. Remove it to install the other architecture.`,
+          { version, architecture, installedArchitecture: editor.architecture }
+        )
+      );
+    }
+
+    let existingModules: ModuleId[] = [];
+    let installedModules: ModuleId[] = requested;
+
+    if (editor) {
+      const installed = await this.getInstalledModules(version, editor.architecture, options);
+      if (!installed.success) {
+        return installed;
       }
 
-      if (!architecture) {
-        const arch = os.arch() || process.arch;
-        architecture = arch === "arm64" || arch === "arm" ? EditorArchitecture.arm64 : EditorArchitecture.x86_64;
+      const present = new Set(installed.value.filter((module) => module.installed).map((module) => module.id));
+      existingModules = requested.filter((module) => present.has(module));
+      installedModules = requested.filter((module) => !present.has(module));
+    }
+
+    if (!editor || installedModules.length > 0) {
+      getLogger(options.logger).debug(editor ? "Adding missing modules" : "Installing editor", {
+        version,
+        modules: editor ? installedModules : requested,
+      });
+
+      const started = editor
+        ? await this.addModule(version, installedModules, true, options)
+        : await this.addEditor(version, requested, architecture, options);
+      if (!started.success) {
+        return started;
       }
 
-      args.push("--architecture", architecture);
+      if (options.onProgress) {
+        started.value.on(InstallerEventType.Progress, options.onProgress);
+      }
 
-      const installerEmitter = new UnityHubInstallerEvent();
+      try {
+        await started.value.completed;
+      } catch (error) {
+        return err(
+          error instanceof UnityInstallationError || error instanceof UnityCancelledError
+            ? error
+            : new UnityInstallationError(String(error), { version })
+        );
+      }
+    }
 
-      this.execUnityHubCommand(args, {
-        reject: false,
-        onStdout: (data: string) => installerEmitter.Progress(data),
+    // Unity Hub can exit successfully without installing everything, check the result on disk
+    let result = editor;
+    if (!result) {
+      const installedEditors = await this.getInstalledEditors(options);
+      result = installedEditors.success
+        ? this.findInstalledEditor(installedEditors.value, version, architecture)
+        : undefined;
+    }
+
+    const finalModules = await this.getInstalledModules(version, result?.architecture, options);
+    if (!finalModules.success && finalModules.error instanceof UnityCancelledError) {
+      return err(finalModules.error);
+    }
+
+    const missing = finalModules.success
+      ? requested.filter((id) => !finalModules.value.some((module) => module.id === id && module.installed))
+      : requested;
+
+    if (!result || missing.length > 0) {
+      return err(
+        new UnityInstallationError(
+          result
+            ? `Unity Hub finished but modules are still missing from Unity ${version}: ${missing.join(", ")}`
+            : `Unity Hub finished but Unity ${version} is not installed.`,
+          { version, missing }
+        )
+      );
+    }
+
+    return ok({
+      version,
+      path: result.path,
+      architecture: result.architecture,
+      installedEditor: !editor,
+      installedModules,
+      existingModules,
+    });
+  }
+
+  /**
+   * Gets the modules of an installed Unity Editor, from the `modules.json` file Unity Hub writes in the editor folder
+   * and the playback engine folders of the editor, which also finds modules installed without Unity Hub.
+   * @param {string} version - Unity version (e.g. "2022.3.60f1")
+   * @param {EditorArchitecture} [architecture] - Architecture of the editor, when both are installed; defaults to the system one
+   * @param {OperationOptions} [options={}] - Operation options (e.g., the runner and AbortSignal of the Unity Hub fallback listing editors)
+   * @returns {Promise<Result<UnityInstalledModule[]>>} Result containing the known modules and whether they are installed, or error
+   * @example
+   * const modules = await UnityHub.getInstalledModules("2022.3.60f1");
+   * const hasAndroid = modules.success && modules.value.some((m) => m.id === UnityModules.AndroidBuildSupport && m.installed);
+   * @public
+   */
+  public static async getInstalledModules(
+    version: string,
+    architecture?: EditorArchitecture,
+    options: OperationOptions = {}
+  ): Promise<Result<UnityInstalledModule[], InvalidArgumentError | UnityInstallationError | UnityCancelledError>> {
+    if (!UnityVersion.isVersion(version)) {
+      return err(new InvalidArgumentError(`Invalid Unity version "${version}".`, { version }));
+    }
+
+    const editors = await this.getInstalledEditors(options);
+    if (!editors.success && editors.error instanceof UnityCancelledError) {
+      return err(editors.error);
+    }
+
+    const editor = editors.success ? this.findInstalledEditor(editors.value, version, architecture) : undefined;
+
+    if (!editor) {
+      return err(new UnityInstallationError(`Unity ${version} is not installed.`, { version }));
+    }
+
+    const folder = this.getEditorFolder(editor.path);
+    const knownIds = new Set<string>([...Object.values(UnityModules), ...Object.values(UnityEditorLanguages)]);
+    const entries = (await this.readModulesFile(folder)).filter((entry) => knownIds.has(entry.id));
+    const modules = new Map<string, UnityInstalledModule>();
+
+    for (const entry of entries) {
+      const destination = entry.destination
+        ? path.resolve(folder, entry.destination.replace("{UNITY_PATH}", folder))
+        : undefined;
+
+      modules.set(entry.id, {
+        id: entry.id as ModuleId,
+        name: entry.name,
+        installed: destination ? fs.existsSync(destination) : !!entry.selected,
+        size: entry.installedSize,
+        path: destination,
+        children: entries
+          .filter((child) => (child.parent ?? child.sync) === entry.id)
+          .map((child) => child.id as ModuleId),
+      });
+    }
+
+    const { playbackEngines } = UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS];
+    const enginesPath = path.join(folder, playbackEngines);
+    const engines = fs.existsSync(enginesPath) ? await fs.readdir(enginesPath) : [];
+
+    for (const engine of engines) {
+      const id = this.PLAYBACK_ENGINE_MODULES[engine] as ModuleId | undefined;
+      const enginePath = path.join(enginesPath, engine);
+
+      const recorded = id ? modules.get(id) : undefined;
+      if (id && !recorded?.installed) {
+        modules.set(id, { ...(recorded ?? { id, children: [] }), installed: true, path: enginePath });
+      }
+
+      // Desktop platforms keep their IL2CPP support as variations of the playback engine
+      const il2cpp = engine.startsWith("Linux")
+        ? UnityModules.LinuxBuildSupportIL2CPP
+        : engine.startsWith("Mac")
+          ? UnityModules.MacBuildSupportIL2CPP
+          : engine.startsWith("Windows")
+            ? UnityModules.WindowsBuildSupportIL2CPP
+            : undefined;
+      const variations = path.join(enginePath, "Variations");
+      if (
+        il2cpp &&
+        !modules.get(il2cpp)?.installed &&
+        fs.existsSync(variations) &&
+        (await fs.readdir(variations)).some((variation) => variation.toLowerCase().includes("il2cpp"))
+      ) {
+        modules.set(il2cpp, { id: il2cpp, installed: true, path: enginePath, children: [] });
+      }
+    }
+
+    return ok([...modules.values()].sort((a, b) => a.id.localeCompare(b.id)));
+  }
+
+  /**
+   * Gets the modules needed to build a target with an editor running on this machine.
+   * Desktop targets of the host platform need no module for Mono, and consoles are not installed through Unity Hub.
+   * @param {UnityBuildTarget} target - The build target
+   * @param {ScriptingBackend} [scriptingBackend=ScriptingBackend.Mono] - Scripting backend of the build
+   * @returns {ModuleId[]} IDs of the modules the build needs, empty if none
+   * @example
+   * const needed = UnityHub.getModulesForBuildTarget(UnityBuildTarget.Android);
+   * // [ "android", "android-sdk-ndk-tools", "android-open-jdk" ]
+   * @public
+   */
+  public static getModulesForBuildTarget(
+    target: UnityBuildTarget,
+    scriptingBackend: ScriptingBackend = ScriptingBackend.Mono
+  ): ModuleId[] {
+    const il2cpp = scriptingBackend === ScriptingBackend.IL2CPP;
+    const desktop = (host: string, mono: ModuleId, il2cppModule: ModuleId): ModuleId[] => {
+      if (il2cpp) return [il2cppModule];
+      return this.platform === host ? [] : [mono];
+    };
+
+    switch (target) {
+      case UnityBuildTarget.Android:
+        return [UnityModules.AndroidBuildSupport, UnityModules.AndroidSDKNDKTools, UnityModules.OpenJDK];
+      case UnityBuildTarget.iOS:
+        return [UnityModules.IOSBuildSupport];
+      case UnityBuildTarget.tvOS:
+        return [UnityModules.TvOSBuildSupport];
+      case UnityBuildTarget.VisionOS:
+        return [UnityModules.VisionOSBuildSupport];
+      case UnityBuildTarget.WebGL:
+        return [UnityModules.WebGLBuildSupport];
+      case UnityBuildTarget.WSAPlayer:
+        return [UnityModules.UniversalWindowsPlatform];
+      case UnityBuildTarget.StandaloneWindows:
+      case UnityBuildTarget.StandaloneWindows64:
+        return desktop("win32", UnityModules.WindowsBuildSupportMono, UnityModules.WindowsBuildSupportIL2CPP);
+      case UnityBuildTarget.StandaloneOSX:
+        return desktop("darwin", UnityModules.MacBuildSupportMono, UnityModules.MacBuildSupportIL2CPP);
+      case UnityBuildTarget.StandaloneLinux64:
+      case UnityBuildTarget.LinuxHeadlessSimulation:
+        return desktop("linux", UnityModules.LinuxBuildSupportMono, UnityModules.LinuxBuildSupportIL2CPP);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Uninstalls a Unity Editor version. Unity Hub removes the editor when its command line supports it;
+   * otherwise the install folder is deleted, which is only done for folders directly inside the Unity Hub install
+   * locations. Progress is reported through the returned emitter, with the editor reported as the "editor" module.
+   * @param {string} version - Unity version to uninstall (e.g. "2022.3.60f1")
+   * @param {OperationOptions} [options={}] - Operation options; aborting the signal cancels the removal like {@link UnityHubInstallerEvent.Cancel}
+   * @returns {Promise<Result<UnityHubInstallerEvent>>} Result containing event emitter for removal progress, or an error
+   *          if the editor is not installed, is running or is installed outside the Unity Hub install locations
+   * @public
+   */
+  public static async removeEditor(
+    version: string,
+    options: OperationOptions = {}
+  ): Promise<Result<UnityHubInstallerEvent, InvalidArgumentError | UnityInstallationError>> {
+    const editor = await this.getRemovableEditor(version, options);
+    if (!editor.success) {
+      return editor;
+    }
+
+    const folder = editor.value.folder;
+    const viaHub = await this.supportsHubCommand("uninstall", options);
+
+    if (!viaHub && !(await this.isInInstallLocation(folder, options))) {
+      return err(
+        new UnityInstallationError(
+          `Refusing to delete Unity ${version} at ${folder}: it is not inside a Unity Hub install location.`,
+          { version, folder }
+        )
+      );
+    }
+
+    const request = { operation: InstallJobOperation.RemoveEditor, version, modules: [] };
+    const logger = getLogger(options.logger);
+
+    const installerEmitter = this.enqueueInstall(request, options, (installerEmitter) =>
+      this.runRemoval(installerEmitter, `Unity ${version}`, logger, async () => {
+        // Projects may have been opened with the editor while the removal was waiting in the queue
+        const notRunning = await this.checkNotRunning(version, folder);
+        if (!notRunning.success) {
+          return notRunning;
+        }
+
+        logger.debug("Removing editor", { version, folder, viaHub });
+        installerEmitter.Report([{ module: "editor", status: InstallerStatus.Uninstalling }]);
+
+        if (viaHub) {
+          const result = await this.execUnityHubCommand(["uninstall", "-v", version], {
+            reject: false,
+            signal: installerEmitter.signal,
+            logger,
+            runner: options.runner,
+          });
+          if (!result.success || result.value.exitCode !== 0) {
+            return result.success ? ok(result.value.exitCode) : result;
+          }
+        } else {
+          await fs.remove(folder);
+        }
+
+        installerEmitter.Report([{ module: "editor", status: InstallerStatus.Uninstalled }]);
+        return ok(0);
+      })
+    );
+
+    return ok(installerEmitter);
+  }
+
+  /**
+   * Removes modules from an installed Unity Editor. Unity Hub removes the modules when its command line supports it;
+   * otherwise the module folders recorded in the editor's `modules.json` are deleted.
+   * @param {string} version - Unity version to remove modules from (e.g. "2022.3.60f1")
+   * @param {ModuleId[]} modules - Array of module IDs to remove
+   * @param {OperationOptions} [options={}] - Operation options; aborting the signal cancels the removal like {@link UnityHubInstallerEvent.Cancel}
+   * @returns {Promise<Result<UnityHubInstallerEvent>>} Result containing event emitter for removal progress, or an error
+   *          if the editor or a module is not installed, or the editor is running
+   * @public
+   */
+  public static async removeModules(
+    version: string,
+    modules: ModuleId[],
+    options: OperationOptions = {}
+  ): Promise<Result<UnityHubInstallerEvent, InvalidArgumentError | UnityInstallationError>> {
+    if (modules.length === 0) {
+      return err(new InvalidArgumentError("No module IDs provided.", { version, modules }));
+    }
+
+    const editor = await this.getRemovableEditor(version, options);
+    if (!editor.success) {
+      return editor;
+    }
+
+    const { folder } = editor.value;
+    const manifestPath = path.join(folder, "modules.json");
+    const manifest = await this.readModulesFile(folder);
+    const destinations = new Map<string, string>();
+
+    for (const module of modules) {
+      const destination = manifest.find((entry) => entry.id === module)?.destination?.replace("{UNITY_PATH}", folder);
+      const relative = destination ? path.relative(folder, path.resolve(folder, destination)) : "";
+
+      if (!destination || !fs.existsSync(path.resolve(folder, destination))) {
+        return err(
+          new UnityInstallationError(`Module ${module} is not installed in Unity ${version}.`, { version, module })
+        );
+      }
+
+      if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+        return err(
+          new UnityInstallationError(
+            `Refusing to delete module ${module} at ${destination}: it is not inside the Unity ${version} install folder.`,
+            { version, module, destination }
+          )
+        );
+      }
+
+      destinations.set(module, path.resolve(folder, destination));
+    }
+
+    const viaHub = await this.supportsHubCommand("uninstall-modules", options);
+    const request = { operation: InstallJobOperation.RemoveModules, version, modules };
+    const logger = getLogger(options.logger);
+
+    const installerEmitter = this.enqueueInstall(request, options, (installerEmitter) =>
+      this.runRemoval(installerEmitter, `modules ${modules} from Unity ${version}`, logger, async () => {
+        const notRunning = await this.checkNotRunning(version, folder);
+        if (!notRunning.success) {
+          return notRunning;
+        }
+
+        logger.debug("Removing modules", { version, modules, viaHub });
+
+        if (viaHub) {
+          installerEmitter.Report(modules.map((module) => ({ module, status: InstallerStatus.Uninstalling })));
+          const result = await this.execUnityHubCommand(
+            ["uninstall-modules", "-v", version, "--module", modules.join(" ")],
+            { reject: false, signal: installerEmitter.signal, logger, runner: options.runner }
+          );
+          if (!result.success || result.value.exitCode !== 0) {
+            return result.success ? ok(result.value.exitCode) : result;
+          }
+
+          installerEmitter.Report(modules.map((module) => ({ module, status: InstallerStatus.Uninstalled })));
+          return ok(0);
+        }
+
+        for (const [module, destination] of destinations) {
+          if (installerEmitter.signal?.aborted) {
+            return err(new UnityCancelledError("Module removal was cancelled"));
+          }
+
+          installerEmitter.Report([{ module, status: InstallerStatus.Uninstalling }]);
+          await fs.remove(destination);
+          installerEmitter.Report([{ module, status: InstallerStatus.Uninstalled }]);
+        }
+
+        // Unity Hub lists the modules marked as selected as installed; read the file again as queued jobs may have changed it
+        const content = await fs.readFile(manifestPath, "utf8");
+        const current = await this.readModulesFile(folder);
+        const updated = current.map((entry) => (destinations.has(entry.id) ? { ...entry, selected: false } : entry));
+        await fs.writeFile(manifestPath, JSON.stringify(updated, null, /^([ \t]+)\S/m.exec(content)?.[1] ?? 2));
+        return ok(0);
       })
+    );
+
+    return ok(installerEmitter);
+  }
+
+  /**
+   * Runs a removal in the background once the caller had a chance to subscribe to the emitter,
+   * settling the emitter with its outcome
+   * @param {UnityHubInstallerEvent} installerEmitter - The emitter reporting the removal
+   * @param {string} description - What is removed, used in log messages
+   * @param {Logger} logger - Logger receiving the errors of the removal
+   * @param {Function} remove - Performs the removal and returns the exit code of the Hub, 0 when done without it
+   * @returns {void}
+   * @private
+   */
+  private static runRemoval(
+    installerEmitter: UnityHubInstallerEvent,
+    description: string,
+    logger: Logger,
+    remove: () => Promise<Result<number | undefined, UnityError>>
+  ): void {
+    setImmediate(() => {
+      remove()
         .then((result) => {
-          if (!result.success) {
-            console.error(`Error installing Unity ${version}:`, result.error);
+          if (result.success) {
+            installerEmitter.Exit(result.value);
+          } else if (result.error instanceof UnityCancelledError) {
+            installerEmitter.Cancel();
+          } else {
+            logger.error(`Error removing ${description}`, { error: result.error });
+            installerEmitter.Fail(result.error);
           }
         })
         .catch((error) => {
-          console.error(`Error installing Unity ${version}:`, error);
+          logger.error(`Error removing ${description}`, { error });
+          installerEmitter.Fail(new UnityInstallationError(String(error)));
         });
+    });
+  }
 
-      return ok(installerEmitter);
-    } catch (error) {
-      console.error(error);
+  /**
+   * Finds the install folder of an editor that can be removed, that is installed and not running
+   * @param {string} version - Unity version
+   * @param {OperationOptions} options - Operation options (e.g., the runner of the Unity Hub fallback listing editors)
+   * @returns {Promise<Result<{folder: string}>>} Result containing the install folder or error
+   * @private
+   */
+  private static async getRemovableEditor(
+    version: string,
+    options: OperationOptions
+  ): Promise<Result<{ folder: string }, InvalidArgumentError | UnityInstallationError>> {
+    if (!UnityVersion.isVersion(version)) {
+      return err(new InvalidArgumentError(`Invalid Unity version "${version}".`, { version }));
+    }
+
+    const editors = await this.getInstalledEditors(options);
+    const editor = editors.success ? editors.value[version] : undefined;
+
+    if (!editor) {
+      return err(new UnityInstallationError(`Unity ${version} is not installed.`, { version }));
+    }
+
+    const folder = this.getEditorFolder(editor.path);
+    const notRunning = await this.checkNotRunning(version, folder);
+
+    return notRunning.success ? ok({ folder }) : notRunning;
+  }
+
+  /**
+   * Checks that no process runs from an editor folder, such as the editor of an open project
+   * @param {string} version - Unity version
+   * @param {string} folder - The editor install folder
+   * @returns {Promise<Result<void>>} Result indicating the editor is not running, or an error listing its processes
+   * @private
+   */
+  private static async checkNotRunning(version: string, folder: string): Promise<Result<void, UnityInstallationError>> {
+    const pids = await findProcessesInFolder(folder);
+    if (pids.length > 0) {
       return err(
-        new UnityInstallationError(`Failed to install Unity ${version}: ${String(error)}`, { version, modules, architecture })
+        new UnityInstallationError(
+          `Unity ${version} is in use by ${pids.length} running process(es). Close the projects open with it first.`,
+          { version, folder, pids }
+        )
       );
     }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Gets the install folder of an editor, which holds the editor and its `modules.json`
+   * @param {string} editorPath - Path to the editor as reported by Unity Hub
+   * @returns {string} The install folder
+   * @private
+   */
+  private static getEditorFolder(editorPath: string): string {
+    const { editorExecutable } = UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS];
+    const resolvedPath = path.resolve(editorPath);
+
+    return resolvedPath.endsWith(path.sep + editorExecutable)
+      ? resolvedPath.slice(0, -(editorExecutable.length + 1))
+      : path.dirname(resolvedPath);
+  }
+
+  /**
+   * Reads the `modules.json` file Unity Hub writes in an editor folder
+   * @param {string} folder - The editor install folder
+   * @returns {Promise<UnityHubModuleEntry[]>} The module entries, empty if the file is missing or invalid
+   * @private
+   */
+  private static async readModulesFile(folder: string): Promise<UnityHubModuleEntry[]> {
+    const modulesPath = path.join(folder, "modules.json");
+
+    try {
+      if (!fs.existsSync(modulesPath)) {
+        return [];
+      }
+
+      const entries: unknown = await fs.readJson(modulesPath);
+      return Array.isArray(entries) ? (entries as UnityHubModuleEntry[]) : [];
+    } catch (error) {
+      getLogger().debug(`Unable to read ${modulesPath}`, { error });
+      return [];
+    }
+  }
+
+  /**
+   * Checks whether a folder is an editor folder directly inside a Unity Hub install location,
+   * so it can be deleted without risking unrelated files
+   * @param {string} folder - The editor install folder
+   * @param {OperationOptions} options - Operation options (e.g., the runner Unity Hub is asked its install location with)
+   * @returns {Promise<boolean>} True if the folder is inside an install location
+   * @private
+   */
+  private static async isInInstallLocation(folder: string, options: OperationOptions): Promise<boolean> {
+    const config = UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS];
+    const hubInstallPath = (await this.isUnityHubAvailable(options)) ? await this.getInstallPath(options) : null;
+    const roots = [
+      config.editorsFolder,
+      await this.readSecondaryInstallPath(),
+      hubInstallPath?.success ? hubInstallPath.value : null,
+    ];
+    const normalize = (value: string): string => {
+      const resolved = path.resolve(value);
+      return this.platform === "win32" ? resolved.toLowerCase() : resolved;
+    };
+
+    return roots.some((root) => !!root && normalize(path.dirname(folder)) === normalize(root));
+  }
+
+  /**
+   * Checks whether the installed Unity Hub command line has a command, as listed by `help`
+   * Operations given their own runner ask it every time, without caching its answer.
+   * @param {string} command - The command name
+   * @param {OperationOptions} options - Operation options (e.g., the runner and AbortSignal Unity Hub is run with)
+   * @returns {Promise<boolean>} True if Unity Hub is available and has the command
+   * @private
+   */
+  private static async supportsHubCommand(command: string, options: OperationOptions): Promise<boolean> {
+    if (!(await this.isUnityHubAvailable(options))) {
+      return false;
+    }
+
+    const query = (): Promise<string> =>
+      this.execUnityHubCommand(["help"], {
+        reject: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      }).then((result) => (result.success ? result.value.stdout : ""));
+    const help = options.runner ? query() : (this.hubHelp ??= query());
+
+    return new RegExp(`^\\s*${command}(\\s|$)`, "m").test(await help);
+  }
+
+  /**
+   * Forgets what was learned about the installed Unity Hub, such as the commands its command line supports,
+   * so it is asked again on next use. Called by {@link UnityEditor.clearEditorCache}.
+   * @returns {void}
+   * @public
+   */
+  public static clearCache(): void {
+    this.hubHelp = null;
   }
 
   /**
@@ -358,32 +1293,279 @@ class UnityHub {
   public static async getProjects(): Promise<
     Result<{ name: string; path: string; version: string }[], UnityProjectError>
   > {
-    try {
-      const projectsPath = this.getProjectsPath();
+    const result = await this.getProjectRecords();
+
+    if (!result.success) {
+      return result;
+    }
+
+    const mappedProjects = result.value.map((project: UnityHubProject) => ({
+      name: project.title,
+      path: project.path,
+      version: project.version,
+    }));
+
+    return ok(mappedProjects);
+  }
+
+  /**
+   * Gets the projects from Unity Hub with every field Unity Hub records for them
+   * @returns {Promise<Result<UnityHubProject[]>>} Result containing the project records or error
+   * @public
+   */
+  public static async getProjectRecords(): Promise<Result<UnityHubProject[], UnityProjectError>> {
+    const projectsPath = this.getProjectsPath();
+
+    if (!projectsPath || !fs.existsSync(projectsPath)) {
+      getLogger().debug("Projects file not found", { path: projectsPath });
+      return err(new UnityProjectError(`Projects file not found at: ${projectsPath}`, { projectsPath }));
+    }
+
+    const result = await this.readProjectsList(projectsPath);
+    return result.success ? ok(Object.values(result.value.data)) : result;
+  }
+
+  /**
+   * Registers a project with Unity Hub, so it shows in the Hub projects list.
+   * The editor version and changeset are read from the project's `ProjectSettings/ProjectVersion.txt`.
+   * Unity Hub keeps the list in memory while running, so changes show after the Hub restarts.
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {AddHubProjectOptions} [options={}] - Title, favorite state and architecture of the project
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the added record or error
+   * @public
+   */
+  public static async addProject(
+    projectPath: string,
+    options: AddHubProjectOptions = {}
+  ): Promise<Result<UnityHubProject, UnityProjectError>> {
+    const resolvedPath = path.resolve(projectPath);
 
-      if (!projectsPath || !fs.existsSync(projectsPath)) {
-        console.debug(`Projects file not found at: ${projectsPath}`);
+    try {
+      const versionInfo = await UnityProjectSettings.readProjectVersion(resolvedPath);
+      if (!versionInfo) {
         return err(
-          new UnityProjectError(`Projects file not found at: ${projectsPath}`, { projectsPath })
+          new UnityProjectError(
+            `Not a Unity project: ${UnityProjectSettings.getProjectVersionPath(resolvedPath)} is missing or has no m_EditorVersion`,
+            { projectPath: resolvedPath }
+          )
         );
       }
 
+      const title =
+        options.title ?? (await UnityProjectSettings.readProductName(resolvedPath)) ?? path.basename(resolvedPath);
+      const project: UnityHubProject = {
+        title,
+        lastModified: Date.now(),
+        isCustomEditor: false,
+        path: resolvedPath,
+        containingFolderPath: path.dirname(resolvedPath),
+        version: versionInfo.editorVersion,
+        architecture:
+          options.architecture ?? (os.arch() === "arm64" ? EditorArchitecture.arm64 : EditorArchitecture.x86_64),
+        changeset: versionInfo.changeset ?? "",
+        isFavorite: options.favorite ?? false,
+        localProjectId: randomUUID(),
+        cloudEnabled: false,
+      };
+
+      return await this.updateProjectsList((projects) => {
+        if (this.findProjectKey(projects, resolvedPath)) {
+          return new UnityProjectError(`Project is already registered with Unity Hub: ${resolvedPath}`, {
+            projectPath: resolvedPath,
+          });
+        }
+
+        projects.data[resolvedPath] = project;
+        return project;
+      }, true);
+    } catch (error) {
+      return err(new UnityProjectError(`Failed to add project: ${String(error)}`, { projectPath: resolvedPath }));
+    }
+  }
+
+  /**
+   * Removes a project from the Unity Hub projects list; the project folder is left untouched
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the removed record or error
+   * @public
+   */
+  public static async removeProject(projectPath: string): Promise<Result<UnityHubProject, UnityProjectError>> {
+    return this.updateProjectsList((projects) => {
+      const key = this.findProjectKey(projects, projectPath);
+      if (!key) {
+        return this.projectNotRegistered(projectPath);
+      }
+
+      const project = projects.data[key];
+      delete projects.data[key];
+      return project;
+    });
+  }
+
+  /**
+   * Marks or unmarks a project as favorite in Unity Hub
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {boolean} favorite - Whether the project is a favorite
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the updated record or error
+   * @public
+   */
+  public static async setFavorite(
+    projectPath: string,
+    favorite: boolean
+  ): Promise<Result<UnityHubProject, UnityProjectError>> {
+    return this.updateProjectsList((projects) => {
+      const key = this.findProjectKey(projects, projectPath);
+      if (!key) {
+        return this.projectNotRegistered(projectPath);
+      }
+
+      projects.data[key].isFavorite = favorite;
+      return projects.data[key];
+    });
+  }
+
+  /**
+   * Changes the editor version Unity Hub opens a project with. The project files are not modified;
+   * Unity upgrades the project when it is opened with the new version.
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} version - Unity version, e.g. "2022.3.60f1"
+   * @param {string} [changeset] - Changeset of the version, left empty if unknown
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the updated record or error
+   * @public
+   */
+  public static async updateProjectVersion(
+    projectPath: string,
+    version: string,
+    changeset?: string
+  ): Promise<Result<UnityHubProject, UnityProjectError | InvalidArgumentError>> {
+    if (!UnityVersion.isVersion(version)) {
+      return err(new InvalidArgumentError(`Invalid Unity version "${version}".`, { version }));
+    }
+
+    return this.updateProjectsList((projects) => {
+      const key = this.findProjectKey(projects, projectPath);
+      if (!key) {
+        return this.projectNotRegistered(projectPath);
+      }
+
+      projects.data[key].version = version;
+      projects.data[key].changeset = changeset ?? "";
+      return projects.data[key];
+    });
+  }
+
+  /**
+   * Reads the Unity Hub projects list file
+   * @param {string} projectsPath - Path to the projects list file
+   * @returns {Promise<Result<UnityHubProjectsList>>} Result containing the projects list or error
+   * @private
+   */
+  private static async readProjectsList(
+    projectsPath: string
+  ): Promise<Result<UnityHubProjectsList, UnityProjectError>> {
+    try {
       const projectsData: UnityHubProjectsList = await fs.readJson(projectsPath);
-      const projects = Object.values(projectsData.data);
+      projectsData.data = (projectsData.data as Record<string, UnityHubProject> | undefined) ?? {};
+      return ok(projectsData);
+    } catch (error) {
+      getLogger().error("Error reading Unity Hub projects", { error });
+      return err(new UnityProjectError(`Failed to read projects file: ${String(error)}`, { projectsPath }));
+    }
+  }
+
+  /**
+   * Reads the projects list, applies a change and writes it back atomically.
+   * Changes are applied one at a time, each reading the list written by the previous one.
+   * The previous file is kept next to it with a `.bak` extension.
+   * @param {Function} change - Mutates the projects list and returns the affected record, or returns an error to abort without writing
+   * @param {boolean} [create=false] - Whether to create the projects list if Unity Hub has none yet
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the affected record or error
+   * @private
+   */
+  private static async updateProjectsList(
+    change: (projects: UnityHubProjectsList) => UnityHubProject | UnityProjectError,
+    create: boolean = false
+  ): Promise<Result<UnityHubProject, UnityProjectError>> {
+    const update = projectsListUpdate.then(() => this.applyProjectsListChange(change, create));
+    projectsListUpdate = update.catch(() => undefined);
+    return update;
+  }
 
-      const mappedProjects = projects.map((project: UnityHubProject) => ({
-        name: project.title,
-        path: project.path,
-        version: project.version,
-      }));
+  /**
+   * Applies a change to the projects list, see {@link UnityHub.updateProjectsList}
+   * @param {Function} change - Mutates the projects list and returns the affected record, or returns an error to abort without writing
+   * @param {boolean} create - Whether to create the projects list if Unity Hub has none yet
+   * @returns {Promise<Result<UnityHubProject>>} Result containing the affected record or error
+   * @private
+   */
+  private static async applyProjectsListChange(
+    change: (projects: UnityHubProjectsList) => UnityHubProject | UnityProjectError,
+    create: boolean
+  ): Promise<Result<UnityHubProject, UnityProjectError>> {
+    const projectsPath = this.getProjectsPath();
+    const exists = !!projectsPath && fs.existsSync(projectsPath);
+
+    if (!exists && !create) {
+      return err(new UnityProjectError(`Projects file not found at: ${projectsPath}`, { projectsPath }));
+    }
+
+    const read: Result<UnityHubProjectsList, UnityProjectError> = exists
+      ? await this.readProjectsList(projectsPath)
+      : ok({ schema_version: "v1", data: {} });
+    if (!read.success) {
+      return read;
+    }
+
+    const project = change(read.value);
+    if (project instanceof UnityProjectError) {
+      return err(project);
+    }
 
-      return ok(mappedProjects);
+    const tempPath = `${projectsPath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.outputJson(tempPath, read.value);
+      if (exists) {
+        await fs.copy(projectsPath, `${projectsPath}.bak`);
+      }
+      await fs.rename(tempPath, projectsPath);
+      return ok(project);
     } catch (error) {
-      console.error("Error getting recent projects:", error);
-      return err(new UnityProjectError(`Failed to get projects: ${String(error)}`));
+      await fs.remove(tempPath).catch(() => undefined);
+      getLogger().error("Error writing Unity Hub projects", { error });
+      return err(new UnityProjectError(`Failed to write projects file: ${String(error)}`, { projectsPath }));
     }
   }
 
+  /**
+   * Finds the key of a project in the projects list; paths are compared case-insensitively on Windows
+   * @param {UnityHubProjectsList} projects - The projects list
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {string | undefined} The key of the project, or undefined if it is not registered
+   * @private
+   */
+  private static findProjectKey(projects: UnityHubProjectsList, projectPath: string): string | undefined {
+    const normalize = (value: string): string => {
+      const resolved = path.resolve(value);
+      return this.platform === "win32" ? resolved.toLowerCase() : resolved;
+    };
+    const target = normalize(projectPath);
+
+    return Object.keys(projects.data).find(
+      (key) => normalize(key) === target || normalize(projects.data[key].path) === target
+    );
+  }
+
+  /**
+   * Creates the error returned when a project is not in the Unity Hub projects list
+   * @private
+   */
+  private static projectNotRegistered(projectPath: string): UnityProjectError {
+    const resolvedPath = path.resolve(projectPath);
+    return new UnityProjectError(`Project is not registered with Unity Hub: ${resolvedPath}`, {
+      projectPath: resolvedPath,
+    });
+  }
+
   /**
    * Gets the default project directory configured in Unity Hub
    * @returns {Promise<Result<string | null>>} Result containing path to default project directory or null if not configured
@@ -394,17 +1576,192 @@ class UnityHub {
       const projectDirPath = this.getProjectDirPath();
 
       if (!projectDirPath || !fs.existsSync(projectDirPath)) {
-        console.debug(`Project directory file not found at: ${projectDirPath}`);
+        getLogger().debug("Project directory file not found", { path: projectDirPath });
         return ok(null);
       }
 
       const projectDirData = await fs.readJson(projectDirPath);
       return ok(projectDirData.directoryPath ?? null);
     } catch (error) {
-      console.error("Error getting default project directory:", error);
+      getLogger().error("Error getting default project directory", { error });
       return err(new UnityProjectError(`Failed to get default project directory: ${String(error)}`));
     }
   }
+
+  /**
+   * Gets the editors recorded in the Unity Hub editor registry (`editors-v2.json`, or `editors.json` for older Hubs),
+   * without running Unity Hub. This includes editors located manually in the Hub, wherever they are installed.
+   * @returns {Promise<Result<UnityInstallations>>} Result containing object mapping Unity versions to their recorded location,
+   *                                                 empty if Unity Hub has no registry
+   * @public
+   */
+  public static async getRegisteredEditors(): Promise<Result<UnityInstallations, UnityInstallationError>> {
+    const result = await this.readEditorRegistry();
+
+    if (!result.success) {
+      return result;
+    }
+
+    return ok(Object.fromEntries(result.value.map((entry) => [entry.version, entry.path])));
+  }
+
+  /**
+   * Reads the entries of the Unity Hub editor registry
+   * @returns {Promise<Result<UnityEditorInstallation[]>>} Result containing the registered editors, empty if Unity Hub has no registry
+   * @private
+   */
+  private static async readEditorRegistry(): Promise<Result<UnityEditorInstallation[], UnityInstallationError>> {
+    const registryPath = this.getEditorRegistryPaths().find((candidate) => fs.existsSync(candidate));
+
+    if (!registryPath) {
+      return ok([]);
+    }
+
+    try {
+      const registry = await fs.readJson(registryPath);
+      // editors-v2.json wraps the entries in a "data" array, editors.json maps versions to entries
+      const entries: { version?: string; location?: string | string[]; architecture?: string }[] = Array.isArray(
+        registry?.data
+      )
+        ? registry.data
+        : Object.values(registry ?? {});
+      const editors: UnityEditorInstallation[] = [];
+
+      for (const entry of entries) {
+        const location = Array.isArray(entry.location) ? entry.location[0] : entry.location;
+        if (entry.version && location) {
+          const architecture = Object.values<string>(EditorArchitecture).includes(entry.architecture ?? "")
+            ? (entry.architecture as EditorArchitecture)
+            : undefined;
+          editors.push({ version: entry.version, path: location, architecture });
+        }
+      }
+
+      return ok(editors);
+    } catch (error) {
+      getLogger().error("Error reading Unity Hub editor registry", { error });
+      return err(
+        new UnityInstallationError(`Failed to read Unity Hub editor registry: ${String(error)}`, { registryPath })
+      );
+    }
+  }
+
+  /**
+   * Finds the installed editors from the Unity Hub editor registry and install folders, without running Unity Hub
+   * @returns {Promise<UnityEditorInstallations>} Object mapping Unity versions to the installed editors, empty if none is found
+   * @private
+   */
+  private static async findInstalledEditors(): Promise<UnityEditorInstallations> {
+    const config = UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS];
+    const registry = await this.readEditorRegistry();
+    const candidates = registry.success ? [...registry.value] : [];
+
+    for (const folder of [await this.readSecondaryInstallPath(), config.editorsFolder]) {
+      if (!folder || !fs.statSync(folder, { throwIfNoEntry: false })?.isDirectory()) continue;
+
+      for (const entry of await fs.readdir(folder)) {
+        // Unity Hub appends the architecture to the folder name when both are installed, e.g. "2022.3.60f1-x86_64"
+        const version = /^\d+\.\d+\.\d+[abcfpx]\d+/.exec(entry)?.[0];
+        if (version) {
+          candidates.push({ version, path: path.join(folder, entry, config.editorExecutable) });
+        }
+      }
+    }
+
+    const installations: UnityEditorInstallation[] = [];
+    const seenPaths = new Set<string>();
+
+    for (const candidate of candidates) {
+      const resolvedPath = path.resolve(candidate.path);
+      if (seenPaths.has(resolvedPath) || !fs.existsSync(candidate.path)) continue;
+      seenPaths.add(resolvedPath);
+
+      const details = await readEditorDetails(candidate.path);
+      installations.push({
+        ...candidate,
+        architecture: candidate.architecture ?? details.architecture,
+        changeset: details.changeset,
+      });
+    }
+
+    return this.toEditorInstallations(installations);
+  }
+
+  /**
+   * Maps installed editors by version. When both architectures of a version are installed, the one of the system
+   * architecture is keyed by its version and the other by its version and architecture, e.g. "2022.3.60f1-x86_64",
+   * the name Unity Hub gives its folder.
+   * @param {UnityEditorInstallation[]} installations - The installed editors, in order of preference
+   * @returns {UnityEditorInstallations} Object mapping Unity versions to the installed editors
+   * @private
+   */
+  private static toEditorInstallations(installations: UnityEditorInstallation[]): UnityEditorInstallations {
+    const systemArchitecture = this.getSystemArchitecture();
+    const ordered = [...installations].sort(
+      (a, b) => Number(b.architecture === systemArchitecture) - Number(a.architecture === systemArchitecture)
+    );
+    const editors: UnityEditorInstallations = {};
+
+    for (const installation of ordered) {
+      const primary = installation.version in editors ? editors[installation.version] : undefined;
+
+      if (!primary) {
+        editors[installation.version] = installation;
+      } else if (installation.architecture && installation.architecture !== primary.architecture) {
+        editors[`${installation.version}-${installation.architecture}`] ??= installation;
+      }
+    }
+
+    return editors;
+  }
+
+  /**
+   * Finds an installed editor of a version, preferring the requested architecture when both are installed
+   * @param {UnityEditorInstallations} editors - The installed editors
+   * @param {string} version - Unity version
+   * @param {EditorArchitecture} [architecture] - Requested architecture
+   * @returns {UnityEditorInstallation | undefined} The editor, or undefined if the version is not installed
+   * @private
+   */
+  private static findInstalledEditor(
+    editors: UnityEditorInstallations,
+    version: string,
+    architecture?: EditorArchitecture
+  ): UnityEditorInstallation | undefined {
+    const other = architecture ? editors[`${version}-${architecture}`] : undefined;
+    return other ?? (version in editors ? editors[version] : undefined);
+  }
+
+  /**
+   * Gets the editor architecture matching the CPU of this machine
+   * @returns {EditorArchitecture} The architecture
+   * @private
+   */
+  private static getSystemArchitecture(): EditorArchitecture {
+    const arch = os.arch() || process.arch;
+    return arch === "arm64" || arch === "arm" ? EditorArchitecture.arm64 : EditorArchitecture.x86_64;
+  }
+
+  /**
+   * Reads the custom install folder set in Unity Hub, stored in `secondaryInstallPath.json`
+   * @returns {Promise<string | null>} The install folder, or null if none is set
+   * @private
+   */
+  private static async readSecondaryInstallPath(): Promise<string | null> {
+    const filePath = UnityHub.CONFIG_PATHS[this.platform as keyof typeof UnityHub.CONFIG_PATHS].secondaryInstallPath;
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      const value: unknown = await fs.readJson(filePath);
+      return typeof value === "string" && value ? value : null;
+    } catch (error) {
+      getLogger().debug(`Unable to read ${filePath}`, { error });
+      return null;
+    }
+  }
 }
 
 export default UnityHub;
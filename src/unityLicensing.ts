@@ -0,0 +1,554 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import {
+  FloatingLicenseOptions,
+  LicensingServerStatusOptions,
+  OperationOptions,
+  ProjectInfo,
+  RetryOptions,
+  ServicesConfigOptions,
+  UnityFloatingLease,
+  UnityLicenseErrorReason,
+  UnityLicensingServerStatus,
+  UnityServicesConfig,
+} from "./types/unity.js";
+import UnityEditor from "./unityEditor.js";
+import { executeCommand } from "./utils/commandExecutor.js";
+import { isExecutableAvailable } from "./utils/commandRunner.js";
+import { withRetry } from "./utils/retry.js";
+import { getLogger } from "./utils/logger.js";
+import {
+  Result,
+  ok,
+  err,
+  UnityError,
+  UnityCancelledError,
+  UnityCommandError,
+  UnityEditorNotFoundError,
+  UnityLicenseError,
+} from "./errors/index.js";
+
+/**
+ * Class for working with a Unity Licensing Server
+ * Provides methods to configure the Unity Licensing Client through `services-config.json`, check that the licensing
+ * server answers, and lease floating licenses around editor runs.
+ */
+class UnityLicensing {
+  /**
+   * Locations of the Unity Licensing Client executable, relative to the folder of the editor executable
+   * @private
+   */
+  private static LICENSING_CLIENT_PATHS: Partial<Record<NodeJS.Platform, string[]>> = {
+    win32: ["Data/Resources/Licensing/Client/Unity.Licensing.Client.exe"],
+    darwin: [
+      "../Frameworks/UnityLicensingClient.app/Contents/MacOS/Unity.Licensing.Client",
+      "../Frameworks/UnityLicensingClient.app/Contents/Resources/Unity.Licensing.Client",
+    ],
+    linux: ["Data/Resources/Licensing/Client/Unity.Licensing.Client"],
+  };
+
+  /**
+   * Endpoint of the licensing server reporting its status
+   * @private
+   */
+  private static STATUS_ENDPOINT = "/v1/admin/status";
+
+  /**
+   * Settings of `services-config.json` holding a number of seconds
+   * @private
+   */
+  private static TIMEOUT_SETTINGS = ["clientConnectTimeoutSec", "clientHandshakeTimeoutSec"];
+
+  /**
+   * Settings of `services-config.json` holding a flag
+   * @private
+   */
+  private static FLAG_SETTINGS = ["enableEntitlementLicensing", "enableFloatingApi"];
+
+  /**
+   * Output of the Licensing Client once a floating license is leased, e.g. `Successfully acquired with token: "…"`
+   * @private
+   */
+  private static LEASE_TOKEN_PATTERN = /acquired with token:?\s*"?([\w.-]+?)"?\.?(?:\s|$)/i;
+
+  /**
+   * Output of the Licensing Client giving the expiry of a lease
+   * @private
+   */
+  private static LEASE_EXPIRY_PATTERN =
+    /expir\w*\D*(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/i;
+
+  /**
+   * Messages of the Licensing Client when every floating license is leased
+   * @private
+   */
+  private static NO_SEATS_PATTERNS: RegExp[] = [
+    /no (available|free) (seats?|(floating )?licen[sc]es?)/i,
+    /no (floating )?licen[sc]es? (are )?available/i,
+    /(seat|licen[sc]e) limit/i,
+    /all (floating )?licen[sc]es (are )?(in use|leased|taken)/i,
+  ];
+
+  /**
+   * Messages of the Licensing Client when the licensing server cannot be reached
+   * @private
+   */
+  private static UNREACHABLE_PATTERNS: RegExp[] = [
+    /(cannot|unable to|failed to|could not) (connect|reach)/i,
+    /connection (was )?(refused|reset|closed|timed out)/i,
+    /\b(ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|ENOTFOUND)\b/,
+    /server (is )?(unavailable|unreachable|not reachable|not responding)/i,
+  ];
+
+  /**
+   * Gets the path of `services-config.json` on the current platform
+   * @returns {string} The path the Unity Licensing Client reads its configuration from
+   * @public
+   */
+  public static getServicesConfigPath(): string {
+    switch (os.platform()) {
+      case "win32":
+        return path.join(process.env.PROGRAMDATA ?? "C:/ProgramData", "Unity", "config", "services-config.json");
+      case "darwin":
+        return "/Library/Application Support/Unity/config/services-config.json";
+      default:
+        return "/usr/share/unity3d/config/services-config.json";
+    }
+  }
+
+  /**
+   * Checks a licensing server configuration: the server URL must be an HTTP(S) URL, flags must be booleans
+   * and timeouts positive numbers of seconds
+   * @param {unknown} config - The configuration to check
+   * @returns {Result<UnityServicesConfig>} Result containing the configuration, or license error listing the problems
+   * @public
+   */
+  public static validateServicesConfig(config: unknown): Result<UnityServicesConfig, UnityLicenseError> {
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      return err(
+        new UnityLicenseError(
+          "Invalid licensing configuration: expected an object",
+          {},
+          UnityLicenseErrorReason.InvalidConfiguration
+        )
+      );
+    }
+
+    const settings = config as Record<string, unknown>;
+    const problems: string[] = [];
+    const baseUrl = settings.licensingServiceBaseUrl;
+
+    if (typeof baseUrl !== "string" || !baseUrl.trim()) {
+      problems.push("licensingServiceBaseUrl is required");
+    } else if (!["http:", "https:"].includes(this.getProtocol(baseUrl))) {
+      problems.push(`licensingServiceBaseUrl is not an HTTP or HTTPS URL: ${baseUrl}`);
+    }
+
+    for (const key of this.FLAG_SETTINGS) {
+      if (settings[key] !== undefined && typeof settings[key] !== "boolean") {
+        problems.push(`${key} must be true or false`);
+      }
+    }
+
+    for (const key of this.TIMEOUT_SETTINGS) {
+      const value = settings[key];
+      if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+        problems.push(`${key} must be a positive number of seconds`);
+      }
+    }
+
+    if (problems.length > 0) {
+      return err(
+        new UnityLicenseError(
+          `Invalid licensing configuration: ${problems.join("; ")}`,
+          { problems },
+          UnityLicenseErrorReason.InvalidConfiguration
+        )
+      );
+    }
+
+    return ok(settings as UnityServicesConfig);
+  }
+
+  /**
+   * Reads and checks the licensing server configuration
+   * @param {ServicesConfigOptions} [options={}] - Options, with the path of the configuration file
+   * @returns {Promise<Result<UnityServicesConfig>>} Result containing the configuration, or license error if it is missing or invalid
+   * @public
+   */
+  public static async readServicesConfig(
+    options: ServicesConfigOptions = {}
+  ): Promise<Result<UnityServicesConfig, UnityLicenseError>> {
+    const configPath = options.configPath ?? this.getServicesConfigPath();
+
+    try {
+      if (!(await fs.pathExists(configPath))) {
+        return err(
+          new UnityLicenseError(
+            `Licensing configuration not found: ${configPath}`,
+            { configPath },
+            UnityLicenseErrorReason.InvalidConfiguration
+          )
+        );
+      }
+
+      const content = await fs.readFile(configPath, "utf8");
+      const result = this.validateServicesConfig(JSON.parse(content.replace(/^\uFEFF/, "")));
+
+      if (!result.success) {
+        return err(
+          new UnityLicenseError(
+            `${result.error.message} (${configPath})`,
+            { ...result.error.context, configPath },
+            UnityLicenseErrorReason.InvalidConfiguration
+          )
+        );
+      }
+
+      return result;
+    } catch (error) {
+      return err(
+        new UnityLicenseError(
+          `Error reading licensing configuration: ${String(error)}`,
+          { configPath },
+          UnityLicenseErrorReason.InvalidConfiguration
+        )
+      );
+    }
+  }
+
+  /**
+   * Checks and writes the licensing server configuration, replacing the existing one.
+   * Writing to the default location usually requires administrator rights.
+   * @param {UnityServicesConfig} config - The configuration
+   * @param {ServicesConfigOptions} [options={}] - Options, with the path of the configuration file
+   * @returns {Promise<Result<string>>} Result containing the path of the file written, or license error
+   * @public
+   * @example
+   * await UnityLicensing.writeServicesConfig({
+   *   licensingServiceBaseUrl: "http://licensing.example.com:8080",
+   *   enableEntitlementLicensing: true,
+   *   enableFloatingApi: true,
+   *   clientConnectTimeoutSec: 5,
+   *   clientHandshakeTimeoutSec: 10,
+   * });
+   */
+  public static async writeServicesConfig(
+    config: UnityServicesConfig,
+    options: ServicesConfigOptions = {}
+  ): Promise<Result<string, UnityLicenseError>> {
+    const configPath = options.configPath ?? this.getServicesConfigPath();
+    const result = this.validateServicesConfig(config);
+
+    if (!result.success) {
+      return result;
+    }
+
+    // Written next to the configuration and renamed over it, so the Licensing Client never reads a partial file
+    const tempPath = `${configPath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.outputFile(tempPath, `${JSON.stringify(config, null, 2)}\n`, "utf8");
+      await fs.rename(tempPath, configPath);
+      getLogger(options.logger).debug("Wrote licensing configuration", { configPath });
+      return ok(configPath);
+    } catch (error) {
+      await fs.remove(tempPath).catch(() => undefined);
+      return err(new UnityLicenseError(`Error writing licensing configuration: ${String(error)}`, { configPath }));
+    }
+  }
+
+  /**
+   * Requests the status of the licensing server, to check it can be reached before leasing a license
+   * @param {LicensingServerStatusOptions} [options={}] - Options, with the server URL when it is not read from the configuration file
+   * @returns {Promise<Result<UnityLicensingServerStatus>>} Result containing the answer of the server, or license error if it cannot be reached
+   * @public
+   */
+  public static async checkLicensingServer(
+    options: LicensingServerStatusOptions = {}
+  ): Promise<Result<UnityLicensingServerStatus, UnityLicenseError | UnityCancelledError>> {
+    let baseUrl = options.baseUrl;
+
+    if (!baseUrl) {
+      const config = await this.readServicesConfig(options);
+      if (!config.success) return config;
+      baseUrl = config.value.licensingServiceBaseUrl;
+    }
+
+    const url = `${baseUrl.replace(/\/+$/, "")}${this.STATUS_ENDPOINT}`;
+    const timeoutMs = options.timeoutMs ?? 10000;
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    const timer = setTimeout(onAbort, timeoutMs);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    getLogger(options.logger).debug("Requesting licensing server status", { url });
+
+    try {
+      const response = await fetch(url, { headers: { Accept: "application/json" }, signal: controller.signal });
+      const body = await response.text();
+      let details: unknown = body;
+
+      try {
+        details = JSON.parse(body);
+      } catch {
+        // Not every server answers with JSON
+      }
+
+      if (!response.ok) {
+        return err(
+          new UnityLicenseError(
+            `Licensing server answered with HTTP ${response.status}: ${url}`,
+            { url, statusCode: response.status, details },
+            UnityLicenseErrorReason.ServerUnreachable
+          )
+        );
+      }
+
+      return ok({ url, statusCode: response.status, details });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return err(new UnityCancelledError("Licensing server status request cancelled", { url }));
+      }
+
+      const reason = controller.signal.aborted
+        ? `timed out after ${timeoutMs}ms`
+        : String(error instanceof Error && error.cause ? error.cause : error);
+      return err(
+        new UnityLicenseError(
+          `Licensing server cannot be reached: ${url} (${reason})`,
+          { url },
+          UnityLicenseErrorReason.ServerUnreachable
+        )
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Leases a floating license from the licensing server set in `services-config.json`, through the Unity Licensing Client
+   * shipped with the editor of the project. Return it with {@link UnityLicensing.releaseFloatingLicense} once done,
+   * or use {@link UnityLicensing.withFloatingLicense}.
+   * @param {ProjectInfo} projectInfo - Information about the project (used to find the Licensing Client)
+   * @param {FloatingLicenseOptions} [options={}] - Options, with a retry policy e.g. to wait for a seat to be freed
+   * @returns {Promise<Result<UnityFloatingLease>>} Result containing the lease, or license error whose `reason` tells why it failed
+   * @public
+   */
+  public static async acquireFloatingLicense(
+    projectInfo: ProjectInfo,
+    options: FloatingLicenseOptions = {}
+  ): Promise<
+    Result<UnityFloatingLease, UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError>
+  > {
+    const logger = getLogger(options.logger);
+    const client = await this.resolveLicensingClient(projectInfo, options);
+
+    if (!client.success) {
+      return client;
+    }
+
+    return withRetry(async () => {
+      // The token is read from the output, which would otherwise be redacted
+      const result = await executeCommand(client.value, ["--acquire-floating"], {
+        reject: false,
+        redactOutput: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      const { stdout, stderr, exitCode } = result.value;
+      const token = this.LEASE_TOKEN_PATTERN.exec(stdout)?.[1];
+
+      if (!token) {
+        return err(
+          new UnityLicenseError(
+            `Failed to acquire a floating license: ${stderr || stdout}`,
+            { projectInfo, exitCode, stdout, stderr },
+            this.getFailureReason(`${stdout}\n${stderr}`, UnityLicenseErrorReason.LeaseFailed)
+          )
+        );
+      }
+
+      const expiry = this.LEASE_EXPIRY_PATTERN.exec(stdout)?.[1];
+      const expiresAt = expiry ? new Date(expiry) : undefined;
+      const lease: UnityFloatingLease = {
+        token,
+        acquiredAt: new Date(),
+        expiresAt: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : undefined,
+        licensingClientPath: client.value,
+      };
+
+      logger.debug("Acquired floating license", { expiresAt: lease.expiresAt });
+      return ok(lease);
+    }, options);
+  }
+
+  /**
+   * Returns a floating license to the licensing server, freeing its seat
+   * @param {UnityFloatingLease} lease - The lease to return
+   * @param {OperationOptions & RetryOptions} [options={}] - Operation options (e.g., an AbortSignal to cancel the operation,
+   *                                                        or a retry policy for licensing server failures)
+   * @returns {Promise<Result<void>>} Result indicating success or license error
+   * @public
+   */
+  public static async releaseFloatingLicense(
+    lease: UnityFloatingLease,
+    options: OperationOptions & RetryOptions = {}
+  ): Promise<Result<void, UnityCommandError | UnityCancelledError | UnityLicenseError>> {
+    return withRetry(async () => {
+      const result = await executeCommand(lease.licensingClientPath, ["--return-floating", lease.token], {
+        reject: false,
+        signal: options.signal,
+        logger: options.logger,
+        runner: options.runner,
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      const { stdout, stderr, exitCode } = result.value;
+      const output = `${stdout}\n${stderr}`;
+
+      if (exitCode === 0 && !/fail|error/i.test(output)) {
+        getLogger(options.logger).debug("Returned floating license");
+        return ok(undefined);
+      }
+
+      return err(
+        new UnityLicenseError(
+          `Failed to return the floating license: ${stderr || stdout}`,
+          { exitCode, stdout, stderr },
+          this.getFailureReason(output, UnityLicenseErrorReason.ReleaseFailed)
+        )
+      );
+    }, options);
+  }
+
+  /**
+   * Runs an operation while holding a floating license: the license is leased before the operation starts
+   * and returned once it completes, whether it succeeds or not.
+   * A lease that cannot be returned is logged as a warning and expires on the licensing server.
+   * @param {ProjectInfo} projectInfo - Information about the project (used to find the Licensing Client)
+   * @param {Function} operation - The operation, e.g. a test run or a build, given the lease
+   * @param {FloatingLicenseOptions} [options={}] - Options of the lease
+   * @returns {Promise<Result<T>>} The result of the operation, or license error if no license could be leased
+   * @public
+   * @example
+   * const result = await UnityLicensing.withFloatingLicense(projectInfo, () =>
+   *   UnityEditor.runTests(projectInfo, TestMode.EditMode)
+   * );
+   */
+  public static async withFloatingLicense<T, E extends UnityError>(
+    projectInfo: ProjectInfo,
+    operation: (lease: UnityFloatingLease) => Promise<Result<T, E>>,
+    options: FloatingLicenseOptions = {}
+  ): Promise<Result<T, E | UnityEditorNotFoundError | UnityCommandError | UnityCancelledError | UnityLicenseError>> {
+    const lease = await this.acquireFloatingLicense(projectInfo, options);
+
+    if (!lease.success) {
+      return lease;
+    }
+
+    try {
+      return await operation(lease.value);
+    } finally {
+      // The lease is returned even when the operation was cancelled
+      const released = await this.releaseFloatingLicense(lease.value, {
+        logger: options.logger,
+        runner: options.runner,
+        retry: options.retry,
+      });
+
+      if (!released.success) {
+        getLogger(options.logger).warn("Floating license was not returned, it stays leased until it expires", {
+          error: released.error.message,
+          expiresAt: lease.value.expiresAt,
+        });
+      }
+    }
+  }
+
+  /**
+   * Finds the Unity Licensing Client executable, next to the editor of the project unless a path is given
+   * @private
+   */
+  private static async resolveLicensingClient(
+    projectInfo: ProjectInfo,
+    options: FloatingLicenseOptions
+  ): Promise<Result<string, UnityEditorNotFoundError | UnityLicenseError>> {
+    if (options.licensingClientPath) {
+      const clientPath = path.resolve(options.licensingClientPath);
+      return (await isExecutableAvailable(clientPath, options.runner))
+        ? ok(clientPath)
+        : err(
+            new UnityLicenseError(
+              `Unity Licensing Client not found: ${clientPath}`,
+              { searchedPaths: [clientPath] },
+              UnityLicenseErrorReason.LicensingClientNotFound
+            )
+          );
+    }
+
+    const editor = await UnityEditor.resolveEditor({ version: projectInfo.editorVersion }, options);
+
+    if (!editor.success) {
+      return editor;
+    }
+
+    const candidates = (this.LICENSING_CLIENT_PATHS[os.platform()] ?? []).map((relative) =>
+      path.resolve(path.dirname(editor.value.path), relative)
+    );
+
+    for (const candidate of candidates) {
+      if (await isExecutableAvailable(candidate, options.runner)) {
+        return ok(candidate);
+      }
+    }
+
+    return err(
+      new UnityLicenseError(
+        `Unity Licensing Client not found for Unity ${projectInfo.editorVersion}`,
+        { projectInfo, searchedPaths: candidates },
+        UnityLicenseErrorReason.LicensingClientNotFound
+      )
+    );
+  }
+
+  /**
+   * Gets the protocol of a URL, empty if it is not a URL
+   * @private
+   */
+  private static getProtocol(url: string): string {
+    try {
+      return new URL(url).protocol;
+    } catch {
+      return "";
+    }
+  }
+
+  /**
+   * Tells why the Licensing Client failed from its output
+   * @private
+   */
+  private static getFailureReason(output: string, fallback: UnityLicenseErrorReason): UnityLicenseErrorReason {
+    if (this.NO_SEATS_PATTERNS.some((pattern) => pattern.test(output))) {
+      return UnityLicenseErrorReason.NoSeatsAvailable;
+    }
+
+    if (this.UNREACHABLE_PATTERNS.some((pattern) => pattern.test(output))) {
+      return UnityLicenseErrorReason.ServerUnreachable;
+    }
+
+    return fallback;
+  }
+}
+
+export default UnityLicensing;
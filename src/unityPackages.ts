@@ -0,0 +1,493 @@
+import fs from "fs-extra";
+import path from "path";
+import {
+  PackageLockEntry,
+  PackagesLock,
+  ResolvedPackage,
+  ScopedRegistry,
+  UnityPackageManifest,
+} from "./types/unity.js";
+import { Result, ok, err, UnityPackageError, InvalidArgumentError } from "./errors/index.js";
+
+/**
+ * Formatting of an existing JSON file, reused when writing it back so diffs only show actual changes
+ * @internal
+ */
+interface JsonFormat {
+  indent: string;
+  newline: string;
+  finalNewline: boolean;
+}
+
+/**
+ * Class for managing the Unity Package Manager files of a project
+ * Provides methods to edit `Packages/manifest.json` and to inspect the packages resolved in `Packages/packages-lock.json`
+ */
+class UnityPackages {
+  /**
+   * Formatting used for manifests that do not exist yet, matching what Unity writes
+   * @private
+   */
+  private static DEFAULT_FORMAT: JsonFormat = { indent: "  ", newline: "\n", finalNewline: true };
+
+  /**
+   * Pattern of valid package names (e.g. "com.unity.inputsystem")
+   * @private
+   */
+  private static PACKAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+  /**
+   * Gets the path of the package manifest of a project
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {string} Path of `Packages/manifest.json`
+   * @public
+   */
+  public static getManifestPath(projectPath: string): string {
+    return path.join(projectPath, "Packages", "manifest.json");
+  }
+
+  /**
+   * Gets the path of the package lock file of a project
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {string} Path of `Packages/packages-lock.json`
+   * @public
+   */
+  public static getLockFilePath(projectPath: string): string {
+    return path.join(projectPath, "Packages", "packages-lock.json");
+  }
+
+  /**
+   * Reads the package manifest of a project
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {Promise<Result<UnityPackageManifest>>} Result containing the manifest or package error
+   * @public
+   */
+  public static async readManifest(projectPath: string): Promise<Result<UnityPackageManifest, UnityPackageError>> {
+    const manifestPath = this.getManifestPath(projectPath);
+    const result = await this.readJson(manifestPath);
+
+    if (!result.success) {
+      return result;
+    }
+
+    return this.validateManifest(result.value.data, manifestPath);
+  }
+
+  /**
+   * Writes the package manifest of a project, keeping the indentation and line endings of the existing file
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {UnityPackageManifest} manifest - The manifest to write
+   * @returns {Promise<Result<void>>} Result indicating success or package error
+   * @public
+   */
+  public static async writeManifest(
+    projectPath: string,
+    manifest: UnityPackageManifest
+  ): Promise<Result<void, UnityPackageError>> {
+    const manifestPath = this.getManifestPath(projectPath);
+
+    try {
+      const format = (await fs.pathExists(manifestPath))
+        ? this.detectFormat(await fs.readFile(manifestPath, "utf8"))
+        : this.DEFAULT_FORMAT;
+
+      return await this.writeJson(manifestPath, manifest, format);
+    } catch (error) {
+      return err(new UnityPackageError(`Error writing package manifest: ${String(error)}`, { manifestPath }));
+    }
+  }
+
+  /**
+   * Adds a dependency to the package manifest
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} name - Package name (e.g. "com.unity.inputsystem")
+   * @param {string} version - Version, git URL or `file:` path of the package
+   * @returns {Promise<Result<void>>} Result indicating success, invalid argument or package error
+   * @example
+   * await UnityPackages.addDependency(projectPath, "com.company.tools", "https://github.com/company/tools.git#v1.2.0");
+   * @public
+   */
+  public static async addDependency(
+    projectPath: string,
+    name: string,
+    version: string
+  ): Promise<Result<void, UnityPackageError | InvalidArgumentError>> {
+    const invalid = this.validateDependency(name, version);
+    if (invalid) {
+      return err(invalid);
+    }
+
+    return this.updateManifest(projectPath, (manifest) => {
+      if (name in manifest.dependencies) {
+        return new UnityPackageError(`Package ${name} is already a dependency`, {
+          name,
+          version: manifest.dependencies[name],
+        });
+      }
+
+      manifest.dependencies = this.setDependency(manifest.dependencies, name, version);
+    });
+  }
+
+  /**
+   * Changes the version of an existing dependency in the package manifest
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} name - Package name
+   * @param {string} version - New version, git URL or `file:` path of the package
+   * @returns {Promise<Result<void>>} Result indicating success, invalid argument or package error
+   * @public
+   */
+  public static async updateDependency(
+    projectPath: string,
+    name: string,
+    version: string
+  ): Promise<Result<void, UnityPackageError | InvalidArgumentError>> {
+    const invalid = this.validateDependency(name, version);
+    if (invalid) {
+      return err(invalid);
+    }
+
+    return this.updateManifest(projectPath, (manifest) => {
+      if (!(name in manifest.dependencies)) {
+        return new UnityPackageError(`Package ${name} is not a dependency`, { name });
+      }
+
+      manifest.dependencies[name] = version;
+    });
+  }
+
+  /**
+   * Removes a dependency from the package manifest
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} name - Package name
+   * @returns {Promise<Result<void>>} Result indicating success or package error
+   * @public
+   */
+  public static async removeDependency(projectPath: string, name: string): Promise<Result<void, UnityPackageError>> {
+    return this.updateManifest<UnityPackageError>(projectPath, (manifest) => {
+      if (!(name in manifest.dependencies)) {
+        return new UnityPackageError(`Package ${name} is not a dependency`, { name });
+      }
+
+      delete manifest.dependencies[name];
+    });
+  }
+
+  /**
+   * Adds a scoped registry to the package manifest.
+   * If a registry with the same URL is already declared, the new scopes are merged into it.
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {ScopedRegistry} registry - The registry to add
+   * @returns {Promise<Result<void>>} Result indicating success, invalid argument or package error
+   * @example
+   * await UnityPackages.addScopedRegistry(projectPath, {
+   *   name: "package.openupm.com",
+   *   url: "https://package.openupm.com",
+   *   scopes: ["com.cysharp"],
+   * });
+   * @public
+   */
+  public static async addScopedRegistry(
+    projectPath: string,
+    registry: ScopedRegistry
+  ): Promise<Result<void, UnityPackageError | InvalidArgumentError>> {
+    if (!registry.name || !registry.url || registry.scopes.length === 0) {
+      return err(
+        new InvalidArgumentError("A scoped registry needs a name, a URL and at least one scope.", { registry })
+      );
+    }
+
+    return this.updateManifest(projectPath, (manifest) => {
+      const registries = manifest.scopedRegistries ?? [];
+      const existing = registries.find((entry) => entry.url === registry.url);
+
+      if (existing) {
+        existing.scopes = [...new Set([...existing.scopes, ...registry.scopes])];
+      } else {
+        registries.push({ name: registry.name, url: registry.url, scopes: [...registry.scopes] });
+      }
+
+      manifest.scopedRegistries = registries;
+    });
+  }
+
+  /**
+   * Removes a scoped registry from the package manifest
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} nameOrUrl - Name or URL of the registry
+   * @returns {Promise<Result<void>>} Result indicating success or package error
+   * @public
+   */
+  public static async removeScopedRegistry(
+    projectPath: string,
+    nameOrUrl: string
+  ): Promise<Result<void, UnityPackageError>> {
+    return this.updateManifest<UnityPackageError>(projectPath, (manifest) => {
+      const registries = manifest.scopedRegistries ?? [];
+      const remaining = registries.filter((entry) => entry.name !== nameOrUrl && entry.url !== nameOrUrl);
+
+      if (remaining.length === registries.length) {
+        return new UnityPackageError(`Scoped registry ${nameOrUrl} is not declared`, { nameOrUrl });
+      }
+
+      if (remaining.length > 0) {
+        manifest.scopedRegistries = remaining;
+      } else {
+        delete manifest.scopedRegistries;
+      }
+    });
+  }
+
+  /**
+   * Adds a package to the testables, so its tests are included in test runs
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} name - Package name
+   * @returns {Promise<Result<void>>} Result indicating success, invalid argument or package error
+   * @public
+   */
+  public static async addTestable(
+    projectPath: string,
+    name: string
+  ): Promise<Result<void, UnityPackageError | InvalidArgumentError>> {
+    if (!this.PACKAGE_NAME_PATTERN.test(name)) {
+      return err(new InvalidArgumentError(`Invalid package name "${name}".`, { name }));
+    }
+
+    return this.updateManifest(projectPath, (manifest) => {
+      const testables = manifest.testables ?? [];
+
+      if (!testables.includes(name)) {
+        manifest.testables = [...testables, name];
+      }
+    });
+  }
+
+  /**
+   * Removes a package from the testables
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {string} name - Package name
+   * @returns {Promise<Result<void>>} Result indicating success or package error
+   * @public
+   */
+  public static async removeTestable(projectPath: string, name: string): Promise<Result<void, UnityPackageError>> {
+    return this.updateManifest<UnityPackageError>(projectPath, (manifest) => {
+      const testables = manifest.testables ?? [];
+
+      if (!testables.includes(name)) {
+        return new UnityPackageError(`Package ${name} is not testable`, { name });
+      }
+
+      const remaining = testables.filter((entry) => entry !== name);
+      if (remaining.length > 0) {
+        manifest.testables = remaining;
+      } else {
+        delete manifest.testables;
+      }
+    });
+  }
+
+  /**
+   * Reads the package lock file of a project, written by Unity when it resolves packages
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {Promise<Result<PackagesLock>>} Result containing the lock file or package error
+   * @public
+   */
+  public static async readLockFile(projectPath: string): Promise<Result<PackagesLock, UnityPackageError>> {
+    const lockPath = this.getLockFilePath(projectPath);
+    const result = await this.readJson(lockPath);
+
+    if (!result.success) {
+      return result;
+    }
+
+    const lock = result.value.data as Partial<PackagesLock> | null;
+    if (!this.isObject(lock) || !this.isObject(lock.dependencies)) {
+      return err(
+        new UnityPackageError(`Invalid package lock file, "dependencies" is missing: ${lockPath}`, { lockPath })
+      );
+    }
+
+    return ok(lock as PackagesLock);
+  }
+
+  /**
+   * Gets the resolved package graph from the lock file, sorted by depth then name.
+   * Each package lists the packages it depends on and the packages that depend on it.
+   * @param {string} projectPath - Root folder of the Unity project
+   * @returns {Promise<Result<ResolvedPackage[]>>} Result containing the resolved packages or package error
+   * @public
+   */
+  public static async getResolvedPackages(projectPath: string): Promise<Result<ResolvedPackage[], UnityPackageError>> {
+    const result = await this.readLockFile(projectPath);
+
+    if (!result.success) {
+      return result;
+    }
+
+    const entries = Object.entries(result.value.dependencies);
+    const packages = entries.map(([name, entry]: [string, PackageLockEntry]): ResolvedPackage => ({
+      name,
+      ...entry,
+      dependencies: { ...entry.dependencies },
+      dependents: entries
+        .filter(([, other]) => Object.prototype.hasOwnProperty.call(other.dependencies ?? {}, name))
+        .map(([otherName]) => otherName)
+        .sort(),
+    }));
+
+    return ok(packages.sort((a, b) => a.depth - b.depth || a.name.localeCompare(b.name)));
+  }
+
+  /**
+   * Reads the manifest, applies a change and writes it back with the original formatting
+   * @param {string} projectPath - Root folder of the Unity project
+   * @param {Function} change - Mutates the manifest, or returns an error to abort without writing
+   * @returns {Promise<Result<void>>} Result indicating success or the error returned by the change
+   * @private
+   */
+  private static async updateManifest<E extends UnityPackageError | InvalidArgumentError>(
+    projectPath: string,
+    change: (manifest: UnityPackageManifest) => E | void
+  ): Promise<Result<void, UnityPackageError | E>> {
+    const manifestPath = this.getManifestPath(projectPath);
+    const result = await this.readJson(manifestPath);
+
+    if (!result.success) {
+      return result;
+    }
+
+    const manifest = this.validateManifest(result.value.data, manifestPath);
+    if (!manifest.success) {
+      return manifest;
+    }
+
+    const error = change(manifest.value);
+    if (error) {
+      return err(error);
+    }
+
+    return this.writeJson(manifestPath, manifest.value, result.value.format);
+  }
+
+  /**
+   * Checks that the content of a manifest is an object with a "dependencies" object
+   * @param {unknown} data - The parsed content of the manifest
+   * @param {string} manifestPath - Path of the manifest, for the error
+   * @returns {Result<UnityPackageManifest>} Result containing the manifest or package error
+   * @private
+   */
+  private static validateManifest(
+    data: unknown,
+    manifestPath: string
+  ): Result<UnityPackageManifest, UnityPackageError> {
+    const manifest = data as Partial<UnityPackageManifest> | null;
+    if (!this.isObject(manifest) || !this.isObject(manifest.dependencies)) {
+      return err(
+        new UnityPackageError(`Invalid package manifest, "dependencies" is missing: ${manifestPath}`, { manifestPath })
+      );
+    }
+
+    return ok(manifest as UnityPackageManifest);
+  }
+
+  /**
+   * Checks whether a JSON value is an object, rather than null, an array or a primitive
+   * @private
+   */
+  private static isObject(value: unknown): value is object {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Adds or replaces a dependency, keeping the dependencies sorted if they already were
+   * @private
+   */
+  private static setDependency(
+    dependencies: Record<string, string>,
+    name: string,
+    version: string
+  ): Record<string, string> {
+    const names = Object.keys(dependencies);
+    const sorted = names.every((entry, index) => index === 0 || names[index - 1] <= entry);
+
+    if (!sorted) {
+      return { ...dependencies, [name]: version };
+    }
+
+    return Object.fromEntries(
+      [...names.filter((entry) => entry !== name), name]
+        .sort()
+        .map((entry) => [entry, entry === name ? version : dependencies[entry]])
+    );
+  }
+
+  /**
+   * Validates the name and version of a dependency
+   * @private
+   */
+  private static validateDependency(name: string, version: string): InvalidArgumentError | undefined {
+    if (!this.PACKAGE_NAME_PATTERN.test(name)) {
+      return new InvalidArgumentError(
+        `Invalid package name "${name}". Package names are lowercase, e.g. "com.company.package".`,
+        { name }
+      );
+    }
+
+    if (!version.trim()) {
+      return new InvalidArgumentError(`No version provided for package ${name}.`, { name, version });
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads a JSON file along with its formatting
+   * @private
+   */
+  private static async readJson(
+    filePath: string
+  ): Promise<Result<{ data: unknown; format: JsonFormat }, UnityPackageError>> {
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return err(new UnityPackageError(`File not found: ${filePath}`, { filePath }));
+      }
+
+      const content = await fs.readFile(filePath, "utf8");
+      return ok({ data: JSON.parse(content.replace(/^\uFEFF/, "")) as unknown, format: this.detectFormat(content) });
+    } catch (error) {
+      return err(new UnityPackageError(`Error reading ${path.basename(filePath)}: ${String(error)}`, { filePath }));
+    }
+  }
+
+  /**
+   * Writes a JSON file with the given formatting
+   * @private
+   */
+  private static async writeJson(
+    filePath: string,
+    data: unknown,
+    format: JsonFormat
+  ): Promise<Result<void, UnityPackageError>> {
+    try {
+      const json = JSON.stringify(data, null, format.indent).replace(/\n/g, format.newline);
+      await fs.outputFile(filePath, format.finalNewline ? json + format.newline : json, "utf8");
+      return ok(undefined);
+    } catch (error) {
+      return err(new UnityPackageError(`Error writing ${path.basename(filePath)}: ${String(error)}`, { filePath }));
+    }
+  }
+
+  /**
+   * Detects the indentation and line endings of a JSON document
+   * @private
+   */
+  private static detectFormat(content: string): JsonFormat {
+    return {
+      indent: /^([ \t]+)"/m.exec(content)?.[1] ?? this.DEFAULT_FORMAT.indent,
+      newline: content.includes("\r\n") ? "\r\n" : "\n",
+      finalNewline: /\n$/.test(content),
+    };
+  }
+}
+
+export default UnityPackages;
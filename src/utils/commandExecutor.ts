@@ -1,86 +1,163 @@
-import { Options, execa } from "execa";
+import { Options } from "execa";
 import { Result, ok, err } from "../errors/index.js";
-import { UnityCommandError } from "../errors/index.js";
+import { UnityCancelledError, UnityCommandError } from "../errors/index.js";
+import { CommandOutput, OperationOptions, RetryOptions } from "../types/unity.js";
+import { getCommandRunner } from "./commandRunner.js";
+import { withRetry } from "./retry.js";
+import { getLogger } from "./logger.js";
+import { getSensitiveArgValues, redactText, redactValue } from "./security.js";
 
-export interface CommandOptions extends Options {
+export interface CommandOptions extends Options, OperationOptions, RetryOptions {
   reject?: boolean;
   timeout?: number;
   onStdout?: (data: string) => void;
   onStderr?: (data: string) => void;
   env?: Record<string, string>;
   cwd?: string;
+  /** Removes credentials from the output, defaults to true; disable only to read a value the command prints, such as a lease token */
+  redactOutput?: boolean;
 }
 
-export interface CommandOutput {
-  stdout: string;
-  stderr: string;
-  exitCode?: number;
+export type { CommandOutput };
+
+/**
+ * Creates a splitter that reassembles lines from arbitrary output chunks.
+ * A line split across two chunks is only reported once it is complete; empty lines are skipped.
+ *
+ * @param onLine - Callback invoked with every complete, non-empty line
+ * @returns - Functions to push a chunk and to flush the last unterminated line
+ * @internal
+ */
+export function createLineSplitter(onLine: (line: string) => void): {
+  push: (chunk: string) => void;
+  flush: () => void;
+} {
+  let remainder = "";
+
+  const emit = (line: string): void => {
+    if (line.trim()) {
+      onLine(line);
+    }
+  };
+
+  return {
+    push: (chunk: string): void => {
+      const lines = (remainder + chunk).split(/\r?\n/);
+      remainder = lines.pop() ?? "";
+      lines.forEach(emit);
+    },
+    flush: (): void => {
+      emit(remainder);
+      remainder = "";
+    },
+  };
 }
 
+/**
+ * Runs a command and collects its output.
+ * With a `retry` policy, a command that fails or exits with a non-zero code is run again while the policy
+ * classifies the failure as transient; when the last attempt exits with a non-zero code, a command error holding
+ * its output and every attempt is returned, even if `reject` is false.
+ *
+ * @param executable - The executable to run
+ * @param args - Arguments of the command
+ * @param options - Execution options
+ * @returns - Result containing the output of the command, or the error it failed with
+ */
 export async function executeCommand(
   executable: string,
   args: string[],
   options: CommandOptions = {}
-): Promise<Result<CommandOutput, UnityCommandError>> {
+): Promise<Result<CommandOutput, UnityCommandError | UnityCancelledError>> {
+  const redactedArgs = redactValue(args, getSensitiveArgValues(args));
+  getLogger(options.logger).debug("Executing command", { command: [executable, ...redactedArgs] });
+
+  return withRetry(
+    () => runCommand(executable, args, options),
+    options,
+    ({ stdout, stderr, exitCode }) =>
+      exitCode !== undefined && exitCode !== 0
+        ? new UnityCommandError(`Command exited with code ${exitCode}: ${executable}`, stdout, stderr, exitCode, {
+            executable,
+            args: redactedArgs,
+          })
+        : undefined
+  );
+}
+
+/**
+ * Runs a command once
+ * @internal
+ */
+async function runCommand(
+  executable: string,
+  args: string[],
+  options: CommandOptions
+): Promise<Result<CommandOutput, UnityCommandError | UnityCancelledError>> {
+  const { signal } = options;
+  // Credentials are removed from the output as well, since tools may echo their arguments
+  const secrets = getSensitiveArgValues(args);
+  const redactedArgs = redactValue(args, secrets);
+  const redact = (text: string): string => (text && options.redactOutput !== false ? redactText(text, secrets) : text);
+
+  if (signal?.aborted) {
+    return err(
+      new UnityCancelledError(`Command cancelled before it started: ${executable}`, { executable, args: redactedArgs })
+    );
+  }
+
   try {
-    const streamOutput = options.onStdout || options.onStderr;
+    const flushers: (() => void)[] = [];
+    const stream = (onLine?: (line: string) => void): ((chunk: string) => void) | undefined => {
+      if (!onLine) return undefined;
+      const splitter = createLineSplitter((line) => onLine(redact(line)));
+      flushers.push(splitter.flush);
+      return splitter.push;
+    };
 
-    const subprocess = execa(executable, args, {
+    const result = await getCommandRunner(options.runner).run(executable, args, {
       reject: options.reject ?? false,
       timeout: options.timeout,
       env: options.env,
       cwd: options.cwd,
-      encoding: "utf8",
-      buffer: !streamOutput,
+      signal,
+      onStdout: stream(options.onStdout),
+      onStderr: stream(options.onStderr),
     });
+    const stdout = redact(result.stdout);
+    const stderr = redact(result.stderr);
+    const exitCode = result.exitCode;
+    flushers.forEach((flush) => flush());
 
-    if (streamOutput) {
-      if (subprocess.stdout) {
-        subprocess.stdout.on("data", (data: Buffer) => {
-          const lines = data.toString().split(/\r?\n/);
-          for (const line of lines) {
-            if (line.trim()) {
-              if (options.onStdout) {
-                options.onStdout(line);
-              }
-            }
-          }
-        });
-      }
-
-      if (subprocess.stderr) {
-        subprocess.stderr.on("data", (data: Buffer) => {
-          const lines = data.toString().split(/\r?\n/);
-          for (const line of lines) {
-            if (line.trim()) {
-              if (options.onStderr) {
-                options.onStderr(line);
-              }
-            }
-          }
-        });
-      }
+    if (signal?.aborted) {
+      return err(
+        new UnityCancelledError(`Command cancelled: ${executable}`, { executable, args: redactedArgs, stdout, stderr })
+      );
     }
 
-    const { stdout, stderr, exitCode } = await subprocess;
-
     return ok({
       stdout,
       stderr,
       exitCode,
     });
   } catch (error: any) {
-    const stdout = error.stdout ?? "";
-    const stderr = error.stderr ?? String(error);
+    const stdout = redact(error.stdout ?? "");
+    const stderr = redact(error.stderr ?? String(error));
     const exitCode = error.exitCode;
 
+    if (signal?.aborted) {
+      return err(
+        new UnityCancelledError(`Command cancelled: ${executable}`, { executable, args: redactedArgs, stdout, stderr })
+      );
+    }
+
     return err(
       new UnityCommandError(
-        `Command execution failed: ${executable} ${args.join(" ")}`,
+        `Command execution failed: ${executable} ${redactedArgs.join(" ")}`,
         stdout,
         stderr,
         exitCode,
-        { executable, args }
+        { executable, args: redactedArgs }
       )
     );
   }
@@ -0,0 +1,126 @@
+import { execa } from "execa";
+import fs from "fs-extra";
+import { CommandOutput, CommandRunOptions, CommandRunner } from "../types/unity.js";
+import { killProcessTree } from "./processTree.js";
+
+/**
+ * Checks whether a path is an existing file, following symbolic links
+ * @internal
+ */
+async function isFile(filePath: string): Promise<boolean> {
+  const stats = await fs.stat(filePath).catch(() => null);
+  return !!stats?.isFile();
+}
+
+/**
+ * Runs commands as child processes through execa, stopping their whole process tree when cancelled
+ */
+export class ExecaCommandRunner implements CommandRunner {
+  /**
+   * Runs a command as a child process
+   * @param executable - The executable to run
+   * @param args - Arguments of the command
+   * @param options - Options of the run
+   * @returns {Promise<CommandOutput>} The output of the command, also when it is streamed
+   */
+  public async run(executable: string, args: string[], options: CommandRunOptions): Promise<CommandOutput> {
+    const { signal, onStdout, onStderr } = options;
+    const streamOutput = onStdout !== undefined || onStderr !== undefined;
+
+    const subprocess = execa(executable, args, {
+      reject: options.reject ?? false,
+      timeout: options.timeout,
+      env: options.env,
+      cwd: options.cwd,
+      encoding: "utf8",
+      buffer: !streamOutput,
+    });
+
+    const onAbort = (): void => {
+      if (subprocess.pid !== undefined) {
+        void killProcessTree(subprocess.pid);
+      }
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Streamed output is not buffered by execa, so it is collected here; decoding the streams as text keeps
+    // characters split between two chunks whole
+    const streamed = { stdout: "", stderr: "" };
+    const collect =
+      (stream: "stdout" | "stderr", forward?: (chunk: string) => void) =>
+      (chunk: string): void => {
+        streamed[stream] += chunk;
+        forward?.(chunk);
+      };
+
+    try {
+      if (streamOutput) {
+        subprocess.stdout.setEncoding("utf8").on("data", collect("stdout", onStdout));
+        subprocess.stderr.setEncoding("utf8").on("data", collect("stderr", onStderr));
+      }
+
+      const result = await subprocess;
+      return streamOutput
+        ? { ...streamed, exitCode: result.exitCode }
+        : { stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode };
+    } catch (error) {
+      if (streamOutput && error instanceof Error) {
+        Object.assign(error, streamed);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Checks whether an executable exists
+   * @param executable - Path of the executable
+   * @returns {Promise<boolean>} True if the file exists
+   */
+  public async isAvailable(executable: string): Promise<boolean> {
+    return isFile(executable);
+  }
+}
+
+/**
+ * Runner used until another one is set
+ */
+export const defaultCommandRunner: CommandRunner = new ExecaCommandRunner();
+
+let globalRunner: CommandRunner = defaultCommandRunner;
+
+/**
+ * Sets the runner of every command that is not given its own runner
+ *
+ * @param runner - The runner, or undefined to start child processes again
+ * @returns - Nothing
+ * @example
+ * setCommandRunner(new ScriptedCommandRunner([{ args: ["--version"], stdout: "3.12.0" }]));
+ */
+export function setCommandRunner(runner?: CommandRunner): void {
+  globalRunner = runner ?? defaultCommandRunner;
+}
+
+/**
+ * Gets the runner a command runs with
+ *
+ * @param runner - The runner given to the operation, if any
+ * @returns - That runner, or the one set with `setCommandRunner`
+ */
+export function getCommandRunner(runner?: CommandRunner): CommandRunner {
+  return runner ?? globalRunner;
+}
+
+/**
+ * Checks whether an executable can be run by a runner, checking the file exists when the runner cannot tell
+ *
+ * @param executable - Path of the executable
+ * @param runner - The runner given to the operation, if any
+ * @returns - True if the executable can be run
+ * @internal
+ */
+export async function isExecutableAvailable(executable: string, runner?: CommandRunner): Promise<boolean> {
+  const selected = getCommandRunner(runner);
+  return selected.isAvailable ? selected.isAvailable(executable) : isFile(executable);
+}
@@ -0,0 +1,306 @@
+import fs from "fs-extra";
+import path from "path";
+import { EditorArchitecture, UnityEditorInstallation } from "../types/unity.js";
+import { findXmlElements, parseXml } from "./xml.js";
+
+/**
+ * CPU types of Mach-O executables
+ * @internal
+ */
+const MACH_O_CPU_TYPES: Record<number, EditorArchitecture> = {
+  0x01000007: EditorArchitecture.x86_64,
+  0x0100000c: EditorArchitecture.arm64,
+};
+
+/**
+ * Machine types of Windows (PE) executables
+ * @internal
+ */
+const PE_MACHINE_TYPES: Record<number, EditorArchitecture> = {
+  0x8664: EditorArchitecture.x86_64,
+  0xaa64: EditorArchitecture.arm64,
+};
+
+/**
+ * Machine types of Linux (ELF) executables
+ * @internal
+ */
+const ELF_MACHINE_TYPES: Record<number, EditorArchitecture> = {
+  62: EditorArchitecture.x86_64,
+  183: EditorArchitecture.arm64,
+};
+
+/**
+ * Details read from an editor executable, with the modification time and size they were read at
+ * @internal
+ */
+interface CachedEditorDetails {
+  mtimeMs: number;
+  size: number;
+  details: Pick<UnityEditorInstallation, "architecture" | "changeset">;
+}
+
+/**
+ * Details of the editor executables already read, by path
+ * @internal
+ */
+const editorDetailsCache = new Map<string, CachedEditorDetails>();
+
+/**
+ * Gets the binary inside a macOS app bundle, or the path itself for other executables.
+ *
+ * @param executablePath - Path to the editor executable or `Unity.app` bundle
+ * @returns - Path to the binary
+ * @internal
+ */
+function getBinaryPath(executablePath: string): string {
+  return executablePath.endsWith(".app")
+    ? path.join(executablePath, "Contents", "MacOS", path.basename(executablePath, ".app"))
+    : executablePath;
+}
+
+/**
+ * Detects the CPU architecture of an editor from the header of its executable,
+ * which works for Mach-O, PE and ELF binaries without running them.
+ *
+ * @param executablePath - Path to the editor executable or `Unity.app` bundle
+ * @returns - The architecture, or undefined if the executable cannot be read or is a universal binary
+ * @internal
+ */
+export async function readExecutableArchitecture(executablePath: string): Promise<EditorArchitecture | undefined> {
+  let handle: number | undefined;
+
+  try {
+    handle = await fs.open(getBinaryPath(executablePath), "r");
+    const header = Buffer.alloc(512);
+    const { bytesRead } = await fs.read(handle, header, 0, header.length, 0);
+
+    if (bytesRead < 64) {
+      return undefined;
+    }
+
+    if (header.readUInt32LE(0) === 0xfeedfacf) {
+      return MACH_O_CPU_TYPES[header.readUInt32LE(4)];
+    }
+
+    if (header.toString("latin1", 0, 4) === "\x7fELF") {
+      return ELF_MACHINE_TYPES[header.readUInt16LE(18)];
+    }
+
+    if (header.toString("latin1", 0, 2) === "MZ") {
+      const peOffset = header.readUInt32LE(0x3c);
+      if (peOffset + 6 <= bytesRead && header.toString("latin1", peOffset, peOffset + 4) === "PE\0\0") {
+        return PE_MACHINE_TYPES[header.readUInt16LE(peOffset + 4)];
+      }
+    }
+
+    return undefined;
+  } catch {
+    return undefined;
+  } finally {
+    if (handle !== undefined) {
+      await fs.close(handle).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Reads the architecture and changeset of an editor. Both are kept until the executable is modified, so listing the
+ * installed editors again does not read every executable again.
+ *
+ * @param executablePath - Path to the editor executable or `Unity.app` bundle
+ * @returns - The architecture and changeset, each undefined if it cannot be determined
+ * @internal
+ */
+export async function readEditorDetails(
+  executablePath: string
+): Promise<Pick<UnityEditorInstallation, "architecture" | "changeset">> {
+  const key = path.resolve(executablePath);
+  const stats = await fs.stat(getBinaryPath(key)).catch(() => undefined);
+  const cached = editorDetailsCache.get(key);
+
+  if (stats && cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.details;
+  }
+
+  const details = {
+    architecture: await readExecutableArchitecture(executablePath),
+    changeset: await readEditorChangeset(executablePath),
+  };
+
+  if (stats) {
+    editorDetailsCache.set(key, { mtimeMs: stats.mtimeMs, size: stats.size, details });
+  }
+
+  return details;
+}
+
+/**
+ * Largest resource section read when looking for the version of a Windows editor
+ * @internal
+ */
+const MAX_RESOURCE_SECTION_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Matches the changeset Unity writes after the version in its executables, e.g. "2022.3.60f1_8f0f1a8a0a4c"
+ * @internal
+ */
+const VERSION_CHANGESET_PATTERN = /^\d+\.\d+\.\d+[abcfpx]\d+[_ (]+([0-9a-f]{12})\b/i;
+
+/**
+ * Matches a Unity version, e.g. "2022.3.60f1"
+ * @internal
+ */
+const VERSION_PATTERN = /\d+\.\d+\.\d+[abcfpx]\d+/;
+
+/**
+ * Reads the changeset of an editor: from the `UnityBuildNumber` entry of its `Info.plist` on macOS, and from the
+ * product version of the `Unity.exe` version resource on Windows. Linux editors do not record their changeset.
+ *
+ * @param executablePath - Path to the editor executable or `Unity.app` bundle
+ * @returns - The changeset, or undefined if the editor does not record it
+ * @internal
+ */
+export async function readEditorChangeset(executablePath: string): Promise<string | undefined> {
+  if (executablePath.endsWith(".app")) {
+    const changeset = await readPlistString(executablePath, "UnityBuildNumber");
+    return changeset && /^[0-9a-f]+$/i.test(changeset) ? changeset : undefined;
+  }
+
+  if (executablePath.toLowerCase().endsWith(".exe")) {
+    const productVersion = await readPeProductVersion(executablePath);
+    return productVersion ? VERSION_CHANGESET_PATTERN.exec(productVersion)?.[1]?.toLowerCase() : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the version of an editor: from the `CFBundleVersion` entry of the `Info.plist` of its app bundle on macOS and
+ * from the product version of `Unity.exe` on Windows, falling back to the Unity Hub folder it is installed in,
+ * e.g. ".../Hub/Editor/2022.3.60f1/Editor/Unity".
+ *
+ * @param executablePath - Path to the editor executable, or to the `Unity.app` bundle or a file inside it
+ * @returns - The version, or undefined if neither the editor nor its folder records it
+ * @internal
+ */
+export async function readEditorVersion(executablePath: string): Promise<string | undefined> {
+  const bundlePath = /^(.*?\.app)(?:[\\/]|$)/.exec(executablePath)?.[1];
+  const recorded = bundlePath
+    ? await readPlistString(bundlePath, "CFBundleVersion")
+    : executablePath.toLowerCase().endsWith(".exe")
+      ? await readPeProductVersion(executablePath)
+      : undefined;
+  const folder = executablePath
+    .split(/[\\/]/)
+    .reverse()
+    .find((segment) => VERSION_PATTERN.test(segment));
+
+  return VERSION_PATTERN.exec(recorded ?? "")?.[0] ?? (folder ? VERSION_PATTERN.exec(folder)?.[0] : undefined);
+}
+
+/**
+ * Reads a string entry of the `Info.plist` of a macOS app bundle.
+ *
+ * @param bundlePath - Path to the app bundle
+ * @param key - Key of the entry, e.g. "UnityBuildNumber"
+ * @returns - The value, or undefined if the bundle has no such entry
+ * @internal
+ */
+async function readPlistString(bundlePath: string, key: string): Promise<string | undefined> {
+  const plistPath = path.join(bundlePath, "Contents", "Info.plist");
+
+  try {
+    if (!(await fs.pathExists(plistPath))) {
+      return undefined;
+    }
+
+    const dict = findXmlElements(parseXml(await fs.readFile(plistPath, "utf8")), "dict").at(0);
+    const entries = dict?.children ?? [];
+    const index = entries.findIndex((entry) => entry.name === "key" && entry.text.trim() === key);
+
+    return index === -1 ? undefined : entries.at(index + 1)?.text.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the `ProductVersion` string of the version resource of a Windows executable,
+ * e.g. "2022.3.60f1_8f0f1a8a0a4c" for `Unity.exe`. Only the resource section of the executable is read.
+ *
+ * @param executablePath - Path to the executable
+ * @returns - The product version, or undefined if the executable has no version resource
+ * @internal
+ */
+async function readPeProductVersion(executablePath: string): Promise<string | undefined> {
+  let handle: number | undefined;
+
+  try {
+    handle = await fs.open(executablePath, "r");
+    const header = Buffer.alloc(4096);
+    const { bytesRead } = await fs.read(handle, header, 0, header.length, 0);
+
+    if (bytesRead < 64 || header.toString("latin1", 0, 2) !== "MZ") {
+      return undefined;
+    }
+
+    const peOffset = header.readUInt32LE(0x3c);
+    if (peOffset + 24 > bytesRead || header.toString("latin1", peOffset, peOffset + 4) !== "PE\0\0") {
+      return undefined;
+    }
+
+    // Section headers (40 bytes each) follow the COFF header and the optional header
+    const sectionCount = header.readUInt16LE(peOffset + 6);
+    const sectionTable = peOffset + 24 + header.readUInt16LE(peOffset + 20);
+
+    for (let i = 0; i < sectionCount && sectionTable + (i + 1) * 40 <= bytesRead; i++) {
+      const section = sectionTable + i * 40;
+      if (header.toString("latin1", section, section + 8).replace(/\0+$/, "") !== ".rsrc") continue;
+
+      const size = header.readUInt32LE(section + 16);
+      if (size > MAX_RESOURCE_SECTION_SIZE) {
+        return undefined;
+      }
+
+      const resources = Buffer.alloc(size);
+      const read = await fs.read(handle, resources, 0, size, header.readUInt32LE(section + 20));
+      return findVersionString(resources.subarray(0, read.bytesRead), "ProductVersion");
+    }
+
+    return undefined;
+  } catch {
+    return undefined;
+  } finally {
+    if (handle !== undefined) {
+      await fs.close(handle).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Finds the value of a string of a version resource, stored in UTF-16 after its null-terminated key and padding.
+ *
+ * @param resources - Content of the resource section
+ * @param key - Key of the string, e.g. "ProductVersion"
+ * @returns - The value, or undefined if the key is not found
+ * @internal
+ */
+function findVersionString(resources: Buffer, key: string): string | undefined {
+  const keyIndex = resources.indexOf(Buffer.from(`${key}\0`, "utf16le"));
+  if (keyIndex === -1) {
+    return undefined;
+  }
+
+  let start = keyIndex + (key.length + 1) * 2;
+  while (start + 1 < resources.length && resources.readUInt16LE(start) === 0) {
+    start += 2;
+  }
+
+  let end = start;
+  while (end + 1 < resources.length && resources.readUInt16LE(end) !== 0) {
+    end += 2;
+  }
+
+  return resources.toString("utf16le", start, end);
+}
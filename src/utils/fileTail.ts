@@ -0,0 +1,74 @@
+import { StringDecoder } from "string_decoder";
+import fs from "fs-extra";
+import { createLineSplitter } from "./commandExecutor.js";
+
+/**
+ * Handle returned by {@link tailFile}
+ * @internal
+ */
+export interface FileTail {
+  /** Reads whatever is left in the file, reports the last line and stops polling */
+  stop(): Promise<void>;
+}
+
+/**
+ * Follows a file that is being written by another process, reporting every complete line.
+ * The file does not need to exist yet; if it is truncated or replaced, reading restarts from the beginning.
+ *
+ * @param filePath - The file to follow
+ * @param onLine - Callback invoked with every complete, non-empty line
+ * @param intervalMs - Polling interval in milliseconds
+ * @returns - A handle to stop following the file
+ * @internal
+ */
+export function tailFile(filePath: string, onLine: (line: string) => void, intervalMs: number = 250): FileTail {
+  const splitter = createLineSplitter(onLine);
+  // Keeps the bytes of a character split between two reads until the rest of it is written
+  let decoder = new StringDecoder("utf8");
+  let offset = 0;
+  let reading: Promise<void> = Promise.resolve();
+
+  const read = async (): Promise<void> => {
+    let size: number;
+    try {
+      size = (await fs.stat(filePath)).size;
+    } catch {
+      return;
+    }
+
+    if (size < offset) {
+      offset = 0;
+      decoder = new StringDecoder("utf8");
+    }
+
+    if (size === offset) {
+      return;
+    }
+
+    const buffer = Buffer.alloc(size - offset);
+    const handle = await fs.open(filePath, "r");
+    try {
+      const { bytesRead } = await fs.read(handle, buffer, 0, buffer.length, offset);
+      offset += bytesRead;
+      splitter.push(decoder.write(buffer.subarray(0, bytesRead)));
+    } finally {
+      await fs.close(handle);
+    }
+  };
+
+  const poll = (): void => {
+    reading = reading.then(read).catch(() => undefined);
+  };
+
+  const timer = setInterval(poll, intervalMs);
+
+  return {
+    stop: async (): Promise<void> => {
+      clearInterval(timer);
+      poll();
+      await reading;
+      splitter.push(decoder.end());
+      splitter.flush();
+    },
+  };
+}
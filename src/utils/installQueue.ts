@@ -0,0 +1,187 @@
+import { CommandRunner, InstallJob, InstallJobOperation, InstallJobState, OperationOptions } from "../types/unity.js";
+import { UnityHubInstallerEvent } from "../events/hubEventEmitter.js";
+import { getLogger } from "./logger.js";
+
+/**
+ * What a job installs or removes, as requested by the caller
+ * @internal
+ */
+export type InstallJobRequest = Pick<InstallJob, "operation" | "version" | "modules" | "architecture" | "childModules">;
+
+/**
+ * A job along with the emitter reporting it, the function starting it and the callers waiting for it
+ * @internal
+ */
+interface QueuedJob {
+  job: InstallJob;
+  emitter: UnityHubInstallerEvent;
+  start: (emitter: UnityHubInstallerEvent, job: InstallJob) => void;
+  runner?: CommandRunner;
+  /** Number of callers sharing the job */
+  subscribers: number;
+  /** Number of callers whose signal was aborted */
+  aborted: number;
+}
+
+/**
+ * Runs Unity Hub operations one at a time, since Unity Hub cannot run several installations at once.
+ *
+ * A request for the same operation and version as a queued job is merged into it: the modules are combined and both
+ * callers share the job's emitter. A request already covered by the running job shares its emitter as well.
+ * Requests are only merged when they run with the same command runner; a merged request runs with the logger and
+ * retry policy of the job it joins. Each caller keeps its own signal, and the job is cancelled once every caller
+ * sharing it aborted theirs.
+ * @internal
+ */
+export class InstallQueue {
+  #jobs: QueuedJob[] = [];
+  #nextId: number = 1;
+
+  /**
+   * Adds a job to the queue, or merges it into a matching job
+   * @param request - What to install or remove
+   * @param options - Options of the caller: its signal, and the runner the job runs with
+   * @param createEmitter - Creates the emitter of a new job
+   * @param start - Starts the job once the jobs before it finished; the job settles when its emitter does
+   * @returns {UnityHubInstallerEvent} The emitter of the job handling the request
+   */
+  public enqueue(
+    request: InstallJobRequest,
+    options: OperationOptions,
+    createEmitter: () => UnityHubInstallerEvent,
+    start: (emitter: UnityHubInstallerEvent, job: InstallJob) => void
+  ): UnityHubInstallerEvent {
+    const duplicate = this.#findDuplicate(request, options.runner);
+
+    if (duplicate) {
+      const { job } = duplicate;
+      getLogger().debug(`Merging ${request.operation} of Unity ${request.version} into queued job ${job.id}`, {
+        modules: request.modules,
+      });
+      job.modules = [...new Set([...job.modules, ...request.modules])];
+      if (request.childModules) {
+        job.childModules = true;
+      }
+      this.#subscribe(duplicate, options.signal);
+      return duplicate.emitter;
+    }
+
+    const emitter = createEmitter();
+    const entry: QueuedJob = {
+      job: {
+        ...request,
+        modules: [...new Set(request.modules)],
+        id: this.#nextId++,
+        state: InstallJobState.Queued,
+        queuedAt: new Date(),
+      },
+      emitter,
+      start,
+      runner: options.runner,
+      subscribers: 0,
+      aborted: 0,
+    };
+
+    emitter.Enqueue();
+    this.#jobs.push(entry);
+    this.#subscribe(entry, options.signal);
+
+    // A job cancelled while waiting leaves the queue right away
+    emitter.completed.catch(() => {
+      if (entry.job.state === InstallJobState.Queued) {
+        this.#jobs = this.#jobs.filter((other) => other !== entry);
+      }
+    });
+
+    this.#next();
+    return emitter;
+  }
+
+  /**
+   * Lists the running and queued jobs, in the order they run
+   * @returns {InstallJob[]} Copies of the jobs
+   */
+  public list(): InstallJob[] {
+    return this.#jobs.map(({ job }) => ({ ...job, modules: [...job.modules] }));
+  }
+
+  /**
+   * Adds a caller to a job; the job is cancelled once every caller aborted its signal, and never when one has none
+   * @returns {void}
+   */
+  #subscribe(entry: QueuedJob, signal: AbortSignal | undefined): void {
+    entry.subscribers++;
+    if (!signal) return;
+
+    const onAbort = (): void => {
+      entry.aborted++;
+      if (entry.aborted === entry.subscribers) {
+        entry.emitter.Cancel();
+      } else {
+        getLogger().debug(
+          `A caller of job ${entry.job.id} aborted, ${entry.subscribers - entry.aborted} still wait for it`
+        );
+      }
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    entry.emitter.completed.catch(() => undefined).finally(() => signal.removeEventListener("abort", onAbort));
+  }
+
+  /**
+   * Starts the first job if none is running
+   * @returns {void}
+   */
+  #next(): void {
+    const entry = this.#jobs.at(0);
+    if (!entry || entry.job.state === InstallJobState.Running) return;
+
+    if (entry.emitter.signal?.aborted) {
+      this.#jobs.shift();
+      this.#next();
+      return;
+    }
+
+    entry.job.state = InstallJobState.Running;
+    entry.job.startedAt = new Date();
+    entry.emitter.Start();
+    entry.start(entry.emitter, { ...entry.job, modules: [...entry.job.modules] });
+
+    entry.emitter.completed
+      .catch(() => undefined)
+      .finally(() => {
+        this.#jobs = this.#jobs.filter((other) => other !== entry);
+        this.#next();
+      });
+  }
+
+  /**
+   * Finds a job that handles a request: a queued job for the same operation, version and runner,
+   * or the running job when it already covers the requested modules
+   */
+  #findDuplicate(request: InstallJobRequest, runner: CommandRunner | undefined): QueuedJob | undefined {
+    // Removals are prepared for a fixed set of modules, so they are only shared when they already cover the request
+    const mergeable =
+      request.operation === InstallJobOperation.InstallEditor || request.operation === InstallJobOperation.AddModules;
+
+    return this.#jobs.find((entry) => {
+      const { job } = entry;
+      if (
+        entry.runner !== runner ||
+        job.operation !== request.operation ||
+        job.version !== request.version ||
+        job.architecture !== request.architecture
+      ) {
+        return false;
+      }
+
+      if (mergeable && job.state === InstallJobState.Queued) {
+        return true;
+      }
+
+      return (
+        (job.childModules === true || !request.childModules) && request.modules.every((m) => job.modules.includes(m))
+      );
+    });
+  }
+}
@@ -0,0 +1,223 @@
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import {
+  Logger,
+  UnityLicenseEntitlement,
+  UnityLicenseMachineBinding,
+  UnityLicenseStatus,
+  UnityLicenseType,
+} from "../types/unity.js";
+import { getLogger } from "./logger.js";
+import { XmlElement, findXmlElements, parseXml } from "./xml.js";
+
+/**
+ * Fields of a license read from a single license file
+ * @internal
+ */
+export type UnityLicenseFileContents = Omit<UnityLicenseStatus, "licensed" | "licenseFile" | "entitlementFiles">;
+
+/**
+ * Reads the license files Unity keeps on the machine: the `Unity_lic.ulf` file written by serial and manual
+ * activations, and the entitlement cache of the Unity Licensing Client.
+ *
+ * Only the fields describing the license are read. The developer data and serial hash, which encode the serial number,
+ * and the signature are ignored.
+ */
+export class UnityLicenseFile {
+  /**
+   * Editor entitlement tags, matched in order, mapped to the kind of license they grant
+   * @private
+   */
+  private static LICENSE_TYPES: [RegExp, UnityLicenseType][] = [
+    [/personal/i, UnityLicenseType.Personal],
+    [/plus/i, UnityLicenseType.Plus],
+    [/enterprise|industry/i, UnityLicenseType.Enterprise],
+    [/student/i, UnityLicenseType.Student],
+    [/edu/i, UnityLicenseType.Educational],
+    [/pro/i, UnityLicenseType.Pro],
+  ];
+
+  /**
+   * Gets the default path of the license file on the current platform
+   * @returns {string} The path of `Unity_lic.ulf`
+   */
+  public static getDefaultPath(): string {
+    switch (os.platform()) {
+      case "win32":
+        return path.join(process.env.PROGRAMDATA ?? "C:/ProgramData", "Unity", "Unity_lic.ulf");
+      case "darwin":
+        return "/Library/Application Support/Unity/Unity_lic.ulf";
+      default:
+        return path.join(os.homedir(), ".local", "share", "unity3d", "Unity", "Unity_lic.ulf");
+    }
+  }
+
+  /**
+   * Gets the default folder of the Licensing Client entitlement cache on the current platform
+   * @returns {string} The folder holding the cached licenses
+   */
+  public static getDefaultEntitlementsDir(): string {
+    switch (os.platform()) {
+      case "win32":
+        return path.join(process.env.PROGRAMDATA ?? "C:/ProgramData", "Unity", "licenses");
+      case "darwin":
+        return "/Library/Application Support/Unity/licenses";
+      default:
+        return path.join(os.homedir(), ".config", "unity3d", "Unity", "licenses");
+    }
+  }
+
+  /**
+   * Parses the contents of a license file.
+   * @param xml - Contents of a `.ulf` file or of a cached Licensing Client license
+   * @returns {UnityLicenseFileContents} The license described by the file
+   * @throws {Error} If the document is not a Unity license
+   */
+  public static parse(xml: string): UnityLicenseFileContents {
+    const root = parseXml(xml);
+    const license = root.name === "License" ? root : findXmlElements(root, "License").at(0);
+
+    if (!license) {
+      throw new Error(`Expected a Unity <License> element but found <${root.name}>`);
+    }
+
+    const value = (name: string): string | undefined => {
+      const text = license.children.find((child) => child.name === name)?.attributes.Value?.trim();
+      return text === "" ? undefined : text;
+    };
+    const entitlements = this.parseEntitlements(license);
+    const alwaysOnline = value("AlwaysOnline");
+
+    return {
+      type: this.getLicenseType(entitlements),
+      serialMask: value("SerialMasked"),
+      issuedAt: this.parseDate(value("StartDate")),
+      activatedAt: this.parseDate(value("InitialActivationDate")),
+      updatedAt: this.parseDate(value("UpdateDate")),
+      expiresAt: this.parseDate(value("StopDate")),
+      alwaysOnline: alwaysOnline === undefined ? undefined : alwaysOnline.toLowerCase() === "true",
+      clientVersion: value("ClientProvidedVersion"),
+      machineBinding: this.parseMachineBinding(license, value("MachineID")),
+      entitlements,
+    };
+  }
+
+  /**
+   * Reads the license file and the entitlement cache, combining them into the license status of the machine.
+   * Missing files are skipped; the status is unlicensed when neither exists. A cached license that cannot be read
+   * is logged and skipped, so it does not hide the license file or the rest of the cache.
+   * @param licenseFile - Path of the license file
+   * @param entitlementsDir - Folder of the entitlement cache
+   * @param logger - Logger receiving the skipped cache files
+   * @param now - Date the license must be valid at
+   * @returns {Promise<UnityLicenseStatus>} The license status
+   * @throws {Error} If the license file cannot be read or is not a Unity license
+   */
+  public static async readStatus(
+    licenseFile: string,
+    entitlementsDir: string,
+    logger?: Logger,
+    now: Date = new Date()
+  ): Promise<UnityLicenseStatus> {
+    const hasLicenseFile = await fs.pathExists(licenseFile);
+    const license = hasLicenseFile ? this.parse(await fs.readFile(licenseFile, "utf8")) : undefined;
+
+    const cacheFiles = (await fs.pathExists(entitlementsDir))
+      ? (await fs.readdir(entitlementsDir))
+          .filter((name) => /\.(xml|ulf)$/i.test(name))
+          .sort()
+          .map((name) => path.join(entitlementsDir, name))
+      : [];
+    const entitlementFiles: string[] = [];
+    const cached: UnityLicenseFileContents[] = [];
+
+    for (const file of cacheFiles) {
+      try {
+        cached.push(this.parse(await fs.readFile(file, "utf8")));
+        entitlementFiles.push(file);
+      } catch (error) {
+        getLogger(logger).warn("Skipped unreadable entitlement cache file", { file, error });
+      }
+    }
+
+    const sources = license ? [license, ...cached] : cached;
+    const primary = sources.at(0);
+    const entitlements = sources.flatMap((source) => source.entitlements);
+
+    return {
+      licensed: sources.some((source) => this.isValid(source, now)),
+      ...primary,
+      type: this.getLicenseType(entitlements),
+      machineBinding: primary?.machineBinding ?? { bindings: {} },
+      entitlements,
+      licenseFile: hasLicenseFile ? licenseFile : undefined,
+      entitlementFiles,
+    };
+  }
+
+  /**
+   * Checks whether a license is valid at a date: started, not stopped and, when it lists editor entitlements,
+   * granting one of them
+   * @param license - The license
+   * @param now - The date
+   * @returns {boolean} True if the license is valid
+   */
+  public static isValid(license: UnityLicenseFileContents, now: Date = new Date()): boolean {
+    if ((license.issuedAt && license.issuedAt > now) || (license.expiresAt && license.expiresAt <= now)) {
+      return false;
+    }
+
+    const editorEntitlements = license.entitlements.filter((entitlement) => entitlement.type === "EDITOR");
+    return (
+      editorEntitlements.length === 0 ||
+      editorEntitlements.some((entitlement) => !entitlement.validTo || entitlement.validTo > now)
+    );
+  }
+
+  private static parseEntitlements(license: XmlElement): UnityLicenseEntitlement[] {
+    return findXmlElements(license, "Entitlement").map((entitlement) => ({
+      namespace: entitlement.attributes.Ns ?? "",
+      tag: entitlement.attributes.Tag ?? "",
+      type: entitlement.attributes.Type ?? "",
+      validTo: this.parseDate(entitlement.attributes.ValidTo),
+    }));
+  }
+
+  private static parseMachineBinding(license: XmlElement, machineId?: string): UnityLicenseMachineBinding {
+    const bindings: Record<string, string> = {};
+
+    for (const binding of findXmlElements(license, "Binding")) {
+      const { Key: key, Value: value } = binding.attributes;
+      if (key && value) {
+        bindings[key] = value;
+      }
+    }
+
+    return { machineId, bindings };
+  }
+
+  private static getLicenseType(entitlements: UnityLicenseEntitlement[]): UnityLicenseType {
+    for (const entitlement of entitlements.filter((entry) => entry.type === "EDITOR")) {
+      const match = this.LICENSE_TYPES.find(([pattern]) => pattern.test(entitlement.tag));
+      if (match) {
+        return match[1];
+      }
+    }
+
+    return UnityLicenseType.Unknown;
+  }
+
+  /**
+   * Parses a license date; Unity writes them in UTC without a time zone
+   */
+  private static parseDate(value: string | undefined): Date | undefined {
+    if (!value?.trim()) {
+      return undefined;
+    }
+
+    const text = value.trim();
+    const date = new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,108 @@
+import { LogFields, LogLevel, Logger } from "../types/unity.js";
+
+/**
+ * Order of the log levels, from the most to the least verbose
+ * @internal
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  [LogLevel.Debug]: 0,
+  [LogLevel.Info]: 1,
+  [LogLevel.Warn]: 2,
+  [LogLevel.Error]: 3,
+};
+
+/**
+ * Logger that discards every message, used until another one is set
+ */
+export const silentLogger: Logger = {
+  debug: (): void => undefined,
+  info: (): void => undefined,
+  warn: (): void => undefined,
+  error: (): void => undefined,
+};
+
+let globalLogger: Logger = silentLogger;
+
+/**
+ * Sets the logger receiving the diagnostic output of every operation that is not given its own logger
+ *
+ * @param logger - The logger, or undefined to discard the output again
+ * @returns - Nothing
+ */
+export function setLogger(logger?: Logger): void {
+  globalLogger = logger ?? silentLogger;
+}
+
+/**
+ * Gets the logger an operation writes to
+ *
+ * @param logger - The logger given to the operation, if any
+ * @returns - That logger, or the one set with `setLogger`
+ */
+export function getLogger(logger?: Logger): Logger {
+  return logger ?? globalLogger;
+}
+
+/**
+ * Creates a logger from a function receiving every message along with its level
+ *
+ * @param write - Writes a message
+ * @param level - Least severe level that is written, defaults to debug
+ * @returns - The logger
+ * @example
+ * setLogger(createCallbackLogger((level, message, fields) => myLogger.log({ level, message, ...fields })));
+ */
+export function createCallbackLogger(
+  write: (level: LogLevel, message: string, fields: LogFields) => void,
+  level: LogLevel = LogLevel.Debug
+): Logger {
+  const method =
+    (messageLevel: LogLevel) =>
+    (message: string, fields: LogFields = {}): void => {
+      if (LEVEL_ORDER[messageLevel] >= LEVEL_ORDER[level]) {
+        write(messageLevel, message, fields);
+      }
+    };
+
+  return {
+    debug: method(LogLevel.Debug),
+    info: method(LogLevel.Info),
+    warn: method(LogLevel.Warn),
+    error: method(LogLevel.Error),
+  };
+}
+
+/**
+ * Creates a logger writing to the console, or to any object with the methods of the console such as a winston logger.
+ * The fields are passed as a second argument when there are any.
+ *
+ * @param level - Least severe level that is written, defaults to info
+ * @param target - The console to write to
+ * @returns - The logger
+ */
+export function createConsoleLogger(
+  level: LogLevel = LogLevel.Info,
+  target: Pick<Console, "debug" | "info" | "warn" | "error"> = console
+): Logger {
+  return createCallbackLogger((messageLevel, message, fields) => {
+    if (Object.keys(fields).length > 0) {
+      target[messageLevel](message, fields);
+    } else {
+      target[messageLevel](message);
+    }
+  }, level);
+}
+
+/**
+ * Creates a logger writing to a logger that takes the fields before the message, such as pino or bunyan
+ *
+ * @param target - The logger to write to
+ * @returns - The logger
+ * @example
+ * setLogger(createFieldsFirstLogger(pino()));
+ */
+export function createFieldsFirstLogger(
+  target: Record<LogLevel, (fields: LogFields, message: string) => void>
+): Logger {
+  return createCallbackLogger((level, message, fields) => target[level](fields, message));
+}
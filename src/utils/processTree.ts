@@ -0,0 +1,117 @@
+import { execa } from "execa";
+import path from "path";
+
+/**
+ * Lists the descendants of a process, deepest first, using `ps` on POSIX systems.
+ *
+ * @param pid - The root process id
+ * @returns - The ids of every descendant process
+ * @internal
+ */
+async function getDescendantPids(pid: number): Promise<number[]> {
+  const { stdout } = await execa("ps", ["-A", "-o", "pid=,ppid="], { reject: false });
+  const children = new Map<number, number[]>();
+
+  for (const line of stdout.split(/\r?\n/)) {
+    const [childPid, parentPid] = line.trim().split(/\s+/).map(Number);
+    if (!Number.isNaN(childPid) && !Number.isNaN(parentPid)) {
+      children.set(parentPid, [...(children.get(parentPid) ?? []), childPid]);
+    }
+  }
+
+  const descendants: number[] = [];
+  const visit = (parent: number): void => {
+    for (const child of children.get(parent) ?? []) {
+      visit(child);
+      descendants.push(child);
+    }
+  };
+  visit(pid);
+
+  return descendants;
+}
+
+/**
+ * Sends a signal to a single process, ignoring processes that already exited.
+ *
+ * @param pid - The process id
+ * @param signal - The signal to send
+ * @returns - Whether the signal was delivered
+ * @internal
+ */
+function signalProcess(pid: number, signal: NodeJS.Signals): boolean {
+  try {
+    process.kill(pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Terminates a process and every process it started.
+ * Unity and Unity Hub spawn helper processes (shader compilers, licensing client, package manager, installers)
+ * that survive when only the direct child is killed. On Windows the tree is killed with `taskkill /T`;
+ * elsewhere every descendant receives SIGTERM, followed by SIGKILL for those still alive after the grace period.
+ *
+ * @param pid - The root process id
+ * @param gracePeriodMs - Time to wait before force killing processes that ignored SIGTERM
+ * @returns - Resolves once the signals have been sent
+ * @internal
+ */
+export async function killProcessTree(pid: number, gracePeriodMs: number = 5000): Promise<void> {
+  if (process.platform === "win32") {
+    await execa("taskkill", ["/PID", String(pid), "/T", "/F"], { reject: false });
+    return;
+  }
+
+  const pids = [...(await getDescendantPids(pid)), pid];
+  const signalled = pids.filter((target) => signalProcess(target, "SIGTERM"));
+
+  if (signalled.length === 0) {
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    for (const target of signalled) {
+      signalProcess(target, "SIGKILL");
+    }
+  }, gracePeriodMs);
+  timer.unref();
+}
+
+/**
+ * Finds the running processes whose executable is inside a folder, e.g. editors started from an install folder.
+ * Uses `ps` on POSIX systems and CIM on Windows, where paths are compared case-insensitively.
+ *
+ * @param folder - The folder to look for
+ * @returns - The ids of the matching processes, empty if none runs or processes cannot be listed
+ * @internal
+ */
+export async function findProcessesInFolder(folder: string): Promise<number[]> {
+  const windows = process.platform === "win32";
+  const { stdout } = windows
+    ? await execa(
+        "powershell",
+        [
+          "-NoProfile",
+          "-Command",
+          'Get-CimInstance Win32_Process | ForEach-Object { "$($_.ProcessId) $($_.ExecutablePath)" }',
+        ],
+        { reject: false }
+      )
+    : await execa("ps", ["-A", "-o", "pid=,args="], { reject: false });
+
+  const normalize = (value: string): string => (windows ? value.toLowerCase() : value);
+  const prefix = normalize(path.resolve(folder) + path.sep);
+  const pids: number[] = [];
+
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = /^\s*(\d+)\s+(.+)$/.exec(line);
+    if (match && normalize(match[2]).startsWith(prefix) && Number(match[1]) !== process.pid) {
+      pids.push(Number(match[1]));
+    }
+  }
+
+  return pids;
+}
@@ -0,0 +1,96 @@
+import fs from "fs-extra";
+import path from "path";
+import { ProjectVersionInfo } from "../types/unity.js";
+
+/**
+ * Reads the settings Unity stores in a project's `ProjectSettings` folder.
+ */
+export class UnityProjectSettings {
+  /**
+   * Path of the file recording the editor version a project was last opened with.
+   * @param projectPath - Root folder of the project
+   * @returns {string} Path of `ProjectSettings/ProjectVersion.txt`
+   */
+  public static getProjectVersionPath(projectPath: string): string {
+    return path.join(projectPath, "ProjectSettings", "ProjectVersion.txt");
+  }
+
+  /**
+   * Path of the asset holding the player settings (product name, company name, ...).
+   * @param projectPath - Root folder of the project
+   * @returns {string} Path of `ProjectSettings/ProjectSettings.asset`
+   */
+  public static getProjectSettingsPath(projectPath: string): string {
+    return path.join(projectPath, "ProjectSettings", "ProjectSettings.asset");
+  }
+
+  /**
+   * Parses the contents of `ProjectVersion.txt`.
+   * @param content - Contents of the file
+   * @returns {ProjectVersionInfo | null} The editor version and changeset, or null if no version is recorded
+   * @example
+   * UnityProjectSettings.parseProjectVersion("m_EditorVersion: 2022.3.15f1\nm_EditorVersionWithRevision: 2022.3.15f1 (b58023a2b463)");
+   * // { editorVersion: "2022.3.15f1", changeset: "b58023a2b463" }
+   */
+  public static parseProjectVersion(content: string): ProjectVersionInfo | null {
+    const editorVersion = this.readValue(content, "m_EditorVersion");
+    if (!editorVersion) {
+      return null;
+    }
+
+    const withRevision = this.readValue(content, "m_EditorVersionWithRevision");
+    const changeset = withRevision?.match(/\(([0-9a-f]+)\)/i)?.[1];
+
+    return changeset ? { editorVersion, changeset } : { editorVersion };
+  }
+
+  /**
+   * Parses the product name from the contents of `ProjectSettings.asset`.
+   * @param content - Contents of the asset
+   * @returns {string | null} The product name, or null if it is not set
+   */
+  public static parseProductName(content: string): string | null {
+    return this.readValue(content, "productName") ?? null;
+  }
+
+  /**
+   * Reads the editor version recorded by a project.
+   * @param projectPath - Root folder of the project
+   * @returns {Promise<ProjectVersionInfo | null>} The editor version and changeset, or null if the file is missing or empty
+   */
+  public static async readProjectVersion(projectPath: string): Promise<ProjectVersionInfo | null> {
+    const versionPath = this.getProjectVersionPath(projectPath);
+    if (!(await fs.pathExists(versionPath))) {
+      return null;
+    }
+
+    return this.parseProjectVersion(await fs.readFile(versionPath, "utf8"));
+  }
+
+  /**
+   * Reads the product name of a project.
+   * @param projectPath - Root folder of the project
+   * @returns {Promise<string | null>} The product name, or null if the settings asset is missing or has no name
+   */
+  public static async readProductName(projectPath: string): Promise<string | null> {
+    const settingsPath = this.getProjectSettingsPath(projectPath);
+    if (!(await fs.pathExists(settingsPath))) {
+      return null;
+    }
+
+    return this.parseProductName(await fs.readFile(settingsPath, "utf8"));
+  }
+
+  /**
+   * Reads a top level or indented `key: value` pair from a Unity YAML or text settings file.
+   * @param content - File contents
+   * @param key - Key to look up
+   * @returns {string | undefined} The unquoted value, or undefined if missing or empty
+   */
+  private static readValue(content: string, key: string): string | undefined {
+    const match = content.match(new RegExp(`^[ \\t]*${key}:[ \\t]*(.*?)[ \\t]*\\r?$`, "m"));
+    const value = match?.[1].replace(/^(["'])(.*)\1$/, "$2");
+
+    return value?.length ? value : undefined;
+  }
+}
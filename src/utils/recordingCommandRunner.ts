@@ -0,0 +1,136 @@
+import path from "path";
+import fs from "fs-extra";
+import {
+  CommandFixture,
+  CommandFixtureChunk,
+  CommandOutput,
+  CommandRunOptions,
+  CommandRunner,
+  RecordingOptions,
+} from "../types/unity.js";
+import { defaultCommandRunner, isExecutableAvailable } from "./commandRunner.js";
+import { getLogger } from "./logger.js";
+import { getSensitiveArgValues, redactText, redactValue } from "./security.js";
+
+/**
+ * Command runner saving every command it runs to a fixture file: its arguments, the chunks of its output along with
+ * the time they were written, and its exit code. Credentials are redacted from the fixtures, so they can be attached
+ * to bug reports and replayed with the ReplayCommandRunner.
+ *
+ * @example
+ * setCommandRunner(new RecordingCommandRunner({ directory: "./fixtures/install-android" }));
+ * await UnityHub.addModule("2022.3.60f1", [UnityModules.AndroidBuildSupport]);
+ */
+export class RecordingCommandRunner implements CommandRunner {
+  #directory: string;
+  #runner: CommandRunner;
+  #count: number = 0;
+
+  /**
+   * Creates a runner recording the commands run by another runner
+   * @param options - The folder of the fixtures and the runner to record
+   */
+  public constructor(options: RecordingOptions) {
+    this.#directory = path.resolve(options.directory);
+    this.#runner = options.runner ?? defaultCommandRunner;
+  }
+
+  /**
+   * Runs a command and records it.
+   * The whole output is captured and returned, even when it is streamed; output the recorded runner returns without
+   * streaming it is recorded as one chunk.
+   * @param executable - The executable to run
+   * @param args - Arguments of the command
+   * @param options - Options of the run
+   * @returns {Promise<CommandOutput>} The output of the command
+   */
+  public async run(executable: string, args: string[], options: CommandRunOptions): Promise<CommandOutput> {
+    const index = ++this.#count;
+    const startedAt = Date.now();
+    const chunks: CommandFixtureChunk[] = [];
+    const capture =
+      (stream: "stdout" | "stderr", forward?: (chunk: string) => void) =>
+      (data: string): void => {
+        chunks.push({ stream, data, offsetMs: Date.now() - startedAt });
+        forward?.(data);
+      };
+    const join = (stream: "stdout" | "stderr"): string =>
+      chunks
+        .filter((chunk) => chunk.stream === stream)
+        .map((chunk) => chunk.data)
+        .join("");
+    // A runner may return the output of a stream without streaming it, which is then recorded as a single chunk
+    const captureUnstreamed = (output: Partial<CommandOutput>): void => {
+      for (const stream of ["stdout", "stderr"] as const) {
+        const data = output[stream];
+        if (data && !chunks.some((chunk) => chunk.stream === stream)) {
+          chunks.push({ stream, data, offsetMs: Date.now() - startedAt });
+        }
+      }
+    };
+
+    try {
+      const output = await this.#runner.run(executable, args, {
+        ...options,
+        onStdout: capture("stdout", options.onStdout),
+        onStderr: capture("stderr", options.onStderr),
+      });
+      captureUnstreamed(output);
+
+      await this.#save(index, executable, args, options, chunks, startedAt, { exitCode: output.exitCode });
+      return { stdout: join("stdout"), stderr: join("stderr"), exitCode: output.exitCode };
+    } catch (error) {
+      const exitCode = (error as { exitCode?: number }).exitCode;
+      captureUnstreamed(error as Partial<CommandOutput>);
+      await this.#save(index, executable, args, options, chunks, startedAt, { exitCode, error: String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether an executable can be run by the recorded runner
+   * @param executable - Path of the executable
+   * @returns {Promise<boolean>} True if the executable can be run
+   */
+  public async isAvailable(executable: string): Promise<boolean> {
+    return isExecutableAvailable(executable, this.#runner);
+  }
+
+  /**
+   * Writes the fixture of a command; a fixture that cannot be written is logged, without failing the command
+   */
+  async #save(
+    index: number,
+    executable: string,
+    args: string[],
+    options: CommandRunOptions,
+    chunks: CommandFixtureChunk[],
+    startedAt: number,
+    outcome: Pick<CommandFixture, "exitCode" | "error">
+  ): Promise<void> {
+    const secrets = getSensitiveArgValues(args);
+    const fixture: CommandFixture = {
+      formatVersion: 1,
+      executable,
+      args: redactValue(args, secrets),
+      cwd: options.cwd,
+      chunks: chunks.map((chunk) => ({ ...chunk, data: redactText(chunk.data, secrets) })),
+      exitCode: outcome.exitCode,
+      error: outcome.error === undefined ? undefined : redactText(outcome.error, secrets),
+      durationMs: Date.now() - startedAt,
+      recordedAt: new Date(startedAt).toISOString(),
+    };
+
+    // Names the fixture after the executable and its first plain arguments once redacted, e.g. 001-unityhub-editors.json
+    const words = [path.basename(executable), ...fixture.args.filter((arg) => /^\w[\w.-]*$/.test(arg)).slice(0, 2)];
+    const name = `${String(index).padStart(3, "0")}-${words.join("-").replace(/[^\w.-]+/g, "_")}.json`;
+    const fixturePath = path.join(this.#directory, name);
+
+    try {
+      await fs.outputFile(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+      getLogger().debug("Recorded command", { fixturePath });
+    } catch (error) {
+      getLogger().warn("Error writing command fixture", { fixturePath, error });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import path from "path";
+import fs from "fs-extra";
+import { CommandFixture, ReplayOptions, ScriptedCommand } from "../types/unity.js";
+import { ScriptedCommandRunner } from "./scriptedCommandRunner.js";
+import { getSensitiveArgValues, redactValue } from "./security.js";
+
+/**
+ * Command runner replaying the fixtures saved by the RecordingCommandRunner, so a recorded Hub or Unity session
+ * can be run again, output chunk by output chunk, without Unity Hub or Unity.
+ *
+ * Each fixture answers one command, matched by its executable name and, unless `matchArgs` is disabled, by its
+ * arguments once redacted. Fixtures are used in the order they were recorded.
+ *
+ * @example
+ * setCommandRunner(await ReplayCommandRunner.fromDirectory("./fixtures/install-android"));
+ * await UnityHub.addModule("2022.3.60f1", [UnityModules.AndroidBuildSupport]);
+ */
+export class ReplayCommandRunner extends ScriptedCommandRunner {
+  /**
+   * Creates a runner replaying the given fixtures
+   * @param fixtures - The recorded commands, in order
+   * @param options - How the fixtures are matched and replayed
+   */
+  public constructor(fixtures: CommandFixture[], options: ReplayOptions = {}) {
+    super(fixtures.map((fixture) => ReplayCommandRunner.#toScriptedCommand(fixture, options)));
+  }
+
+  /**
+   * Creates a runner replaying the fixtures of a folder, ordered by file name
+   * @param directory - The folder the fixtures were recorded to
+   * @param options - How the fixtures are matched and replayed
+   * @returns {Promise<ReplayCommandRunner>} The runner
+   * @throws {Error} If a file is not a command fixture
+   */
+  public static async fromDirectory(directory: string, options: ReplayOptions = {}): Promise<ReplayCommandRunner> {
+    const files = (await fs.readdir(directory))
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => path.join(directory, file));
+
+    return ReplayCommandRunner.fromFiles(files, options);
+  }
+
+  /**
+   * Creates a runner replaying the given fixture files, in order
+   * @param files - Paths of the fixtures
+   * @param options - How the fixtures are matched and replayed
+   * @returns {Promise<ReplayCommandRunner>} The runner
+   * @throws {Error} If a file is not a command fixture
+   */
+  public static async fromFiles(files: string[], options: ReplayOptions = {}): Promise<ReplayCommandRunner> {
+    const fixtures: CommandFixture[] = [];
+
+    for (const file of files) {
+      const fixture = (await fs.readJson(file)) as Partial<CommandFixture>;
+
+      if (fixture.formatVersion !== 1 || !Array.isArray(fixture.args) || !Array.isArray(fixture.chunks)) {
+        throw new Error(`Not a command fixture: ${file}`);
+      }
+
+      fixtures.push(fixture as CommandFixture);
+    }
+
+    return new ReplayCommandRunner(fixtures, options);
+  }
+
+  /**
+   * Converts a fixture to the scripted command answering it once
+   */
+  static #toScriptedCommand(fixture: CommandFixture, options: ReplayOptions): ScriptedCommand {
+    const name = path.basename(fixture.executable.replace(/\\/g, "/")).replace(/\.exe$/i, "");
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    let previousOffset = 0;
+
+    return {
+      executable: new RegExp(`(^|[\\\\/])${escapedName}(\\.exe)?$`, "i"),
+      args:
+        options.matchArgs === false
+          ? undefined
+          : (args: string[]): boolean => {
+              const redacted = redactValue(args, getSensitiveArgValues(args));
+              return redacted.length === fixture.args.length && redacted.every((arg, i) => arg === fixture.args[i]);
+            },
+      chunks: fixture.chunks.map((chunk) => {
+        const delayMs = options.timing ? Math.max(chunk.offsetMs - previousOffset, 0) : 0;
+        previousOffset = chunk.offsetMs;
+        return { stream: chunk.stream, data: chunk.data, delayMs };
+      }),
+      exitCode: fixture.exitCode,
+      error: fixture.error === undefined ? undefined : ReplayCommandRunner.#toError(fixture),
+      times: 1,
+    };
+  }
+
+  /**
+   * Rebuilds the error of a failed command, with the output it wrote before failing
+   */
+  static #toError(fixture: CommandFixture): Error {
+    const join = (stream: "stdout" | "stderr"): string =>
+      fixture.chunks
+        .filter((chunk) => chunk.stream === stream)
+        .map((chunk) => chunk.data)
+        .join("");
+
+    return Object.assign(new Error(fixture.error), {
+      stdout: join("stdout"),
+      stderr: join("stderr"),
+      exitCode: fixture.exitCode,
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { Result, err } from "../errors/index.js";
+import { UnityCancelledError, UnityCommandError, UnityError, UnityTestError } from "../errors/index.js";
+import { OperationOptions, RetryAttempt, RetryOptions, RetryPolicy } from "../types/unity.js";
+import { getLogger } from "./logger.js";
+
+/**
+ * Messages of failures that usually go away when the operation is run again:
+ * network errors, license server and Licensing Client hiccups, Unity Hub IPC errors and registry timeouts
+ * @internal
+ */
+const TRANSIENT_PATTERNS: RegExp[] = [
+  /\b(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ESOCKETTIMEDOUT|EAI_AGAIN|EPIPE)\b/,
+  /socket hang up/i,
+  /network (error|is unreachable)/i,
+  /connection (was )?(reset|refused|closed|timed out)/i,
+  /licens(e|ing) (server|client)[^\n]*(unavailable|not responding|timed? ?out|failed to connect|connection)/i,
+  /(cannot|unable to|failed to) connect to[^\n]*licens(e|ing)/i,
+  /\bIPC\b[^\n]*(error|failed|timed? ?out|closed|disconnected)/i,
+  /(package|registry)[^\n]*(timed? ?out|timeout)/i,
+  /\b(502 Bad Gateway|503 Service Unavailable|504 Gateway Timeout|429 Too Many Requests)\b/i,
+];
+
+/**
+ * Checks whether an error looks like a transient failure worth retrying, from the output of the failed command.
+ * Cancellations and failing tests are never transient.
+ *
+ * @param error - The error an attempt failed with
+ * @returns - True if the output of the failure matches a known transient error
+ */
+export function isTransientError(error: UnityError): boolean {
+  if (error instanceof UnityCancelledError || (error instanceof UnityTestError && error.failedTests.length > 0)) {
+    return false;
+  }
+
+  const output = [error.message];
+
+  if (error instanceof UnityCommandError) {
+    output.push(error.stdout, error.stderr);
+  } else if (error instanceof UnityTestError) {
+    output.push(error.testOutput);
+  }
+
+  for (const key of ["stdout", "stderr"]) {
+    const value = error.context?.[key];
+    if (typeof value === "string") {
+      output.push(value);
+    }
+  }
+
+  const text = output.join("\n");
+  return TRANSIENT_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Computes the delay before the next attempt, with exponential backoff and jitter.
+ *
+ * @param policy - The retry policy
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @returns - The delay in milliseconds
+ * @internal
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const { initialDelayMs = 1000, maxDelayMs = 30000, factor = 2, jitter = 0.5 } = policy;
+  const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(factor, attempt - 1));
+  const spread = Math.min(Math.max(jitter, 0), 1);
+
+  return Math.round(delay * (1 - spread * Math.random()));
+}
+
+/**
+ * Waits for a delay, returning early when the signal is aborted.
+ *
+ * @param delayMs - The delay in milliseconds
+ * @param signal - Signal that ends the wait
+ * @returns - Resolves once the delay elapsed or the signal was aborted
+ * @internal
+ */
+function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation until it succeeds, fails with an error the policy does not retry, or runs out of attempts.
+ * The failed attempts are recorded in the `attempts` entry of the context of the error returned.
+ *
+ * @param operation - Runs one attempt, given its number starting at 1
+ * @param options - The retry policy, without which the operation runs once, and the signal cancelling the remaining attempts
+ * @param getFailure - Turns a successful result into a failure to retry, e.g. a command that exited with an error;
+ *                     when the last attempt fails this way, the failure is returned with the attempts recorded
+ * @returns - The result of the last attempt
+ * @internal
+ */
+export async function withRetry<T, E extends UnityError>(
+  operation: (attempt: number) => Promise<Result<T, E>>,
+  options: OperationOptions & RetryOptions,
+  getFailure?: (value: T) => E | undefined
+): Promise<Result<T, E | UnityCancelledError>> {
+  const { retry: policy, signal } = options;
+
+  if (!policy) {
+    return operation(1);
+  }
+
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts ?? 3));
+  const retryable = policy.retryable ?? isTransientError;
+  const attempts: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    const result = await operation(attempt);
+    const failure = result.success ? getFailure?.(result.value) : result.error;
+
+    if (!failure || failure instanceof UnityCancelledError) {
+      if (!result.success && attempts.length > 0) {
+        recordAttempts(result.error, attempts);
+      }
+      return result;
+    }
+
+    const record: RetryAttempt = {
+      attempt,
+      code: failure.code,
+      message: failure.message,
+      exitCode: failure instanceof UnityCommandError ? failure.exitCode : undefined,
+      retryable: retryable(failure, attempt),
+      durationMs: Date.now() - startedAt,
+    };
+    attempts.push(record);
+
+    if (!record.retryable || attempt >= maxAttempts) {
+      recordAttempts(failure, attempts);
+      return err(failure);
+    }
+
+    record.delayMs = getRetryDelay(policy, attempt);
+    getLogger(options.logger).warn(`Attempt ${attempt} of ${maxAttempts} failed, retrying in ${record.delayMs}ms`, {
+      error: failure.message,
+    });
+    policy.onRetry?.({ ...record });
+
+    await wait(record.delayMs, signal);
+
+    if (signal?.aborted) {
+      return err(new UnityCancelledError("Operation cancelled while waiting to retry", { attempts }));
+    }
+  }
+}
+
+/**
+ * Adds the failed attempts to the context of an error
+ *
+ * @param error - The final error
+ * @param attempts - The failed attempts
+ * @returns - Nothing
+ * @internal
+ */
+function recordAttempts(error: UnityError, attempts: RetryAttempt[]): void {
+  Object.assign(error, { context: { ...error.context, attempts } });
+}
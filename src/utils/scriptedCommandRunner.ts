@@ -0,0 +1,166 @@
+import path from "path";
+import {
+  CommandOutput,
+  CommandRunOptions,
+  CommandRunner,
+  ScriptedCommand,
+  ScriptedCommandCall,
+} from "../types/unity.js";
+
+/**
+ * Command runner answering commands from a script instead of starting processes, to test code using Unity Hub
+ * or Unity on machines without them.
+ *
+ * Each command is answered by the first scripted command matching its executable and arguments. Commands matching
+ * nothing fail as if the executable could not be started. Every executable is reported as available.
+ *
+ * @example
+ * const runner = new ScriptedCommandRunner([
+ *   { args: ["editors", "-i"], stdout: "2022.3.60f1 , installed at /opt/unity/2022.3.60f1/Editor/Unity" },
+ *   { args: ["install"], chunks: [{ stream: "stdout", data: "[Unity 2022.3.60f1] downloading 50%\n" }] },
+ * ]);
+ * setCommandRunner(runner);
+ */
+export class ScriptedCommandRunner implements CommandRunner {
+  #commands: { command: ScriptedCommand; remaining: number }[] = [];
+  #calls: ScriptedCommandCall[] = [];
+
+  /**
+   * Creates a runner answering the given commands
+   * @param commands - The scripted commands, matched in order
+   */
+  public constructor(commands: ScriptedCommand[] = []) {
+    commands.forEach((command) => this.add(command));
+  }
+
+  /**
+   * Commands run so far, in order
+   * @returns {ScriptedCommandCall[]} Copies of the calls
+   */
+  public get calls(): ScriptedCommandCall[] {
+    return this.#calls.map((call) => ({ ...call, args: [...call.args] }));
+  }
+
+  /**
+   * Adds a command to the script, matched after the ones already added
+   * @param command - The scripted command
+   * @returns {this} The runner
+   */
+  public add(command: ScriptedCommand): this {
+    this.#commands.push({ command, remaining: command.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Answers a command from the script
+   * @param executable - The executable to run
+   * @param args - Arguments of the command
+   * @param options - Options of the run
+   * @returns {Promise<CommandOutput>} The scripted output
+   * @throws {Error} If no scripted command matches, or the matching one fails with an error
+   */
+  public async run(executable: string, args: string[], options: CommandRunOptions): Promise<CommandOutput> {
+    this.#calls.push({ executable, args: [...args], cwd: options.cwd, env: options.env });
+
+    const entry = this.#commands.find(
+      ({ command, remaining }) => remaining > 0 && this.#matches(command, executable, args)
+    );
+
+    if (!entry) {
+      throw new Error(`No scripted command matches: ${executable} ${args.join(" ")}`);
+    }
+
+    entry.remaining--;
+    const { command } = entry;
+
+    if (command.error) {
+      throw command.error;
+    }
+
+    const output = { stdout: "", stderr: "" };
+    const write = (stream: "stdout" | "stderr", data: string): void => {
+      output[stream] += data;
+      (stream === "stdout" ? options.onStdout : options.onStderr)?.(data);
+    };
+
+    for (const chunk of command.chunks ?? []) {
+      if (chunk.delayMs) {
+        await this.#wait(chunk.delayMs, options.signal);
+      }
+
+      if (options.signal?.aborted) {
+        return { ...output, exitCode: undefined };
+      }
+
+      write(chunk.stream, chunk.data);
+    }
+
+    if (command.stdout) write("stdout", command.stdout);
+    if (command.stderr) write("stderr", command.stderr);
+
+    const exitCode = command.exitCode ?? 0;
+
+    if (options.reject && exitCode !== 0) {
+      throw Object.assign(new Error(`Command failed with exit code ${exitCode}: ${executable}`), {
+        ...output,
+        exitCode,
+      });
+    }
+
+    return { ...output, exitCode };
+  }
+
+  /**
+   * Reports every executable as available
+   * @returns {Promise<boolean>} Always true
+   */
+  public async isAvailable(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Checks whether a scripted command matches a run
+   */
+  #matches(command: ScriptedCommand, executable: string, args: string[]): boolean {
+    const matchesText = (expected: string | RegExp, actual: string): boolean =>
+      typeof expected === "string" ? expected === actual : expected.test(actual);
+
+    if (command.executable !== undefined) {
+      const { executable: expected } = command;
+      const matchesExecutable =
+        matchesText(expected, executable) || (typeof expected === "string" && expected === path.basename(executable));
+
+      if (!matchesExecutable) {
+        return false;
+      }
+    }
+
+    if (command.args === undefined) {
+      return true;
+    }
+
+    if (typeof command.args === "function") {
+      return command.args(args);
+    }
+
+    return command.args.every((expected) => args.some((arg) => matchesText(expected, arg)));
+  }
+
+  /**
+   * Waits for a delay, returning early when the signal is aborted
+   */
+  #wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, delayMs);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -1,37 +1,289 @@
+import { RedactionOptions } from "../types/unity.js";
+
+/**
+ * Text that replaces redacted values
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Names of the arguments, fields and settings holding credentials; a name containing one of them is sensitive
+ * @internal
+ */
+const DEFAULT_SENSITIVE_KEYS = [
+  "password",
+  "passwd",
+  "token",
+  "secret",
+  "serial",
+  "username",
+  "keystorepass",
+  "keyaliaspass",
+  "apikey",
+  "credential",
+  "authorization",
+  // Lease token of a floating license, passed to the Licensing Client as `--return-floating <token>`
+  "return-floating",
+];
+
+/**
+ * Flags of Unity, Unity Hub and the Licensing Client; after a sensitive flag, one of these starts the next argument
+ * instead of being its value, so that "-username -password secret" does not redact "-password".
+ * Any other argument following a sensitive flag is redacted, even when it starts with a dash.
+ * @internal
+ */
+const KNOWN_FLAGS = [
+  "-batchmode",
+  "-quit",
+  "-nographics",
+  "-projectPath",
+  "-logFile",
+  "-username",
+  "-password",
+  "-serial",
+  "-returnlicense",
+  "-manualLicenseFile",
+  "-createManualActivationFile",
+  "-createProject",
+  "-executeMethod",
+  "-buildTarget",
+  "-exportPackage",
+  "-importPackage",
+  "-runTests",
+  "-testPlatform",
+  "-testResults",
+  "-testCategory",
+  "-testFilter",
+  "-keystorePass",
+  "-keyaliasPass",
+  "-accept-apiupdate",
+  "-silent-crashes",
+  "-noUpm",
+  "-useHub",
+  "-hubIPC",
+  "--headless",
+  "--version",
+  "--changeset",
+  "--module",
+  "--child-modules",
+  "--architecture",
+  "--acquire-floating",
+  "--return-floating",
+  "--json",
+  "--help",
+];
+
+/**
+ * Shortest value of a sensitive argument that is also removed wherever it appears in the output of a command,
+ * so that short values do not garble unrelated text
+ * @internal
+ */
+const MIN_SECRET_LENGTH = 6;
+
+let extraKeys: string[] = [];
+let extraPatterns: RegExp[] = [];
+let builtInPatterns = buildPatterns();
+
+/**
+ * Adds argument names and patterns to redact, on top of the built-in ones which are always applied
+ *
+ * @param options - Names of sensitive arguments or fields, and patterns matching secrets in text
+ * @returns - Nothing
+ * @example
+ * configureRedaction({ keys: ["steamPassword"], patterns: [/ghp_[A-Za-z0-9]{36}/] });
+ */
+export function configureRedaction(options: RedactionOptions): void {
+  extraKeys = (options.keys ?? []).map((key) => key.toLowerCase());
+  extraPatterns = (options.patterns ?? []).map((pattern) =>
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+  );
+  builtInPatterns = buildPatterns();
+}
+
+/**
+ * Gets the names of sensitive arguments and fields, lower cased
+ * @internal
+ */
+function getSensitiveKeys(): string[] {
+  return [...DEFAULT_SENSITIVE_KEYS, ...extraKeys];
+}
+
+/**
+ * Checks whether an argument is a flag of Unity, Unity Hub or the Licensing Client
+ *
+ * @param arg - The argument, e.g. "-batchmode"
+ * @returns - True if the argument is a known flag
+ * @internal
+ */
+function isKnownFlag(arg: string): boolean {
+  const lowered = arg.toLowerCase();
+  return KNOWN_FLAGS.some((flag) => flag.toLowerCase() === lowered);
+}
+
+/**
+ * Checks whether an argument or field name refers to a credential
+ *
+ * @param key - The name, e.g. "password", "-keystorePass" or "unity_serial"
+ * @param sensitiveKeys - The names of sensitive arguments
+ * @returns - True if the name contains a sensitive name
+ * @internal
+ */
+export function isSensitiveKey(key: string, sensitiveKeys: string[] = getSensitiveKeys()): boolean {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return sensitiveKeys.some((sensitive) => normalized.includes(sensitive.replace(/[^a-z0-9]/g, "")));
+}
+
 /**
  * Redacts sensitive arguments from the command line arguments.
  *
  * @param argv - The array of command line arguments
- * @param sensitiveKeys - The keys that should be redacted
+ * @param sensitiveKeys - The keys that should be redacted, defaults to the built-in and configured ones
  * @returns - The array of arguments with sensitive information redacted
  * @internal
  */
-export function redactSensitiveArgs(
-  argv: string[],
-  sensitiveKeys: string[] = ["password", "token", "secret"]
-): string[] {
+export function redactSensitiveArgs(argv: string[], sensitiveKeys: string[] = getSensitiveKeys()): string[] {
   const redacted = [...argv];
 
   for (let i = 0; i < redacted.length; i++) {
     const arg = redacted[i];
+    const match = arg.match(/^(--?[^=]+)=(.*)$/);
 
-    if (arg.startsWith("--") || arg.startsWith("-")) {
-      const key = arg.replace(/^--?/, "");
-      if (sensitiveKeys.includes(key.toLowerCase())) {
-        if (i + 1 < redacted.length && !redacted[i + 1].startsWith("-")) {
-          redacted[i + 1] = "[REDACTED]";
-        }
+    if (match) {
+      if (isSensitiveKey(match[1], sensitiveKeys)) {
+        redacted[i] = `${match[1]}=${REDACTED}`;
       }
-    } else {
-      const match = arg.match(/^--?([^=]+)=(.+)$/);
-      if (match) {
-        const key = match[1];
-        if (sensitiveKeys.includes(key.toLowerCase())) {
-          redacted[i] = `--${key}=[REDACTED]`;
-        }
+    } else if (arg.startsWith("-") && isSensitiveKey(arg, sensitiveKeys)) {
+      if (i + 1 < redacted.length && !isKnownFlag(redacted[i + 1])) {
+        redacted[i + 1] = REDACTED;
       }
     }
   }
 
   return redacted;
 }
+
+/**
+ * Gets the values of the sensitive arguments of a command, to remove them from its output
+ *
+ * @param argv - The array of command line arguments
+ * @returns - The values long enough to be searched for in text
+ * @internal
+ */
+export function getSensitiveArgValues(argv: string[]): string[] {
+  const redacted = redactSensitiveArgs(argv);
+  const values = argv.flatMap((arg, i) => {
+    if (redacted[i] === arg) return [];
+    return redacted[i] === REDACTED ? [arg] : [arg.slice(arg.indexOf("=") + 1)];
+  });
+
+  return values.filter((value) => value.length >= MIN_SECRET_LENGTH);
+}
+
+/**
+ * Escapes a text for use in a regular expression
+ * @internal
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the built-in patterns, with the replacement keeping the part of each match that is not secret
+ * @internal
+ */
+function buildPatterns(): [RegExp, string][] {
+  const keys = getSensitiveKeys().map(escapeRegExp).join("|");
+  const flags = KNOWN_FLAGS.map(escapeRegExp).join("|");
+
+  return [
+    // Authorization headers
+    [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]{8,}=*/g, `$1 ${REDACTED}`],
+    // Command line flags, e.g. "-password secret", "-password -secret" or "--token abc", unless followed by another flag
+    [
+      new RegExp(`((?:^|\\s)-{1,2}[\\w-]*(?:${keys})[\\w-]*\\s+)(?!(?:${flags})(?:\\s|$))[^\\s"']+`, "gi"),
+      `$1${REDACTED}`,
+    ],
+    // Assignments and fields named after a credential, e.g. "password=secret", "keystorePass: abc" or "\"token\":\"abc\""
+    [
+      new RegExp(
+        `(\\b[\\w-]*(?:${keys})["']?\\s*[=:]\\s*["']?)(?!\\[REDACTED\\]|(?:Bearer|Basic)\\s)[^\\s"',;&]+`,
+        "gi"
+      ),
+      `$1${REDACTED}`,
+    ],
+    // JSON Web Tokens
+    [/\beyJ[\w-]{5,}\.[\w-]{5,}\.[\w-]+/g, REDACTED],
+    // Unity serial numbers, e.g. "E3-ABCD-EFGH-IJKL-MNOP-QRST"
+    [/\b[A-Z0-9]{2}-[A-Z0-9]{4}(?:-[A-Z0-9]{4}){3,5}\b/g, REDACTED],
+    // Credentials in URLs
+    [/(\/\/[^\s/:@]+:)[^\s/@]+@/g, `$1${REDACTED}@`],
+  ];
+}
+
+/**
+ * Removes credentials from a text, such as a log line, the output of a command or an error message
+ *
+ * @param text - The text to redact
+ * @param secrets - Values to remove wherever they appear, e.g. the password passed to the command
+ * @returns - The text with credentials replaced by `[REDACTED]`
+ */
+export function redactText(text: string, secrets: string[] = []): string {
+  let redacted = text;
+
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+
+  for (const [pattern, replacement] of builtInPatterns) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+
+  for (const pattern of extraPatterns) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+
+  return redacted;
+}
+
+/**
+ * Removes credentials from a value: strings are redacted, fields with sensitive names are replaced
+ * and lists of strings are redacted as command line arguments. Plain objects and arrays are copied, other objects are kept.
+ *
+ * @param value - The value to redact, e.g. the context of an error
+ * @param secrets - Values to remove wherever they appear
+ * @returns - A redacted copy of the value
+ * @internal
+ */
+export function redactValue<T>(value: T, secrets: string[] = []): T {
+  const seen = new WeakSet<object>();
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      return redactText(current, secrets);
+    }
+
+    if (typeof current !== "object" || current === null || seen.has(current)) {
+      return current;
+    }
+
+    if (Array.isArray(current)) {
+      seen.add(current);
+      const items = current.every((item) => typeof item === "string") ? redactSensitiveArgs(current) : current;
+      return items.map(visit);
+    }
+
+    const prototype = Object.getPrototypeOf(current) as unknown;
+    if (prototype !== Object.prototype && prototype !== null) {
+      return current;
+    }
+
+    seen.add(current);
+    return Object.fromEntries(
+      Object.entries(current).map(([key, entry]) => [
+        key,
+        isSensitiveKey(key) && (typeof entry === "string" || typeof entry === "number") ? REDACTED : visit(entry),
+      ])
+    );
+  };
+
+  return visit(value) as T;
+}
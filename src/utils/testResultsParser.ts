@@ -0,0 +1,112 @@
+import fs from "fs-extra";
+import { TestCaseResult, TestFixtureResult, TestResultStatus, TestRunReport } from "../types/unity.js";
+import { XmlElement, findXmlElements, parseXml } from "./xml.js";
+
+/**
+ * Parses the NUnit3 XML results written by the Unity Test Framework through `-testResults`.
+ */
+export class UnityTestResultsParser {
+  private static fixtureTypes = ["TestFixture", "ParameterizedFixture", "GenericFixture"];
+
+  /**
+   * Parses NUnit3 XML results into a test run report.
+   * @param xml - Contents of the results file
+   * @returns {TestRunReport} The parsed report
+   * @throws {Error} If the document is not an NUnit3 test run
+   */
+  public static parse(xml: string): TestRunReport {
+    const testRun = parseXml(xml);
+    if (testRun.name !== "test-run") {
+      throw new Error(`Expected an NUnit3 <test-run> element but found <${testRun.name}>`);
+    }
+
+    const fixtures: TestFixtureResult[] = [];
+    this.collectFixtures(testRun, fixtures);
+
+    const testCases = fixtures.flatMap((fixture) => fixture.testCases);
+    const failedTests = testCases.filter((testCase) => testCase.result === TestResultStatus.Failed);
+    const count = (attribute: string, status: TestResultStatus): number =>
+      this.parseCount(testRun.attributes[attribute]) ??
+      testCases.filter((testCase) => testCase.result === status).length;
+
+    return {
+      result: this.parseStatus(testRun.attributes.result),
+      total: this.parseCount(testRun.attributes.total) ?? testCases.length,
+      passed: count("passed", TestResultStatus.Passed),
+      failed: count("failed", TestResultStatus.Failed),
+      skipped: count("skipped", TestResultStatus.Skipped),
+      inconclusive: count("inconclusive", TestResultStatus.Inconclusive),
+      duration: this.parseDuration(testRun.attributes.duration),
+      startTime: testRun.attributes["start-time"],
+      endTime: testRun.attributes["end-time"],
+      fixtures,
+      failedTests,
+    };
+  }
+
+  /**
+   * Reads and parses an NUnit3 XML results file.
+   * @param resultsPath - Path of the results file
+   * @returns {Promise<TestRunReport>} The parsed report
+   */
+  public static async parseFile(resultsPath: string): Promise<TestRunReport> {
+    const xml = await fs.readFile(resultsPath, "utf8");
+    return { ...this.parse(xml), resultsPath };
+  }
+
+  private static collectFixtures(element: XmlElement, fixtures: TestFixtureResult[]): void {
+    for (const suite of element.children.filter((child) => child.name === "test-suite")) {
+      if (this.fixtureTypes.includes(suite.attributes.type ?? "")) {
+        const name = suite.attributes.name ?? "";
+        fixtures.push({
+          name,
+          fullName: suite.attributes.fullname ?? name,
+          result: this.parseStatus(suite.attributes.result),
+          duration: this.parseDuration(suite.attributes.duration),
+          testCases: findXmlElements(suite, "test-case").map((testCase) => this.parseTestCase(testCase)),
+        });
+      } else {
+        this.collectFixtures(suite, fixtures);
+      }
+    }
+  }
+
+  private static parseTestCase(element: XmlElement): TestCaseResult {
+    const failure = element.children.find((child) => child.name === "failure");
+    const reason = element.children.find((child) => child.name === "reason");
+    const output = element.children.find((child) => child.name === "output");
+    const childText = (parent: XmlElement | undefined, name: string): string | undefined => {
+      const text = parent?.children.find((child) => child.name === name)?.text.trim();
+      return text?.length ? text : undefined;
+    };
+    const name = element.attributes.name ?? "";
+    const outputText = output?.text.trim();
+
+    return {
+      name,
+      fullName: element.attributes.fullname ?? name,
+      className: element.attributes.classname,
+      result: this.parseStatus(element.attributes.result),
+      label: element.attributes.label,
+      duration: this.parseDuration(element.attributes.duration),
+      message: childText(failure, "message") ?? childText(reason, "message"),
+      stackTrace: childText(failure, "stack-trace"),
+      output: outputText?.length ? outputText : undefined,
+    };
+  }
+
+  private static parseStatus(result: string | undefined): TestResultStatus {
+    const status = Object.values(TestResultStatus).find((value) => result?.startsWith(value));
+    return status ?? TestResultStatus.Inconclusive;
+  }
+
+  private static parseCount(value: string | undefined): number | undefined {
+    const count = parseInt(value ?? "", 10);
+    return Number.isNaN(count) ? undefined : count;
+  }
+
+  private static parseDuration(seconds: string | undefined): number {
+    const value = parseFloat(seconds ?? "");
+    return Number.isNaN(value) ? 0 : Math.round(value * 1000);
+  }
+}
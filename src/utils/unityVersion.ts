@@ -0,0 +1,328 @@
+import { UnityReleaseStream, UnityReleaseType } from "../types/unity.js";
+
+/**
+ * Order of the release types, from the earliest to the latest build of a version
+ * @internal
+ */
+const RELEASE_TYPE_ORDER: Record<UnityReleaseType, number> = {
+  [UnityReleaseType.Experimental]: 0,
+  [UnityReleaseType.Alpha]: 1,
+  [UnityReleaseType.Beta]: 2,
+  [UnityReleaseType.Final]: 3,
+  [UnityReleaseType.China]: 3,
+  [UnityReleaseType.Patch]: 4,
+};
+
+/**
+ * Pattern of a full Unity version, optionally followed by its changeset in parentheses
+ * @internal
+ */
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)([abcfpx])(\d+)(?:\s*\(([0-9a-f]+)\))?$/i;
+
+/**
+ * Pattern of a possibly partial version in a range, where missing or "x" components match anything
+ * @internal
+ */
+const PARTIAL_PATTERN = /^(\d+|[x*])(?:\.(\d+|[x*]))?(?:\.(\d+|[x*]))?(?:([abcfpx])(\d+))?$/i;
+
+/**
+ * A single condition of a version range
+ * @internal
+ */
+interface VersionComparator {
+  test: (version: UnityVersion) => boolean;
+  /** Whether the condition names an alpha, beta or experimental version, allowing those to match */
+  prerelease: boolean;
+}
+
+/**
+ * Parses a version of a range into the components it constrains:
+ * major, minor, patch, release type order and revision, stopping at the first wildcard
+ * @internal
+ */
+function parsePartial(text: string): number[] | null {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, type, revision] = match;
+  const components: number[] = [];
+
+  for (const part of [major, minor, patch]) {
+    if (!part || part === "x" || part === "X" || part === "*") {
+      return components;
+    }
+    components.push(Number(part));
+  }
+
+  if (type) {
+    components.push(RELEASE_TYPE_ORDER[type.toLowerCase() as UnityReleaseType], Number(revision));
+  }
+
+  return components;
+}
+
+/**
+ * A Unity editor version such as `2022.3.60f1`, with comparison and range matching.
+ *
+ * Ranges are made of space separated comparators that must all match, with `||` between alternatives:
+ * - `2022.3.60f1` matches that exact version
+ * - `2022.3`, `2022.3.x` or `2022.3.*` match any 2022.3 version; `*`, `x` or `latest` match every version
+ * - `>=2021.3`, `>2021.3.10f1`, `<2023`, `<=2022.3` compare with the components given
+ * - `lts` and `tech` match the versions of a release stream, e.g. `>=2021 lts`
+ *
+ * Alpha, beta and experimental versions only match ranges that mention a pre-release version, e.g. `>=6000.1.0b1`.
+ */
+export class UnityVersion {
+  /**
+   * Minor versions that are Long Term Support releases, per major version.
+   * Before Unity 2020 the fourth minor version was the LTS, from 2020 to 2022 the third one.
+   */
+  private static LTS_MINORS: Record<number, number[]> = {
+    2017: [4],
+    2018: [4],
+    2019: [4],
+    2020: [3],
+    2021: [3],
+    2022: [3],
+    6000: [0, 3],
+  };
+
+  public readonly major: number;
+  public readonly minor: number;
+  public readonly patch: number;
+  public readonly type: UnityReleaseType;
+  public readonly revision: number;
+  public readonly changeset?: string;
+
+  private constructor(
+    major: number,
+    minor: number,
+    patch: number,
+    type: UnityReleaseType,
+    revision: number,
+    changeset?: string
+  ) {
+    this.major = major;
+    this.minor = minor;
+    this.patch = patch;
+    this.type = type;
+    this.revision = revision;
+    this.changeset = changeset;
+  }
+
+  /**
+   * Parses a Unity version
+   * @param version - The version, e.g. "2022.3.60f1" or "2022.3.60f1 (8f0f1a8a0a4c)" as written by Unity
+   * @param changeset - Changeset of the version, if not part of the text
+   * @returns {UnityVersion | null} The parsed version, or null if the text is not a full Unity version
+   */
+  public static parse(version: string, changeset?: string): UnityVersion | null {
+    const match = VERSION_PATTERN.exec(version.trim());
+    if (!match) {
+      return null;
+    }
+
+    const [, major, minor, patch, type, revision, parsedChangeset] = match;
+    return new UnityVersion(
+      Number(major),
+      Number(minor),
+      Number(patch),
+      type.toLowerCase() as UnityReleaseType,
+      Number(revision),
+      changeset ?? parsedChangeset
+    );
+  }
+
+  /**
+   * Checks whether a text is a full Unity version rather than a range
+   * @param version - The text to check
+   * @returns {boolean} True if the text is a full version
+   */
+  public static isVersion(version: string): boolean {
+    return VERSION_PATTERN.test(version.trim());
+  }
+
+  /**
+   * Checks whether a range is well formed
+   * @param range - The range to check
+   * @returns {boolean} True if every comparator of the range can be parsed
+   */
+  public static isValidRange(range: string): boolean {
+    return this.parseRange(range) !== null;
+  }
+
+  /**
+   * Compares two versions, for use with `Array.prototype.sort`
+   * @param a - First version
+   * @param b - Second version
+   * @returns {number} A negative number if a is older, a positive number if a is newer, 0 if equal
+   */
+  public static compare(a: UnityVersion | string, b: UnityVersion | string): number {
+    const left = typeof a === "string" ? UnityVersion.parse(a) : a;
+    const right = typeof b === "string" ? UnityVersion.parse(b) : b;
+
+    if (!left || !right) {
+      return left ? 1 : right ? -1 : 0;
+    }
+
+    return left.compareTo(right);
+  }
+
+  /**
+   * Sorts versions from the oldest to the newest; texts that are not versions come first
+   * @param versions - The versions to sort
+   * @returns {string[]} A sorted copy of the versions
+   */
+  public static sort(versions: string[]): string[] {
+    return [...versions].sort((a, b) => UnityVersion.compare(a, b));
+  }
+
+  /**
+   * Finds the newest version matching a range
+   * @param versions - The versions to choose from, e.g. the installed editors
+   * @param range - The range to match
+   * @returns {string | null} The newest matching version, or null if none matches
+   */
+  public static findBest(versions: string[], range: string): string | null {
+    const matching = versions.filter((version) => UnityVersion.parse(version)?.satisfies(range));
+    return matching.length > 0 ? UnityVersion.sort(matching)[matching.length - 1] : null;
+  }
+
+  /**
+   * The release stream of the version
+   */
+  public get stream(): UnityReleaseStream {
+    if (this.type === UnityReleaseType.Alpha || this.type === UnityReleaseType.Experimental) {
+      return UnityReleaseStream.Alpha;
+    }
+
+    if (this.type === UnityReleaseType.Beta) {
+      return UnityReleaseStream.Beta;
+    }
+
+    return this.isLTS ? UnityReleaseStream.LTS : UnityReleaseStream.Tech;
+  }
+
+  /**
+   * Whether the version belongs to a Long Term Support release
+   */
+  public get isLTS(): boolean {
+    return (UnityVersion.LTS_MINORS[this.major] ?? []).includes(this.minor) && this.isRelease;
+  }
+
+  /**
+   * Whether the version is a release rather than an alpha, beta or experimental build
+   */
+  public get isRelease(): boolean {
+    return RELEASE_TYPE_ORDER[this.type] >= RELEASE_TYPE_ORDER[UnityReleaseType.Final];
+  }
+
+  /**
+   * Compares the version with another one; the changeset is ignored
+   * @param other - The version to compare with
+   * @returns {number} A negative number if this version is older, a positive number if newer, 0 if equal
+   */
+  public compareTo(other: UnityVersion): number {
+    const left = this.components();
+    const right = other.components();
+    const index = left.findIndex((component, i) => component !== right[i]);
+
+    return index === -1 ? 0 : left[index] - right[index];
+  }
+
+  /**
+   * Checks whether two versions are the same; the changeset is ignored
+   * @param other - The version to compare with
+   * @returns {boolean} True if the versions are equal
+   */
+  public equals(other: UnityVersion | string): boolean {
+    return UnityVersion.compare(this, other) === 0;
+  }
+
+  /**
+   * Checks whether the version matches a range
+   * @param range - The range, see {@link UnityVersion}
+   * @returns {boolean} True if the version matches, false if it does not or the range is invalid
+   */
+  public satisfies(range: string): boolean {
+    const alternatives = UnityVersion.parseRange(range);
+    if (!alternatives) {
+      return false;
+    }
+
+    return alternatives.some(
+      (comparators) =>
+        (this.isRelease || comparators.some((comparator) => comparator.prerelease)) &&
+        comparators.every((comparator) => comparator.test(this))
+    );
+  }
+
+  /**
+   * Formats the version as Unity does, e.g. "2022.3.60f1"
+   * @returns {string} The version without its changeset
+   */
+  public toString(): string {
+    return `${this.major}.${this.minor}.${this.patch}${this.type}${this.revision}`;
+  }
+
+  private components(): number[] {
+    return [this.major, this.minor, this.patch, RELEASE_TYPE_ORDER[this.type], this.revision];
+  }
+
+  /**
+   * Parses a range into alternatives of comparators
+   * @param range - The range to parse
+   * @returns The alternatives, or null if the range is invalid
+   */
+  private static parseRange(range: string): VersionComparator[][] | null {
+    const alternatives = range.split("||").map((alternative) => alternative.trim().split(/\s+/).filter(Boolean));
+    const parsed = alternatives.map((tokens) => tokens.map((token) => this.parseComparator(token)));
+
+    if (parsed.some((comparators) => comparators.length === 0 || comparators.includes(null))) {
+      return null;
+    }
+
+    return parsed as VersionComparator[][];
+  }
+
+  /**
+   * Parses a single comparator of a range, e.g. ">=2021.3" or "lts"
+   * @param token - The comparator
+   * @returns The comparator, or null if it is invalid
+   */
+  private static parseComparator(token: string): VersionComparator | null {
+    const keyword = token.toLowerCase();
+    if (keyword === "latest") {
+      return { test: (): boolean => true, prerelease: false };
+    }
+    if (keyword === UnityReleaseStream.LTS || keyword === UnityReleaseStream.Tech) {
+      return { test: (version): boolean => version.stream === keyword, prerelease: false };
+    }
+
+    const match = /^(>=|<=|>|<|=)?(.+)$/.exec(token);
+    const expected = match ? parsePartial(match[2]) : null;
+    if (!match || !expected) {
+      return null;
+    }
+
+    const operator = match[1] || "=";
+    const prerelease = expected.length > 3 && expected[3] < RELEASE_TYPE_ORDER[UnityReleaseType.Final];
+    const compare = (version: UnityVersion): number => {
+      const actual = version.components();
+      const index = expected.findIndex((component, i) => component !== actual[i]);
+      return index === -1 ? 0 : actual[index] - expected[index];
+    };
+
+    const tests: Record<string, (result: number) => boolean> = {
+      "=": (result) => result === 0,
+      ">": (result) => result > 0,
+      ">=": (result) => result >= 0,
+      "<": (result) => result < 0,
+      "<=": (result) => result <= 0,
+    };
+
+    return { test: (version): boolean => tests[operator](compare(version)), prerelease };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Minimal XML element tree used to read the XML files Unity produces (test results, license files)
+ * @internal
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string | undefined>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ *
+ * @param value - Raw attribute or text value
+ * @returns - The decoded value
+ * @internal
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith("#x") ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Parses an XML document into an element tree.
+ * Supports elements, attributes, text, CDATA sections and comments, which covers the files written by
+ * Unity and NUnit. Namespaces, DTDs and processing instructions are ignored.
+ *
+ * @param source - The XML document
+ * @returns - The root element of the document
+ * @throws {Error} If the document is not well-formed
+ * @internal
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/;
+  const attributePattern = /([^\s=/>]+)\s*=\s*(["'])(.*?)\2/g;
+  let position = 0;
+
+  while (position < source.length) {
+    const current = stack[stack.length - 1];
+    const next = source.indexOf("<", position);
+
+    if (next === -1) {
+      current.text += decodeEntities(source.slice(position));
+      break;
+    }
+
+    if (next > position) {
+      current.text += decodeEntities(source.slice(position, next));
+      position = next;
+    }
+
+    if (source.startsWith("<![CDATA[", position)) {
+      const end = source.indexOf("]]>", position);
+      if (end === -1) throw new Error("Unterminated CDATA section");
+      current.text += source.slice(position + 9, end);
+      position = end + 3;
+    } else if (source.startsWith("<!--", position)) {
+      const end = source.indexOf("-->", position);
+      if (end === -1) throw new Error("Unterminated comment");
+      position = end + 3;
+    } else if (source.startsWith("<?", position) || source.startsWith("<!", position)) {
+      const end = source.indexOf(">", position);
+      if (end === -1) throw new Error("Unterminated declaration");
+      position = end + 1;
+    } else if (source.startsWith("</", position)) {
+      const end = source.indexOf(">", position);
+      if (end === -1) throw new Error("Unterminated closing tag");
+      const name = source.slice(position + 2, end).trim();
+      if (stack.length <= 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      position = end + 1;
+    } else {
+      const match = source.slice(position).match(tagPattern);
+      if (!match) throw new Error(`Malformed tag at position ${position}`);
+
+      const element: XmlElement = { name: match[1], attributes: {}, children: [], text: "" };
+      for (const attribute of match[2].matchAll(attributePattern)) {
+        element.attributes[attribute[1]] = decodeEntities(attribute[3]);
+      }
+
+      current.children.push(element);
+      if (!match[3]) {
+        stack.push(element);
+      }
+      position += match[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+
+  if (root.children.length === 0) {
+    throw new Error("Document has no root element");
+  }
+
+  return root.children[0];
+}
+
+/**
+ * Finds all descendants of an element with the given name, in document order.
+ *
+ * @param element - The element to search
+ * @param name - The element name to look for
+ * @returns - The matching descendants
+ * @internal
+ */
+export function findXmlElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...findXmlElements(child, name));
+  }
+  return found;
+}